@@ -10,7 +10,8 @@ export function middleware(request: NextRequest) {
     pathname.startsWith("/dashboard") ||
     pathname.startsWith("/transactions") ||
     pathname.startsWith("/profile") ||
-    pathname.startsWith("/receipts");
+    pathname.startsWith("/receipts") ||
+    pathname.startsWith("/settings");
 
   if (token && isAuthPage) {
     const url = request.nextUrl.clone();
@@ -35,5 +36,6 @@ export const config = {
     "/transactions/:path*",
     "/profile/:path*",
     "/receipts/:path*",
+    "/settings/:path*",
   ],
 };
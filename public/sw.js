@@ -0,0 +1,286 @@
+/*
+ * Replays receipts captured while offline: presign -> direct PUT -> parse.
+ * Also receives files from the OS share sheet (see src/app/manifest.ts).
+ * The IndexedDB layout must match src/lib/offline-receipts.ts.
+ */
+
+const OFFLINE_DB_NAME = "ai-receipts-offline";
+const OFFLINE_DB_VERSION = 2;
+const OFFLINE_RECEIPT_STORE = "pendingReceipts";
+const SHARED_FILE_STORE = "sharedFiles";
+const SHARE_TARGET_PATH = "/share-target";
+const OFFLINE_SYNC_TAG = "receipt-upload-sync";
+const AUTH_COOKIE = "auth_token";
+
+let replayInFlight = null;
+
+function requestToPromise(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOfflineDb() {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    for (const storeName of [OFFLINE_RECEIPT_STORE, SHARED_FILE_STORE]) {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName, { keyPath: "id" });
+      }
+    }
+  };
+  return requestToPromise(request);
+}
+
+async function withStore(storeName, mode, run) {
+  const db = await openOfflineDb();
+  try {
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return await requestToPromise(run(store));
+  } finally {
+    db.close();
+  }
+}
+
+function withReceiptStore(mode, run) {
+  return withStore(OFFLINE_RECEIPT_STORE, mode, run);
+}
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  for (const client of clients) {
+    client.postMessage(message);
+  }
+}
+
+async function readAuthToken(fallbackToken) {
+  if (self.cookieStore) {
+    try {
+      const cookie = await self.cookieStore.get(AUTH_COOKIE);
+      if (cookie && cookie.value) {
+        return decodeURIComponent(cookie.value);
+      }
+    } catch {
+      // Fall back to the token handed over by the page.
+    }
+  }
+  return fallbackToken || "";
+}
+
+class ReplayError extends Error {
+  constructor(message, retryable) {
+    super(message);
+    this.retryable = retryable;
+  }
+}
+
+async function readMessage(response, fallback) {
+  const payload = await response.json().catch(() => null);
+  return payload && typeof payload.message === "string" && payload.message.trim()
+    ? payload.message
+    : fallback;
+}
+
+async function sendRequest(url, init, token) {
+  const headers = new Headers(init.headers);
+  if (token && !headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  try {
+    return await fetch(url, { ...init, headers, credentials: "include" });
+  } catch {
+    throw new ReplayError("Waiting for connection.", true);
+  }
+}
+
+async function assertOk(response, fallback) {
+  if (response.ok) {
+    return;
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new ReplayError("Sign in again to sync this receipt.", true);
+  }
+  // 5xx is worth retrying later; anything else needs the user to look at it.
+  throw new ReplayError(await readMessage(response, fallback), response.status >= 500);
+}
+
+async function replayRecord(record, token) {
+  let { imageId, objectKey } = record;
+
+  if (imageId === null || !objectKey) {
+    const presignResponse = await sendRequest(
+      "/api/images/upload-url",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          fileName: record.fileName,
+          contentType: record.contentType,
+          sizeBytes: record.sizeBytes,
+        }),
+      },
+      token
+    );
+    await assertOk(presignResponse, "Failed to create upload URL.");
+    const presignPayload = await presignResponse.json().catch(() => null);
+    if (
+      !presignPayload ||
+      (typeof presignPayload.imageId !== "number" && typeof presignPayload.imageId !== "string") ||
+      typeof presignPayload.objectKey !== "string" ||
+      typeof presignPayload.uploadUrl !== "string"
+    ) {
+      throw new ReplayError("Failed to create upload URL.", false);
+    }
+
+    const uploadResponse = await sendRequest(
+      presignPayload.uploadUrl,
+      {
+        method: "PUT",
+        headers: { "Content-Type": record.contentType },
+        body: record.file,
+      },
+      ""
+    );
+    await assertOk(uploadResponse, "Failed to upload image to storage.");
+
+    imageId =
+      typeof presignPayload.imageId === "number"
+        ? presignPayload.imageId
+        : presignPayload.imageId.trim();
+    objectKey = presignPayload.objectKey.trim();
+    // Remember the uploaded object so a failed parse does not upload it twice.
+    await withReceiptStore("readwrite", (store) =>
+      store.put({ ...record, state: "syncing", imageId, objectKey })
+    );
+  }
+
+  const parseResponse = await sendRequest(
+    "/api/receipts/parse",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ imageId, objectKey }),
+    },
+    token
+  );
+  await assertOk(parseResponse, "Failed to parse receipt.");
+}
+
+async function fetchUserId(token) {
+  const response = await sendRequest("/api/users/me", { method: "GET" }, token);
+  await assertOk(response, "Failed to load the signed-in user.");
+  const payload = await response.json().catch(() => null);
+  const rawId = payload ? (payload.userId ?? payload.id ?? payload._id) : null;
+  if (typeof rawId !== "string" && typeof rawId !== "number") {
+    throw new ReplayError("Failed to load the signed-in user.", true);
+  }
+  return String(rawId);
+}
+
+async function replayOfflineReceipts(fallbackToken) {
+  const token = await readAuthToken(fallbackToken);
+  const records = await withReceiptStore("readonly", (store) => store.getAll());
+  if (!records.some((record) => record.state !== "failed")) {
+    return;
+  }
+  // Receipts are only sent with their owner's session, never another account's.
+  const userId = await fetchUserId(token);
+  let shouldRetry = false;
+
+  for (const record of records) {
+    if (record.state === "failed" || record.userId !== userId) {
+      continue;
+    }
+
+    await withReceiptStore("readwrite", (store) =>
+      store.put({ ...record, state: "syncing", attempts: record.attempts + 1 })
+    );
+    await notifyClients({ type: "offline-receipts-changed" });
+
+    try {
+      await replayRecord({ ...record, attempts: record.attempts + 1 }, token);
+      await withReceiptStore("readwrite", (store) => store.delete(record.id));
+      await notifyClients({ type: "offline-receipt-synced", id: record.id });
+    } catch (error) {
+      const retryable = !(error instanceof ReplayError) || error.retryable;
+      const latest = await withReceiptStore("readonly", (store) => store.get(record.id));
+      if (latest) {
+        await withReceiptStore("readwrite", (store) =>
+          store.put({
+            ...latest,
+            state: retryable ? "pending" : "failed",
+            lastError: error instanceof Error ? error.message : "Sync failed.",
+          })
+        );
+      }
+      shouldRetry = shouldRetry || retryable;
+    }
+  }
+
+  await notifyClients({ type: "offline-receipts-changed" });
+  if (shouldRetry) {
+    // Rejecting tells Background Sync to try again later.
+    throw new Error("Some receipts are still waiting to sync.");
+  }
+}
+
+function replayOnce(fallbackToken) {
+  if (!replayInFlight) {
+    replayInFlight = replayOfflineReceipts(fallbackToken).finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+}
+
+async function receiveSharedFiles(request) {
+  const redirectUrl = new URL("/dashboard", self.location.origin);
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll("receipts").filter((value) => value instanceof File);
+    const sharedAt = new Date().toISOString();
+    for (const [index, file] of files.entries()) {
+      await withStore(SHARED_FILE_STORE, "readwrite", (store) =>
+        store.put({
+          id: `shared-${Date.now()}-${index}`,
+          file,
+          fileName: file.name || `shared-receipt-${index + 1}`,
+          contentType: file.type || "image/jpeg",
+          sharedAt,
+        })
+      );
+    }
+    redirectUrl.searchParams.set("shared", files.length > 0 ? "1" : "empty");
+  } catch {
+    redirectUrl.searchParams.set("shared", "unavailable");
+  }
+  return Response.redirect(redirectUrl.href, 303);
+}
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method === "POST" && url.pathname === SHARE_TARGET_PATH) {
+    event.respondWith(receiveSharedFiles(event.request));
+  }
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === OFFLINE_SYNC_TAG) {
+    event.waitUntil(replayOnce(""));
+  }
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "replay-offline-receipts") {
+    event.waitUntil(replayOnce(event.data.token).catch(() => undefined));
+  }
+});
@@ -0,0 +1,102 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { type NextRequest, NextResponse } from "next/server";
+import { resolveLocalObjectPath, verifyLocalSignature } from "../../../../lib/upload-storage";
+
+export const runtime = "nodejs";
+
+// Serves the signed upload/download URLs handed out by the local storage driver.
+// S3 is the only other driver and talks to the browser directly, so this route is
+// unused unless UPLOAD_STORAGE_DRIVER=local.
+
+type RouteContext = {
+  params: Promise<{ key: string[] }>;
+};
+
+const CONTENT_TYPE_BY_EXTENSION: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  heif: "image/heif",
+  pdf: "application/pdf",
+};
+
+function errorResponse(status: number, message: string) {
+  return NextResponse.json({ message }, { status });
+}
+
+async function readObjectKey(context: RouteContext) {
+  const { key } = await context.params;
+  return key.join("/");
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const key = await readObjectKey(context);
+  const params = request.nextUrl.searchParams;
+  const contentType = params.get("contentType") ?? "";
+  const sizeBytes = Number(params.get("sizeBytes"));
+  const isSigned = verifyLocalSignature(
+    {
+      method: "PUT",
+      key,
+      expires: Number(params.get("expires")),
+      contentType,
+      sizeBytes,
+    },
+    params.get("signature") ?? ""
+  );
+  if (!isSigned) {
+    return errorResponse(403, "Upload URL is invalid or has expired.");
+  }
+
+  if ((request.headers.get("content-type") ?? "").toLowerCase() !== contentType) {
+    return errorResponse(400, "Content-Type does not match the signed upload.");
+  }
+
+  const objectPath = resolveLocalObjectPath(key);
+  if (!objectPath) {
+    return errorResponse(400, "Invalid object key.");
+  }
+
+  const body = Buffer.from(await request.arrayBuffer());
+  if (body.length !== sizeBytes) {
+    return errorResponse(400, "Upload size does not match the signed upload.");
+  }
+
+  await mkdir(path.dirname(objectPath), { recursive: true });
+  await writeFile(objectPath, body);
+  return new NextResponse(null, { status: 200 });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const key = await readObjectKey(context);
+  const params = request.nextUrl.searchParams;
+  const isSigned = verifyLocalSignature(
+    { method: "GET", key, expires: Number(params.get("expires")) },
+    params.get("signature") ?? ""
+  );
+  if (!isSigned) {
+    return errorResponse(403, "Download URL is invalid or has expired.");
+  }
+
+  const objectPath = resolveLocalObjectPath(key);
+  if (!objectPath) {
+    return errorResponse(400, "Invalid object key.");
+  }
+
+  try {
+    const body = await readFile(objectPath);
+    const extension = path.extname(objectPath).slice(1).toLowerCase();
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": CONTENT_TYPE_BY_EXTENSION[extension] ?? "application/octet-stream",
+        "Content-Length": String(body.length),
+        "Cache-Control": "private, max-age=0, no-store",
+      },
+    });
+  } catch {
+    return errorResponse(404, "Object not found.");
+  }
+}
@@ -1,103 +1,115 @@
-import { GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import { NextResponse } from "next/server";
+import { type NextRequest, NextResponse } from "next/server";
+import { RequestAuthError, resolveRequestUser } from "../../../lib/request-auth";
+import { optionalEnv, readAmplifySecrets, readEnv } from "../../../lib/server-env";
+import { createRateLimiter } from "../../../lib/upload-rate-limit";
+import { getUploadStorage } from "../../../lib/upload-storage";
 
 export const runtime = "nodejs";
 
-function readAmplifySecrets() {
-  const raw = process.env.secrets;
-  if (!raw) {
-    return {};
-  }
-
-  try {
-    const parsed = JSON.parse(raw);
-    return typeof parsed === "object" && parsed !== null
-      ? (parsed as Record<string, string>)
-      : {};
-  } catch {
-    return raw
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(Boolean)
-      .reduce<Record<string, string>>((accumulator, line) => {
-        const separatorIndex = line.indexOf("=");
-        if (separatorIndex <= 0) {
-          return accumulator;
-        }
-        const key = line.slice(0, separatorIndex).trim();
-        const value = line.slice(separatorIndex + 1).trim();
-        if (key && value) {
-          accumulator[key] = value;
-        }
-        return accumulator;
-      }, {});
-  }
+const DEFAULT_MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+const DEFAULT_RATE_LIMIT = 30;
+const DEFAULT_RATE_LIMIT_WINDOW_SECONDS = 60;
+const DEFAULT_ALLOWED_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "application/pdf",
+];
+const EXTENSION_BY_CONTENT_TYPE: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "image/heif": "heif",
+  "application/pdf": "pdf",
+};
+
+type UploadErrorCode =
+  | RequestAuthError["code"]
+  | "invalid_request"
+  | "file_too_large"
+  | "rate_limited"
+  | "unsupported_content_type"
+  | "server_error";
+
+// Every rejection carries a stable `code` plus a `message` the dashboard can show as is.
+function errorResponse(
+  status: number,
+  code: UploadErrorCode,
+  message: string,
+  details: Record<string, unknown> = {}
+) {
+  return NextResponse.json({ code, message, ...details }, { status });
 }
 
-function readEnv(name: string) {
-  const value = process.env[name];
-  if (value && value.trim()) {
-    return value.trim();
-  }
-
-  const secretValue = readAmplifySecrets()[name];
-  if (typeof secretValue === "string" && secretValue.trim()) {
-    return secretValue.trim();
-  }
-
-  return "";
+function extensionFromName(fileName: string) {
+  const match = fileName.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match ? match[1] : "jpg";
 }
 
-function readFirstEnv(names: string[]) {
-  for (const name of names) {
-    const value = readEnv(name);
-    if (value) {
-      return value;
-    }
-  }
-  return "";
+function readMaxUploadBytes() {
+  const configured = Number(optionalEnv("UPLOAD_MAX_SIZE_BYTES"));
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_UPLOAD_BYTES;
 }
 
-function requiredEnv(...names: string[]) {
-  const value = readFirstEnv(names);
-  if (!value) {
-    throw new Error(`Missing environment variable: ${names.join(" / ")}`);
-  }
-  return value;
+function readAllowedContentTypes() {
+  const configured = optionalEnv("UPLOAD_ALLOWED_CONTENT_TYPES")
+    .split(",")
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_ALLOWED_CONTENT_TYPES;
 }
 
-function optionalEnv(...names: string[]) {
-  return readFirstEnv(names);
+function readRateLimit() {
+  const limit = Number(optionalEnv("UPLOAD_RATE_LIMIT"));
+  const windowSeconds = Number(optionalEnv("UPLOAD_RATE_LIMIT_WINDOW_SECONDS"));
+  return {
+    limit: Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_RATE_LIMIT,
+    windowMs:
+      (Number.isFinite(windowSeconds) && windowSeconds > 0
+        ? windowSeconds
+        : DEFAULT_RATE_LIMIT_WINDOW_SECONDS) * 1000,
+  };
 }
 
-function extensionFromName(fileName: string) {
-  const match = fileName.toLowerCase().match(/\.([a-z0-9]+)$/);
-  return match ? match[1] : "jpg";
+const consumeUploadRateLimit = createRateLimiter();
+
+// User ids come from the backend; keep them from escaping their prefix.
+function toKeySegment(value: string) {
+  return value.replace(/[^A-Za-z0-9_-]/g, "_") || "_";
 }
 
-function createS3Client(region: string) {
-  const accessKeyId = optionalEnv("AWS_ACCESS_KEY_ID", "S3_ACCESS_KEY_ID");
-  const secretAccessKey = optionalEnv("AWS_SECRET_ACCESS_KEY", "S3_SECRET_ACCESS_KEY");
-
-  if (accessKeyId && secretAccessKey) {
-    return new S3Client({
-      region,
-      credentials: {
-        accessKeyId,
-        secretAccessKey,
-      },
-    });
+export async function POST(request: NextRequest) {
+  let userId: string;
+  try {
+    userId = (await resolveRequestUser(request)).id;
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return errorResponse(error.status, error.code, error.message);
+    }
+    throw error;
   }
 
-  return new S3Client({ region });
-}
+  const rateLimit = consumeUploadRateLimit(userId, readRateLimit());
+  if (!rateLimit.allowed) {
+    const response = errorResponse(
+      429,
+      "rate_limited",
+      "Too many uploads in a short time. Wait a moment and try again.",
+      { retryAfterSeconds: rateLimit.retryAfterSeconds }
+    );
+    response.headers.set("Retry-After", String(rateLimit.retryAfterSeconds));
+    return response;
+  }
 
-export async function POST(request: Request) {
   try {
     const amplifySecrets = readAmplifySecrets();
+    const storage = getUploadStorage();
     console.info("[s3-upload][env-check]", {
       nodeEnv: process.env.NODE_ENV ?? "",
+      storageDriver: storage.name,
       hasAwsRegion: Boolean(readEnv("AWS_REGION")),
       hasS3Region: Boolean(readEnv("S3_REGION")),
       hasAwsS3Bucket: Boolean(readEnv("AWS_S3_BUCKET")),
@@ -106,59 +118,61 @@ export async function POST(request: Request) {
       secretKeys: Object.keys(amplifySecrets).slice(0, 30),
     });
 
-    const region = requiredEnv("AWS_REGION", "S3_REGION");
-    const bucket = requiredEnv("AWS_S3_BUCKET", "S3_BUCKET");
-    const signedUrlExpiresSeconds = Number(
-      optionalEnv("AWS_S3_SIGNED_URL_EXPIRES", "S3_SIGNED_URL_EXPIRES") || "3600"
-    );
     const body = await request.json().catch(() => null);
     const payload = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
     const fileName = typeof payload.fileName === "string" ? payload.fileName : "";
-    const contentType = typeof payload.contentType === "string" ? payload.contentType : "";
+    const contentType =
+      typeof payload.contentType === "string" ? payload.contentType.trim().toLowerCase() : "";
+    const sizeBytes = typeof payload.sizeBytes === "number" ? payload.sizeBytes : Number.NaN;
+    const maxSizeBytes = readMaxUploadBytes();
+    const allowedContentTypes = readAllowedContentTypes();
 
     if (!fileName.trim()) {
-      return NextResponse.json({ message: "fileName is required." }, { status: 400 });
+      return errorResponse(400, "invalid_request", "fileName is required.");
     }
 
-    if (!contentType.startsWith("image/")) {
-      return NextResponse.json({ message: "Only image files are supported." }, { status: 400 });
+    if (!allowedContentTypes.includes(contentType)) {
+      return errorResponse(
+        415,
+        "unsupported_content_type",
+        "This file type is not supported. Upload a photo or a PDF.",
+        { allowedContentTypes }
+      );
     }
 
-    const extension = extensionFromName(fileName);
-    const key = `receipts/${new Date().toISOString().slice(0, 10)}/${crypto.randomUUID()}.${extension}`;
-    const client = createS3Client(region);
-    const expiresIn = Number.isFinite(signedUrlExpiresSeconds) ? signedUrlExpiresSeconds : 3600;
-
-    const uploadUrl = await getSignedUrl(
-      client,
-      new PutObjectCommand({
-        Bucket: bucket,
-        Key: key,
-        ContentType: contentType,
-      }),
-      { expiresIn }
-    );
+    if (!Number.isInteger(sizeBytes) || sizeBytes <= 0) {
+      return errorResponse(400, "invalid_request", "sizeBytes must be a positive integer.");
+    }
 
-    const signedReadUrl = await getSignedUrl(
-      client,
-      new GetObjectCommand({
-        Bucket: bucket,
-        Key: key,
-      }),
-      { expiresIn }
-    );
+    if (sizeBytes > maxSizeBytes) {
+      return errorResponse(
+        413,
+        "file_too_large",
+        `This file is larger than the ${Math.floor(maxSizeBytes / (1024 * 1024))} MB limit.`,
+        { maxSizeBytes }
+      );
+    }
+
+    const extension = EXTENSION_BY_CONTENT_TYPE[contentType] ?? extensionFromName(fileName);
+    const datePrefix = new Date().toISOString().slice(0, 10);
+    const key = `receipts/${toKeySegment(userId)}/${datePrefix}/${crypto.randomUUID()}.${extension}`;
+    const { uploadUrl, url } = await storage.createSignedUpload({
+      key,
+      contentType,
+      sizeBytes,
+      origin: request.nextUrl.origin,
+    });
 
     return NextResponse.json({
       uploadUrl,
-      url: signedReadUrl,
+      url,
       key,
     });
   } catch (error) {
-    return NextResponse.json(
-      {
-        message: error instanceof Error ? error.message : "Failed to create upload URL.",
-      },
-      { status: 500 }
+    return errorResponse(
+      500,
+      "server_error",
+      error instanceof Error ? error.message : "Failed to create upload URL."
     );
   }
 }
@@ -1,8 +1,57 @@
 "use client";
 
 import Link from "next/link";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { authFetch, logoutAndRedirect } from "../../lib/auth-client";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
+import { authFetch, fetchCurrentUserId, signOut } from "../../lib/auth-client";
+import { splitMixedCategory } from "../../lib/category-allocation";
+import {
+  deleteOfflineReceipt,
+  isOfflineStorageAvailable,
+  listOfflineReceipts,
+  type OfflineReceiptMessage,
+  type OfflineReceiptRecord,
+  registerReceiptServiceWorker,
+  requestOfflineSync,
+  resetOfflineReceipt,
+  saveOfflineReceipt,
+  takeSharedReceiptFiles,
+} from "../../lib/offline-receipts";
+import { isManualReceipt } from "../../lib/manual-expenses";
+import { isPdfFile } from "../../lib/pdf-preview";
+import {
+  computeImageHash,
+  type DuplicateMatch,
+  fetchParsedReceiptFingerprint,
+  fetchReceiptFingerprints,
+  findSimilarImage,
+  findSimilarReceipt,
+  forgetReceiptImageHash,
+  type ReceiptFingerprint,
+  rememberImageHash,
+  toReceiptFingerprint,
+} from "../../lib/receipt-duplicates";
+import { fetchReceiptPage } from "../../lib/receipt-pages";
+import {
+  isOfflineUploadError,
+  isUploadQuotaError,
+  prepareReceiptFile,
+  uploadPreparedReceiptFile,
+} from "../../lib/receipt-upload";
+import {
+  formatParseStatus,
+  isParseStatusSettled,
+  type ParseStatus,
+  type ParseStatusEvent,
+  readParseStatus,
+  subscribeToParseStatus,
+} from "../../lib/receipt-parse-status";
+import {
+  getCategoryColor,
+  loadUserCategories,
+  type UserCategory,
+} from "../../lib/user-categories";
+import ReceiptCropEditor from "./ReceiptCropEditor";
 import styles from "./page.module.css";
 
 const IconBell = () => (
@@ -103,6 +152,9 @@ type Receipt = {
   amount: number | null;
   status: string;
   date: string | null;
+  parseStatus?: ParseStatus | null;
+  parseError?: string;
+  isManual?: boolean;
 };
 
 type ReceiptStats = {
@@ -132,16 +184,34 @@ type BillingUsage = {
   remainingToday: number | null;
 };
 
-type UploadState = "idle" | "uploading" | "parsing" | "success" | "error";
+type UploadState =
+  | "idle"
+  | "queued"
+  | "uploading"
+  | "parsing"
+  | "success"
+  | "error"
+  | "duplicate";
 
-const CATEGORY_COLOR_PALETTE = [
-  "#0066cc",
-  "#0071e3",
-  "#7a7a7a",
-  "#cccccc",
-  "#333333",
-  "#e0e0e0",
-];
+// "before-upload" matches come from the image hash and nothing was sent yet;
+// "after-parse" matches were uploaded and parsed as `receiptId`.
+type UploadDuplicate = DuplicateMatch & { stage: "before-upload" | "after-parse" };
+
+type UploadQueueItem = {
+  id: string;
+  file: File;
+  state: UploadState;
+  message: string;
+  duplicate: UploadDuplicate | null;
+  receiptId: string | null;
+  skipDuplicateCheck: boolean;
+  // Uploaded, but the after-parse duplicate check has not run yet; kept in the queue until then.
+  awaitingParse: boolean;
+};
+
+const MAX_CONCURRENT_UPLOADS = 3;
+const RECENT_RECEIPTS_LIMIT = 5;
+const UPLOAD_QUOTA_MESSAGE = "Daily upload limit reached. Upgrade or try again tomorrow.";
 
 function toObject(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
@@ -210,7 +280,7 @@ function normalizeReceipts(payload: unknown): Receipt[] {
           : [];
 
   return receiptsRaw
-    .map((item, index) => {
+    .map((item, index): (Receipt & { createdAt: string | null }) | null => {
       const receiptObject = toObject(item);
       if (!receiptObject) {
         return null;
@@ -225,12 +295,16 @@ function normalizeReceipts(payload: unknown): Receipt[] {
         "Unknown Merchant";
       const amount = readFirstNumber(receiptObject, ["amount", "total", "totalAmount", "price", "sum"]);
       const reviewed = receiptObject.reviewed;
+      const parseState = readParseStatus({ ...receiptObject, receiptId: id });
+      const parseStatus = parseState?.status ?? null;
       const status =
-        typeof reviewed === "boolean"
-          ? reviewed
-            ? "Reviewed"
-            : "Unreview"
-          : readFirstString(receiptObject, ["status", "processingStatus", "state"]) ?? "Unknown";
+        parseState && parseState.status !== "parsed"
+          ? formatParseStatus(parseState.status)
+          : typeof reviewed === "boolean"
+            ? reviewed
+              ? "Reviewed"
+              : "Unreview"
+            : readFirstString(receiptObject, ["status", "processingStatus", "state"]) ?? "Unknown";
       const createdAt = toDateString(receiptObject.createdAt ?? receiptObject.created_at);
       const date = toDateString(
         createdAt ??
@@ -239,7 +313,17 @@ function normalizeReceipts(payload: unknown): Receipt[] {
           receiptObject.transactionDate
       );
 
-      return { id, merchant, amount, status, date, createdAt };
+      return {
+        id,
+        merchant,
+        amount,
+        status,
+        date,
+        createdAt,
+        parseStatus,
+        parseError: parseState?.error ?? "",
+        isManual: isManualReceipt(receiptObject),
+      };
     })
     .filter((receipt): receipt is (Receipt & { createdAt: string | null }) => receipt !== null)
     .sort((left, right) => {
@@ -253,6 +337,9 @@ function normalizeReceipts(payload: unknown): Receipt[] {
       amount: receipt.amount,
       status: receipt.status,
       date: receipt.date,
+      parseStatus: receipt.parseStatus,
+      parseError: receipt.parseError,
+      isManual: receipt.isManual,
     }));
 }
 
@@ -355,18 +442,148 @@ const EMPTY_BILLING_USAGE: BillingUsage = {
   remainingToday: null,
 };
 
+function isUploadActive(item: UploadQueueItem) {
+  return item.state === "queued" || item.state === "uploading" || item.state === "parsing";
+}
+
+function formatUploadStateLabel(state: UploadState) {
+  switch (state) {
+    case "queued":
+      return "Queued";
+    case "uploading":
+      return "Uploading";
+    case "parsing":
+      return "Parsing";
+    case "success":
+      return "Done";
+    case "error":
+      return "Failed";
+    case "duplicate":
+      return "Duplicate?";
+    default:
+      return "";
+  }
+}
+
+function isAcceptedReceiptFile(file: File) {
+  return file.type.startsWith("image/") || isPdfFile(file);
+}
+
+function isEditableTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+function hasDraggedFiles(event: React.DragEvent) {
+  return Array.from(event.dataTransfer.types).includes("Files");
+}
+
+const SHARED_FILES_NOTICES: Record<string, string> = {
+  empty: "No receipt files were shared.",
+  unavailable: "Sharing was not ready yet. Open AI Receipts once, then share again.",
+};
+
+function formatOfflineReceiptStatus(record: OfflineReceiptRecord) {
+  switch (record.state) {
+    case "syncing":
+      return "Syncing...";
+    case "failed":
+      return record.lastError || "Sync failed.";
+    default:
+      return record.lastError || "Waiting for connection.";
+  }
+}
+
+function formatCapturedAt(value: string) {
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    return "";
+  }
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(parsed));
+}
+
+function describeDuplicate(duplicate: UploadDuplicate) {
+  if (duplicate.reason === "image") {
+    const uploadedAt = formatCapturedAt(duplicate.uploadedAt);
+    return uploadedAt
+      ? `This looks like a photo you uploaded on ${uploadedAt}.`
+      : "This looks like a photo you already uploaded.";
+  }
+  const { merchant, receiptDate, total } = duplicate.receipt;
+  return `Matches an existing receipt: ${merchant} · ${formatAmount(total)} · ${receiptDate}.`;
+}
+
+function getDuplicateReceiptId(duplicate: UploadDuplicate) {
+  return duplicate.reason === "image" ? duplicate.receiptId : duplicate.receipt.receiptId;
+}
+
+function summarizeUploadQueue(queue: UploadQueueItem[]) {
+  if (queue.length === 0) {
+    return "";
+  }
+  const succeeded = queue.filter((item) => item.state === "success").length;
+  const failed = queue.filter((item) => item.state === "error").length;
+  const duplicates = queue.filter((item) => item.state === "duplicate").length;
+  const pending = queue.length - succeeded - failed - duplicates;
+
+  if (pending > 0) {
+    return queue.length === 1
+      ? queue[0].message
+      : `Processing receipts: ${succeeded + failed} of ${queue.length} done.`;
+  }
+  if (duplicates > 0) {
+    return duplicates === 1
+      ? "Possible duplicate receipt. Keep or discard it below."
+      : `${duplicates} possible duplicate receipts. Keep or discard them below.`;
+  }
+  if (failed > 0) {
+    return queue.length === 1
+      ? queue[0].message
+      : `${succeeded} of ${queue.length} receipts uploaded. ${failed} failed.`;
+  }
+  return queue.length === 1
+    ? "Receipt uploaded and sent for parsing."
+    : `${queue.length} receipts uploaded and sent for parsing.`;
+}
+
 export default function DashboardClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const sharedParam = searchParams?.get("shared") ?? "";
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragDepthRef = useRef(0);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [ingestNotice, setIngestNotice] = useState("");
+  const batchFileInputRef = useRef<HTMLInputElement>(null);
   const [userInitials, setUserInitials] = useState("U");
   const [recentReceipts, setRecentReceipts] = useState<Receipt[]>([]);
   const [isLoadingRecentReceipts, setIsLoadingRecentReceipts] = useState(true);
   const [recentReceiptsError, setRecentReceiptsError] = useState("");
+  const [parseStatusUpdates, setParseStatusUpdates] = useState<Record<string, ParseStatusEvent>>(
+    {}
+  );
   const [stats, setStats] = useState<ReceiptStats>({
     totalSpentThisMonth: null,
     receiptsProcessedThisMonth: null,
   });
-  const [uploadState, setUploadState] = useState<UploadState>("idle");
-  const [uploadMessage, setUploadMessage] = useState("");
+  const [uploadQueue, setUploadQueue] = useState<UploadQueueItem[]>([]);
+  const [cropFile, setCropFile] = useState<File | null>(null);
+  const [pendingSyncReceipts, setPendingSyncReceipts] = useState<OfflineReceiptRecord[]>([]);
+  const uploadQueueRef = useRef<UploadQueueItem[]>([]);
+  const activeUploadWorkersRef = useRef(0);
+  const uploadQuotaRef = useRef<number | null>(null);
+  // Receipts of each date, loaded once per batch and extended with each parsed receipt, so
+  // receipts in the same batch are compared against each other without refetching.
+  const knownReceiptsRef = useRef(new Map<string, Promise<ReceiptFingerprint[]>>());
+  // Receipt ids whose parsed details have already been compared with the known receipts.
+  const checkedDuplicateIdsRef = useRef(new Set<string>());
   const [categoryStats, setCategoryStats] = useState<SpendingByCategoryStats>({
     currency: "USD",
     totalSpent: null,
@@ -375,6 +592,7 @@ export default function DashboardClient() {
     categories: [],
   });
   const [isLoadingCategoryStats, setIsLoadingCategoryStats] = useState(true);
+  const [userCategories, setUserCategories] = useState<UserCategory[]>([]);
   const [billingUsage, setBillingUsage] = useState<BillingUsage>(EMPTY_BILLING_USAGE);
 
   const fetchRecentReceipts = useCallback(async () => {
@@ -382,22 +600,12 @@ export default function DashboardClient() {
     setRecentReceiptsError("");
 
     try {
-      const response = await authFetch("/api/receipts/me", {
-        method: "GET",
-        cache: "no-store",
-      });
-      const payload = await response.json().catch(() => null);
-
-      if (!response.ok) {
-        const payloadMessage = toObject(payload)?.message;
-        const message =
-          typeof payloadMessage === "string" && payloadMessage.trim()
-            ? payloadMessage
-            : "Failed to load recent documents.";
-        throw new Error(message);
-      }
-
-      setRecentReceipts(normalizeReceipts(payload).slice(0, 5));
+      const page = await fetchReceiptPage(
+        { sort: "createdAt", direction: "desc" },
+        null,
+        RECENT_RECEIPTS_LIMIT
+      );
+      setRecentReceipts(normalizeReceipts(page.items).slice(0, RECENT_RECEIPTS_LIMIT));
     } catch (error) {
       setRecentReceipts([]);
       setRecentReceiptsError(
@@ -479,7 +687,7 @@ export default function DashboardClient() {
     const fetchCategoryStats = async () => {
       try {
         setIsLoadingCategoryStats(true);
-        const response = await authFetch("/api/receipts/me/stats/by-category", {
+        const response = await authFetch("/api/receipts/me/stats/by-category?allocate=items", {
           method: "GET",
           cache: "no-store",
         });
@@ -490,10 +698,6 @@ export default function DashboardClient() {
           throw new Error("Failed to load category stats.");
         }
 
-        if (!isMounted) {
-          return;
-        }
-
         const categoriesRaw = Array.isArray(payloadObject.categories) ? payloadObject.categories : [];
         const categories = categoriesRaw
           .map((item) => {
@@ -509,6 +713,18 @@ export default function DashboardClient() {
             return { category, amount };
           })
           .filter((item): item is CategoryStat => item !== null && item.amount > 0);
+        const monthStart =
+          typeof payloadObject.monthStart === "string" ? payloadObject.monthStart : "";
+        const monthEnd = typeof payloadObject.monthEnd === "string" ? payloadObject.monthEnd : "";
+        // Receipts split across categories arrive as one "Mixed" bucket; allocate them per item.
+        const allocatedCategories = await splitMixedCategory(categories, {
+          start: monthStart,
+          end: monthEnd,
+        }).catch(() => categories);
+
+        if (!isMounted) {
+          return;
+        }
 
         setCategoryStats({
           currency:
@@ -516,10 +732,9 @@ export default function DashboardClient() {
               ? payloadObject.currency.trim()
               : "USD",
           totalSpent: toNumber(payloadObject.totalSpent),
-          monthStart:
-            typeof payloadObject.monthStart === "string" ? payloadObject.monthStart : "",
-          monthEnd: typeof payloadObject.monthEnd === "string" ? payloadObject.monthEnd : "",
-          categories,
+          monthStart,
+          monthEnd,
+          categories: allocatedCategories,
         });
       } catch {
         if (!isMounted) {
@@ -547,6 +762,18 @@ export default function DashboardClient() {
     };
   }, []);
 
+  useEffect(() => {
+    let isMounted = true;
+    void loadUserCategories().then((categories) => {
+      if (isMounted) {
+        setUserCategories(categories);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
   useEffect(() => {
     let isMounted = true;
 
@@ -587,128 +814,560 @@ export default function DashboardClient() {
     void fetchBillingUsage();
   }, [fetchBillingUsage]);
 
+  const hasFinishedUploads =
+    uploadQueue.length > 0 &&
+    uploadQueue.every((item) => item.state === "success" && !item.awaitingParse);
+
   useEffect(() => {
-    if (uploadState !== "success") {
+    if (!hasFinishedUploads) {
       return;
     }
 
     const timer = window.setTimeout(() => {
-      setUploadState("idle");
-      setUploadMessage("");
+      uploadQueueRef.current = [];
+      setUploadQueue([]);
     }, 3000);
 
     return () => {
       window.clearTimeout(timer);
     };
-  }, [uploadState]);
+  }, [hasFinishedUploads]);
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = event.target.files;
-    const file = selectedFiles?.[0];
-    event.target.value = "";
+  const refreshPendingSyncReceipts = useCallback(async () => {
+    try {
+      setPendingSyncReceipts(await listOfflineReceipts(await fetchCurrentUserId()));
+    } catch {
+      setPendingSyncReceipts([]);
+    }
+  }, []);
 
-    if (selectedFiles && selectedFiles.length > 1) {
-      setUploadState("error");
-      setUploadMessage("Please select only one receipt image at a time.");
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
       return;
     }
 
-    if (!file) {
+    const handleWorkerMessage = (event: MessageEvent<OfflineReceiptMessage>) => {
+      if (event.data?.type === "offline-receipts-changed") {
+        void refreshPendingSyncReceipts();
+      }
+      if (event.data?.type === "offline-receipt-synced") {
+        void Promise.all([
+          refreshPendingSyncReceipts(),
+          fetchRecentReceipts(),
+          fetchBillingUsage(),
+        ]);
+      }
+    };
+    const handleOnline = () => {
+      void requestOfflineSync();
+    };
+
+    const initializeOfflineSync = async () => {
+      await registerReceiptServiceWorker();
+      // Also looks up the user id while online, for receipts saved once the connection drops.
+      const records = await listOfflineReceipts(await fetchCurrentUserId()).catch(() => []);
+      setPendingSyncReceipts(records);
+      if (navigator.onLine && records.some((record) => record.state === "pending")) {
+        void requestOfflineSync();
+      }
+    };
+
+    navigator.serviceWorker.addEventListener("message", handleWorkerMessage);
+    window.addEventListener("online", handleOnline);
+    void initializeOfflineSync();
+
+    return () => {
+      navigator.serviceWorker.removeEventListener("message", handleWorkerMessage);
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [fetchBillingUsage, fetchRecentReceipts, refreshPendingSyncReceipts]);
+
+  const updateUploadQueue = useCallback(
+    (updater: (current: UploadQueueItem[]) => UploadQueueItem[]) => {
+      uploadQueueRef.current = updater(uploadQueueRef.current);
+      setUploadQueue(uploadQueueRef.current);
+    },
+    []
+  );
+
+  const updateUploadItem = useCallback(
+    (id: string, changes: Partial<Omit<UploadQueueItem, "id" | "file">>) => {
+      updateUploadQueue((current) =>
+        current.map((item) => (item.id === id ? { ...item, ...changes } : item))
+      );
+    },
+    [updateUploadQueue]
+  );
+
+  const stopQueuedUploads = useCallback(() => {
+    uploadQuotaRef.current = 0;
+    updateUploadQueue((current) =>
+      current.map((item) =>
+        item.state === "queued" ? { ...item, state: "error", message: UPLOAD_QUOTA_MESSAGE } : item
+      )
+    );
+  }, [updateUploadQueue]);
+
+  const loadKnownReceipts = async (parsedReceipt: ReceiptFingerprint) => {
+    const { receiptDate } = parsedReceipt;
+    if (!receiptDate) {
+      return [];
+    }
+    const withoutParsed = (receipts: ReceiptFingerprint[]) =>
+      receipts.filter((receipt) => receipt.receiptId !== parsedReceipt.receiptId);
+    const knownReceipts =
+      knownReceiptsRef.current.get(receiptDate) ??
+      fetchReceiptFingerprints(receiptDate).catch(() => []);
+    knownReceiptsRef.current.set(
+      receiptDate,
+      knownReceipts.then((receipts) => [...withoutParsed(receipts), parsedReceipt])
+    );
+    return withoutParsed(await knownReceipts);
+  };
+
+  // Merchant, date and total only exist once parsing has finished, so this runs when the
+  // receipt is reported as parsed rather than right after the upload.
+  const checkParsedDuplicate = async (receiptId: string) => {
+    const item = uploadQueueRef.current.find(
+      (entry) => entry.receiptId === receiptId && entry.state === "success"
+    );
+    if (!item || item.skipDuplicateCheck || checkedDuplicateIdsRef.current.has(receiptId)) {
       return;
     }
+    checkedDuplicateIdsRef.current.add(receiptId);
+    const parsedReceipt = await fetchParsedReceiptFingerprint({ receiptId }).catch(() => null);
+    const knownReceipts = parsedReceipt ? await loadKnownReceipts(parsedReceipt) : [];
+    const similarReceipt = parsedReceipt ? findSimilarReceipt(parsedReceipt, knownReceipts) : null;
+    updateUploadItem(
+      item.id,
+      similarReceipt
+        ? {
+            state: "duplicate",
+            message: "Receipt parsed, but it may already exist.",
+            duplicate: { reason: "details", receipt: similarReceipt, stage: "after-parse" },
+            awaitingParse: false,
+          }
+        : { awaitingParse: false }
+    );
+  };
+
+  // Gives back a slot taken for an upload that did not use up the daily quota.
+  const releaseUploadQuotaSlot = () => {
+    if (uploadQuotaRef.current !== null) {
+      uploadQuotaRef.current += 1;
+    }
+  };
 
+  const runUploadWorker = async () => {
     try {
-      setUploadState("uploading");
-      setUploadMessage("Preparing direct upload...");
-
-      const presignResponse = await authFetch("/api/images/upload-url", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          fileName: file.name,
-          contentType: file.type || "image/jpeg",
-          sizeBytes: file.size,
-        }),
-      });
-      const presignPayload = await presignResponse.json().catch(() => null);
-      const uploadPayloadObject = toObject(presignPayload);
-      const imageId = uploadPayloadObject?.imageId;
-      const objectKey = uploadPayloadObject?.objectKey;
-      const uploadUrl = uploadPayloadObject?.uploadUrl;
-
-      if (
-        !presignResponse.ok ||
-        (typeof imageId !== "number" && typeof imageId !== "string") ||
-        typeof objectKey !== "string" ||
-        !objectKey.trim() ||
-        typeof uploadUrl !== "string" ||
-        !uploadUrl.trim()
-      ) {
-        const message =
-          typeof uploadPayloadObject?.message === "string"
-            ? String(uploadPayloadObject.message)
-            : "Failed to create upload URL.";
-        throw new Error(message);
+      while (true) {
+        const next = uploadQueueRef.current.find((item) => item.state === "queued");
+        if (!next) {
+          return;
+        }
+
+        if (uploadQuotaRef.current !== null && uploadQuotaRef.current <= 0) {
+          stopQueuedUploads();
+          return;
+        }
+        if (uploadQuotaRef.current !== null) {
+          uploadQuotaRef.current -= 1;
+        }
+
+        updateUploadItem(next.id, { state: "uploading", message: "Preparing direct upload..." });
+
+        const handleStageChange = (stage: "uploading" | "parsing", message: string) => {
+          updateUploadItem(next.id, { state: stage, message });
+        };
+        let preparedFile = next.file;
+        try {
+          preparedFile = await prepareReceiptFile(next.file, handleStageChange);
+          const imageHash = await computeImageHash(preparedFile);
+          const userId = imageHash ? await fetchCurrentUserId() : null;
+          const similarImage =
+            imageHash && userId && !next.skipDuplicateCheck
+              ? findSimilarImage(userId, imageHash)
+              : null;
+          if (similarImage) {
+            releaseUploadQuotaSlot();
+            updateUploadItem(next.id, {
+              state: "duplicate",
+              message: "Possible duplicate. Nothing was uploaded.",
+              duplicate: {
+                reason: "image",
+                receiptId: similarImage.receiptId,
+                uploadedAt: similarImage.uploadedAt,
+                stage: "before-upload",
+              },
+            });
+            continue;
+          }
+
+          const result = await uploadPreparedReceiptFile(preparedFile, handleStageChange);
+          const receiptId = toReceiptFingerprint(result.parsePayload)?.receiptId ?? null;
+          if (imageHash && userId) {
+            rememberImageHash(userId, {
+              hash: imageHash,
+              receiptId,
+              fileName: next.file.name,
+              uploadedAt: new Date().toISOString(),
+            });
+          }
+
+          updateUploadItem(next.id, {
+            state: "success",
+            message: "Receipt uploaded and sent for parsing.",
+            receiptId,
+            awaitingParse: Boolean(receiptId) && !next.skipDuplicateCheck,
+          });
+          // Backends that parse synchronously report no status; the receipt is parsed already.
+          const parseState = readParseStatus(result.parsePayload);
+          if (receiptId && (!parseState || parseState.status === "parsed")) {
+            await checkParsedDuplicate(receiptId);
+          }
+        } catch (error) {
+          const ownerId = isOfflineUploadError(error) ? await fetchCurrentUserId() : null;
+          if (isOfflineUploadError(error) && ownerId && isOfflineStorageAvailable()) {
+            try {
+              await saveOfflineReceipt(ownerId, preparedFile, error.uploadedImage);
+              // Nothing was parsed, so the slot is still available for the rest of the batch.
+              releaseUploadQuotaSlot();
+              updateUploadQueue((current) => current.filter((item) => item.id !== next.id));
+              await refreshPendingSyncReceipts();
+              void requestOfflineSync();
+              continue;
+            } catch {
+              // Storage is full or blocked; report the original failure below.
+            }
+          }
+          updateUploadItem(next.id, {
+            state: "error",
+            message: error instanceof Error ? error.message : "Receipt upload failed.",
+          });
+          // Only the server's quota rejection means the slot is really gone.
+          if (isUploadQuotaError(error)) {
+            stopQueuedUploads();
+          } else {
+            releaseUploadQuotaSlot();
+          }
+        }
+      }
+    } finally {
+      activeUploadWorkersRef.current -= 1;
+      if (activeUploadWorkersRef.current === 0) {
+        await Promise.all([fetchRecentReceipts(), fetchBillingUsage()]);
       }
+    }
+  };
+
+  const startUploadWorkers = () => {
+    if (activeUploadWorkersRef.current === 0) {
+      uploadQuotaRef.current = billingUsage.remainingToday;
+      knownReceiptsRef.current = new Map();
+    }
 
-      setUploadMessage("Uploading receipt image...");
+    const queuedCount = uploadQueueRef.current.filter((item) => item.state === "queued").length;
+    const workersToStart = Math.min(
+      queuedCount,
+      MAX_CONCURRENT_UPLOADS - activeUploadWorkersRef.current
+    );
 
-      const directUploadResponse = await fetch(uploadUrl, {
-        method: "PUT",
-        headers: {
-          "Content-Type": file.type || "image/jpeg",
-        },
-        body: file,
-      });
+    for (let index = 0; index < workersToStart; index += 1) {
+      activeUploadWorkersRef.current += 1;
+      void runUploadWorker();
+    }
+  };
+
+  const enqueueUploadFiles = (files: File[]) => {
+    const batchId = Date.now();
+    const nextItems = files.map<UploadQueueItem>((file, index) => ({
+      id: `upload-${batchId}-${index}`,
+      file,
+      state: "queued",
+      message: "Waiting to upload...",
+      duplicate: null,
+      receiptId: null,
+      skipDuplicateCheck: false,
+      awaitingParse: false,
+    }));
+
+    updateUploadQueue((current) => [
+      ...current.filter((item) => item.state !== "success" || item.awaitingParse),
+      ...nextItems,
+    ]);
+    startUploadWorkers();
+  };
 
-      if (!directUploadResponse.ok) {
-        throw new Error("Failed to upload image to storage.");
+  const ingestReceiptFiles = (files: File[]) => {
+    const acceptedFiles = files.filter(isAcceptedReceiptFile);
+    const skippedCount = files.length - acceptedFiles.length;
+    setIngestNotice(
+      skippedCount > 0
+        ? `Skipped ${skippedCount} file(s). Only images and PDFs can be uploaded.`
+        : ""
+    );
+
+    if (acceptedFiles.length === 0) {
+      return;
+    }
+
+    // A single photo gets the crop step; batches go straight to the queue.
+    const [firstFile] = acceptedFiles;
+    if (acceptedFiles.length === 1 && !isPdfFile(firstFile) && !cropFile) {
+      setCropFile(firstFile);
+      return;
+    }
+
+    enqueueUploadFiles(acceptedFiles);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    ingestReceiptFiles(selectedFiles);
+  };
+
+  const handleDragEnter = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(event)) {
+      return;
+    }
+    event.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(event)) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(event)) {
+      return;
+    }
+    // dragleave also fires when moving between children; only hide once we leave the page.
+    dragDepthRef.current = Math.max(dragDepthRef.current - 1, 0);
+    if (dragDepthRef.current === 0) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(event)) {
+      return;
+    }
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    ingestReceiptFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handlePaste = useEffectEvent((event: ClipboardEvent) => {
+    if (isEditableTarget(event.target)) {
+      return;
+    }
+    const pastedAt = Date.now();
+    const files = Array.from(event.clipboardData?.items ?? [])
+      .filter((item) => item.kind === "file")
+      .map((item) => item.getAsFile())
+      .filter((file): file is File => file !== null)
+      .map((file, index) =>
+        // Screenshots arrive as "image.png"; give them a name worth showing in the queue.
+        file.name && file.name !== "image.png"
+          ? file
+          : new File([file], `pasted-receipt-${pastedAt}-${index + 1}.png`, {
+              type: file.type || "image/png",
+            })
+      );
+
+    if (files.length === 0) {
+      return;
+    }
+    event.preventDefault();
+    ingestReceiptFiles(files);
+  });
+
+  useEffect(() => {
+    const handleWindowPaste = (event: ClipboardEvent) => handlePaste(event);
+    window.addEventListener("paste", handleWindowPaste);
+    return () => {
+      window.removeEventListener("paste", handleWindowPaste);
+    };
+  }, []);
+
+  const ingestSharedFiles = useEffectEvent(async (shared: string) => {
+    if (shared === "1") {
+      const files = await takeSharedReceiptFiles().catch(() => []);
+      if (files.length > 0) {
+        ingestReceiptFiles(files);
+      } else {
+        setIngestNotice(SHARED_FILES_NOTICES.empty);
       }
+    } else {
+      setIngestNotice(SHARED_FILES_NOTICES[shared] ?? "");
+    }
+    router.replace("/dashboard");
+  });
+
+  useEffect(() => {
+    if (!sharedParam) {
+      return;
+    }
+    void ingestSharedFiles(sharedParam);
+  }, [sharedParam]);
 
-      setUploadState("parsing");
-      setUploadMessage("Image uploaded. Parsing receipt...");
-
-      const parseResponse = await authFetch("/api/receipts/parse", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          imageId: typeof imageId === "number" ? imageId : imageId.trim(),
-          objectKey: objectKey.trim(),
-        }),
+  const handleCropConfirm = (file: File) => {
+    setCropFile(null);
+    enqueueUploadFiles([file]);
+  };
+
+  const handleCropSkip = () => {
+    if (cropFile) {
+      enqueueUploadFiles([cropFile]);
+    }
+    setCropFile(null);
+  };
+
+  const handleUploadRetry = (id: string) => {
+    updateUploadItem(id, { state: "queued", message: "Waiting to upload..." });
+    startUploadWorkers();
+  };
+
+  const handleDuplicateKeep = (item: UploadQueueItem) => {
+    if (item.duplicate?.stage === "after-parse") {
+      updateUploadItem(item.id, {
+        state: "success",
+        message: "Kept as a separate receipt.",
+        duplicate: null,
       });
-      const parsePayload = await parseResponse.json().catch(() => null);
+      return;
+    }
+    updateUploadItem(item.id, {
+      state: "queued",
+      message: "Waiting to upload...",
+      duplicate: null,
+      skipDuplicateCheck: true,
+    });
+    startUploadWorkers();
+  };
+
+  const handleDuplicateDiscard = async (item: UploadQueueItem) => {
+    if (item.duplicate?.stage !== "after-parse" || !item.receiptId) {
+      updateUploadQueue((current) => current.filter((entry) => entry.id !== item.id));
+      return;
+    }
 
-      if (!parseResponse.ok) {
-        const parseMessage = toObject(parsePayload)?.message;
+    const receiptId = item.receiptId;
+    try {
+      updateUploadItem(item.id, { message: "Discarding duplicate..." });
+      const response = await authFetch(`/api/receipts/${receiptId}`, {
+        method: "DELETE",
+        cache: "no-store",
+      });
+      const payload = await response.json().catch(() => null);
+      const payloadObject = toObject(payload);
+
+      if (!response.ok) {
         const message =
-          typeof parseMessage === "string" && parseMessage.trim()
-            ? parseMessage
-            : "Failed to parse receipt.";
+          typeof payloadObject?.message === "string"
+            ? payloadObject.message
+            : typeof payloadObject?.error === "string"
+              ? payloadObject.error
+              : "Failed to discard receipt.";
         throw new Error(message);
       }
 
-      setUploadState("success");
-      setUploadMessage("Receipt uploaded and sent for parsing.");
-      await Promise.all([fetchRecentReceipts(), fetchBillingUsage()]);
+      const userId = await fetchCurrentUserId();
+      if (userId) {
+        forgetReceiptImageHash(userId, receiptId);
+      }
+      updateUploadQueue((current) => current.filter((entry) => entry.id !== item.id));
+      await fetchRecentReceipts();
     } catch (error) {
-      setUploadState("error");
-      setUploadMessage(
-        error instanceof Error ? error.message : "Receipt upload failed."
-      );
+      updateUploadItem(item.id, {
+        message: error instanceof Error ? error.message : "Failed to discard receipt.",
+      });
     }
   };
 
+  const handlePendingSyncRetry = async (id: string) => {
+    await resetOfflineReceipt(id);
+    await refreshPendingSyncReceipts();
+    void requestOfflineSync();
+  };
+
+  const handlePendingSyncRemove = async (id: string) => {
+    await deleteOfflineReceipt(id);
+    await refreshPendingSyncReceipts();
+  };
+
+  const handleUploadQueueClear = () => {
+    updateUploadQueue((current) => current.filter(isUploadActive));
+  };
+
+  const watchedParseIds = [
+    ...recentReceipts
+      .filter((receipt) => receipt.parseStatus && !isParseStatusSettled(receipt.parseStatus))
+      .map((receipt) => receipt.id),
+    ...uploadQueue
+      .filter((item) => item.state === "success" && item.receiptId)
+      .map((item) => item.receiptId as string),
+  ]
+    .filter((id, index, ids) => ids.indexOf(id) === index)
+    .filter((id) => {
+      const update = parseStatusUpdates[id];
+      return !update || !isParseStatusSettled(update.status);
+    })
+    .sort()
+    .join(",");
+
+  const handleParseStatusEvent = useEffectEvent((event: ParseStatusEvent) => {
+    setParseStatusUpdates((current) => ({ ...current, [event.receiptId]: event }));
+    if (event.status === "parsed") {
+      // Merchant, amount and date only exist once parsing has finished.
+      void fetchRecentReceipts();
+      void checkParsedDuplicate(event.receiptId);
+    }
+    if (event.status === "failed") {
+      updateUploadQueue((current) =>
+        current.map((item) =>
+          item.receiptId === event.receiptId ? { ...item, awaitingParse: false } : item
+        )
+      );
+    }
+  });
+
+  useEffect(() => {
+    if (!watchedParseIds) {
+      return;
+    }
+    return subscribeToParseStatus(watchedParseIds.split(","), handleParseStatusEvent);
+  }, [watchedParseIds]);
+
+  const uploadSummary = summarizeUploadQueue(uploadQueue);
+  const hasActiveUploads = uploadQueue.some(isUploadActive);
+
   const recentRows: Receipt[] =
     isLoadingRecentReceipts
       ? [{ id: "loading", merchant: "Loading...", amount: null, date: null, status: "Loading" }]
       : recentReceiptsError
         ? [{ id: "error", merchant: recentReceiptsError, amount: null, date: null, status: "Error" }]
         : recentReceipts.length > 0
-          ? recentReceipts
+          ? recentReceipts.map((receipt) => {
+              const update = parseStatusUpdates[receipt.id];
+              if (!update || update.status === "parsed") {
+                return receipt;
+              }
+              return {
+                ...receipt,
+                status: formatParseStatus(update.status),
+                parseStatus: update.status,
+                parseError: update.error,
+              };
+            })
           : [{ id: "empty", merchant: "No recent documents", amount: null, date: null, status: "Empty" }];
 
   const isNavigableReceipt = (receipt: Receipt) =>
@@ -728,12 +1387,12 @@ export default function DashboardClient() {
     const segments = categoryStats.categories.map((item, index) => {
       const start = current;
       current += (item.amount / total) * 100;
-      const color = CATEGORY_COLOR_PALETTE[index % CATEGORY_COLOR_PALETTE.length];
+      const color = getCategoryColor(userCategories, item.category, index);
       return `${color} ${start}% ${Math.min(current, 100)}%`;
     });
 
     return { background: `conic-gradient(${segments.join(", ")})` };
-  }, [categoryStats]);
+  }, [categoryStats, userCategories]);
 
   const categoryPeriodText = useMemo(() => {
     const start = formatMonthDate(categoryStats.monthStart);
@@ -755,7 +1414,18 @@ export default function DashboardClient() {
     : "Upgrade for 10/day";
 
   return (
-    <div className={styles.page}>
+    <div
+      className={styles.page}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDraggingFiles && (
+        <div className={styles.dropOverlay} aria-hidden="true">
+          <div className={styles.dropOverlayCard}>Drop receipts to upload</div>
+        </div>
+      )}
       <div className={styles.phone}>
         <header className={styles.header}>
           <div className={styles.brand}>
@@ -766,7 +1436,7 @@ export default function DashboardClient() {
             <button
               className={styles.logoutIcon}
               type="button"
-              onClick={logoutAndRedirect}
+              onClick={() => void signOut()}
               aria-label="Log out"
               title="Log out"
             >
@@ -790,14 +1460,18 @@ export default function DashboardClient() {
               month&apos;s spending from one focused workspace.
             </p>
           </div>
-          <button
-            className={styles.heroUploadButton}
-            type="button"
-            onClick={() => fileInputRef.current?.click()}
-            disabled={uploadState === "uploading" || uploadState === "parsing"}
-          >
-            Upload Receipt
-          </button>
+          <div className={styles.heroActions}>
+            <button
+              className={styles.heroUploadButton}
+              type="button"
+              onClick={() => batchFileInputRef.current?.click()}
+            >
+              Upload Receipts
+            </button>
+            <Link className={styles.heroSecondaryButton} href="/receipts/new">
+              New Expense
+            </Link>
+          </div>
         </section>
 
         <section className={styles.cards}>
@@ -849,7 +1523,7 @@ export default function DashboardClient() {
               )}
               {!isLoadingCategoryStats &&
                 categoryStats.categories.map((item, index) => {
-                  const color = CATEGORY_COLOR_PALETTE[index % CATEGORY_COLOR_PALETTE.length];
+                  const color = getCategoryColor(userCategories, item.category, index);
                   return (
                     <span key={`${item.category}-${index}`}>
                       <i
@@ -877,11 +1551,134 @@ export default function DashboardClient() {
             <span>Recent Documents</span>
             {/* <Link href="#">View All</Link> */}
           </div>
-          {uploadState !== "idle" && (
+          {uploadQueue.length > 0 && (
             <div className={styles.uploadStatus} role="status" aria-live="polite">
-              {uploadMessage}
+              {uploadSummary}
             </div>
           )}
+          {ingestNotice && (
+            <div className={styles.uploadStatus} role="status" aria-live="polite">
+              {ingestNotice}
+            </div>
+          )}
+          {(uploadQueue.length > 1 || uploadQueue.some((item) => item.duplicate)) && (
+            <div className={styles.uploadQueue}>
+              {uploadQueue.map((item) => (
+                <div className={styles.uploadQueueItem} key={item.id}>
+                  <div className={styles.meta}>
+                    <h4>{item.file.name || "Receipt"}</h4>
+                    <p>{item.message}</p>
+                    {item.state === "duplicate" && item.duplicate && (
+                      <p className={styles.uploadDuplicate}>
+                        {describeDuplicate(item.duplicate)}{" "}
+                        {getDuplicateReceiptId(item.duplicate) && (
+                          <Link href={`/receipts/${getDuplicateReceiptId(item.duplicate)}`}>
+                            View existing receipt
+                          </Link>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                  {item.state === "duplicate" ? (
+                    <div className={styles.uploadDuplicateActions}>
+                      <button
+                        className={styles.uploadRetry}
+                        type="button"
+                        onClick={() => handleDuplicateKeep(item)}
+                      >
+                        Keep
+                      </button>
+                      <button
+                        className={styles.uploadQueueClear}
+                        type="button"
+                        onClick={() => void handleDuplicateDiscard(item)}
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  ) : item.state === "error" ? (
+                    <button
+                      className={styles.uploadRetry}
+                      type="button"
+                      onClick={() => handleUploadRetry(item.id)}
+                    >
+                      Retry
+                    </button>
+                  ) : (
+                    <span
+                      className={`${styles.statusTag} ${
+                        item.state === "success" ? styles.statusReviewed : ""
+                      }`}
+                    >
+                      {formatUploadStateLabel(item.state)}
+                    </span>
+                  )}
+                </div>
+              ))}
+              {!hasActiveUploads && (
+                <button
+                  className={styles.uploadQueueClear}
+                  type="button"
+                  onClick={handleUploadQueueClear}
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          )}
+          {pendingSyncReceipts.length > 0 && (
+            <div className={styles.pendingSync}>
+              <div className={styles.pendingSyncHeader}>
+                <span>Pending Sync ({pendingSyncReceipts.length})</span>
+                <button
+                  className={styles.uploadQueueClear}
+                  type="button"
+                  onClick={() => void requestOfflineSync()}
+                >
+                  Sync Now
+                </button>
+              </div>
+              {pendingSyncReceipts.map((record) => (
+                <div className={styles.uploadQueueItem} key={record.id}>
+                  <div className={styles.meta}>
+                    <h4>{record.fileName}</h4>
+                    <p>
+                      {formatCapturedAt(record.capturedAt)} · {formatOfflineReceiptStatus(record)}
+                    </p>
+                  </div>
+                  <div className={styles.pendingSyncActions}>
+                    {record.state === "failed" && (
+                      <button
+                        className={styles.uploadRetry}
+                        type="button"
+                        onClick={() => void handlePendingSyncRetry(record.id)}
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {record.state !== "syncing" && (
+                      <button
+                        className={styles.uploadQueueClear}
+                        type="button"
+                        onClick={() => void handlePendingSyncRemove(record.id)}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {uploadQueue.length === 1 && uploadQueue[0].state === "error" && (
+            <button
+              className={styles.uploadRetry}
+              type="button"
+              onClick={() => handleUploadRetry(uploadQueue[0].id)}
+            >
+              Retry
+            </button>
+          )}
           <div className={styles.list}>
             {recentRows.map((receipt) => {
               const content = (
@@ -891,11 +1688,19 @@ export default function DashboardClient() {
                     <h4>{receipt.merchant}</h4>
                     <p>
                       {formatAmount(receipt.amount)} · {formatDate(receipt.date)}
+                      {receipt.isManual ? " · Manual" : ""}
                     </p>
+                    {receipt.parseStatus === "failed" && receipt.parseError && (
+                      <p className={styles.parseError}>{receipt.parseError}</p>
+                    )}
                   </div>
                   <span
                     className={`${styles.statusTag} ${
                       receipt.status === "Reviewed" ? styles.statusReviewed : ""
+                    } ${receipt.parseStatus === "failed" ? styles.statusFailed : ""} ${
+                      receipt.parseStatus === "queued" || receipt.parseStatus === "parsing"
+                        ? styles.statusParsing
+                        : ""
                     }`}
                   >
                     {receipt.status}
@@ -921,6 +1726,15 @@ export default function DashboardClient() {
           </div>
         </section>
 
+        {cropFile && (
+          <ReceiptCropEditor
+            file={cropFile}
+            onConfirm={handleCropConfirm}
+            onSkip={handleCropSkip}
+            onCancel={() => setCropFile(null)}
+          />
+        )}
+
         <nav className={styles.bottomNav}>
           <div className={`${styles.navItem} ${styles.navItemActive}`}>
             <IconReceipt />
@@ -931,7 +1745,6 @@ export default function DashboardClient() {
               className={styles.fab}
               type="button"
               onClick={() => fileInputRef.current?.click()}
-              disabled={uploadState === "uploading" || uploadState === "parsing"}
               aria-label="Take photo and upload receipt"
               title="Take photo and upload receipt"
             >
@@ -946,6 +1759,14 @@ export default function DashboardClient() {
               className={styles.hiddenInput}
               onChange={handleFileSelect}
             />
+            <input
+              ref={batchFileInputRef}
+              type="file"
+              accept="image/*,application/pdf"
+              multiple
+              className={styles.hiddenInput}
+              onChange={handleFileSelect}
+            />
           </div>
           <Link className={styles.navItem} href="/transactions" prefetch>
             <IconLock />
@@ -0,0 +1,287 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_IMAGE_PREPROCESS_OPTIONS,
+  replaceFileExtension,
+} from "../../lib/image-preprocess";
+import {
+  defaultQuad,
+  detectReceiptQuad,
+  type Quad,
+  warpPerspective,
+} from "../../lib/receipt-perspective";
+import styles from "./page.module.css";
+
+type ReceiptCropEditorProps = {
+  file: File;
+  onConfirm: (file: File) => void;
+  onSkip: () => void;
+  onCancel: () => void;
+};
+
+type LoadedImage = {
+  element: HTMLImageElement;
+  url: string;
+  width: number;
+  height: number;
+};
+
+const CORNER_LABELS = ["top left", "top right", "bottom right", "bottom left"];
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
+
+export default function ReceiptCropEditor({
+  file,
+  onConfirm,
+  onSkip,
+  onCancel,
+}: ReceiptCropEditorProps) {
+  const overlayRef = useRef<SVGSVGElement>(null);
+  const [image, setImage] = useState<LoadedImage | null>(null);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [detectedQuad, setDetectedQuad] = useState<Quad | null>(null);
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "processing" | "error">("loading");
+
+  useEffect(() => {
+    let isMounted = true;
+    const url = URL.createObjectURL(file);
+    const element = new window.Image();
+    element.src = url;
+
+    const load = async () => {
+      try {
+        await element.decode();
+        if (!isMounted) {
+          return;
+        }
+        const width = element.naturalWidth;
+        const height = element.naturalHeight;
+        const detected = detectReceiptQuad(element, width, height);
+        setImage({ element, url, width, height });
+        setDetectedQuad(detected);
+        setQuad(detected);
+        setStatus("ready");
+      } catch {
+        if (!isMounted) {
+          return;
+        }
+        setStatus("error");
+      }
+    };
+
+    void load();
+
+    return () => {
+      isMounted = false;
+      URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  const toImagePoint = (clientX: number, clientY: number) => {
+    const overlay = overlayRef.current;
+    if (!overlay || !image) {
+      return null;
+    }
+    const bounds = overlay.getBoundingClientRect();
+    return {
+      x: clamp(((clientX - bounds.left) / bounds.width) * image.width, 0, image.width),
+      y: clamp(((clientY - bounds.top) / bounds.height) * image.height, 0, image.height),
+    };
+  };
+
+  const moveCorner = (index: number, x: number, y: number) => {
+    setQuad((current) => {
+      if (!current) {
+        return current;
+      }
+      const next = [...current] as Quad;
+      next[index] = { x, y };
+      return next;
+    });
+  };
+
+  const handlePointerDown = (index: number, event: React.PointerEvent<SVGCircleElement>) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraggingIndex(index);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (draggingIndex === null) {
+      return;
+    }
+    const point = toImagePoint(event.clientX, event.clientY);
+    if (point) {
+      moveCorner(draggingIndex, point.x, point.y);
+    }
+  };
+
+  const handleCornerKeyDown = (index: number, event: React.KeyboardEvent<SVGCircleElement>) => {
+    if (!image || !quad) {
+      return;
+    }
+    const step = Math.max(image.width, image.height) * (event.shiftKey ? 0.02 : 0.005);
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    const offset = offsets[event.key];
+    if (!offset) {
+      return;
+    }
+    event.preventDefault();
+    moveCorner(
+      index,
+      clamp(quad[index].x + offset[0], 0, image.width),
+      clamp(quad[index].y + offset[1], 0, image.height)
+    );
+  };
+
+  const handleConfirm = () => {
+    if (!image || !quad || status === "processing") {
+      return;
+    }
+
+    setStatus("processing");
+    // Yield a frame so the "Flattening..." label paints before the synchronous warp.
+    window.requestAnimationFrame(() => {
+      const canvas = warpPerspective(
+        image.element,
+        image.width,
+        image.height,
+        quad,
+        DEFAULT_IMAGE_PREPROCESS_OPTIONS.maxEdge
+      );
+      if (!canvas) {
+        setStatus("error");
+        return;
+      }
+
+      // Lossless hand-off; the upload pipeline does the single lossy encode.
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          setStatus("error");
+          return;
+        }
+        onConfirm(
+          new File([blob], replaceFileExtension(file.name, "png"), {
+            type: "image/png",
+            lastModified: Date.now(),
+          })
+        );
+      }, "image/png");
+    });
+  };
+
+  const handleReset = () => {
+    if (!image) {
+      return;
+    }
+    setQuad(detectedQuad ?? defaultQuad(image.width, image.height));
+  };
+
+  const handleRadius = image ? Math.max(image.width, image.height) * 0.018 : 0;
+  const polygonPoints = quad?.map((point) => `${point.x},${point.y}`).join(" ") ?? "";
+
+  return (
+    <>
+      <div className={styles.cropBackdrop} aria-hidden="true" />
+      <dialog className={styles.cropDialog} open aria-label="Adjust receipt crop">
+        <div className={styles.cropHeader}>
+          <span>Adjust Receipt</span>
+          <button
+            className={styles.cropClose}
+            type="button"
+            onClick={onCancel}
+            aria-label="Cancel upload"
+          >
+            ×
+          </button>
+        </div>
+        <p className={styles.cropHint}>
+          Drag the corners onto the receipt edges. Only the flattened crop is uploaded.
+        </p>
+        <div className={styles.cropStage}>
+          {status === "loading" && <div className={styles.cropMessage}>Detecting receipt...</div>}
+          {status === "error" && !image && (
+            <div className={styles.cropMessage}>This image cannot be edited in the browser.</div>
+          )}
+          {image && quad && (
+            <div className={styles.cropCanvas}>
+              <Image
+                src={image.url}
+                alt="Captured receipt"
+                width={image.width}
+                height={image.height}
+                unoptimized
+                className={styles.cropImage}
+              />
+              <svg
+                ref={overlayRef}
+                className={styles.cropOverlay}
+                viewBox={`0 0 ${image.width} ${image.height}`}
+                preserveAspectRatio="none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDraggingIndex(null)}
+                onPointerCancel={() => setDraggingIndex(null)}
+              >
+                <polygon className={styles.cropPolygon} points={polygonPoints} />
+                {quad.map((point, index) => (
+                  <circle
+                    key={CORNER_LABELS[index]}
+                    className={styles.cropHandle}
+                    cx={point.x}
+                    cy={point.y}
+                    r={handleRadius}
+                    tabIndex={0}
+                    role="slider"
+                    aria-label={`Move ${CORNER_LABELS[index]} corner`}
+                    aria-valuetext={`${Math.round(point.x)}, ${Math.round(point.y)}`}
+                    onPointerDown={(event) => handlePointerDown(index, event)}
+                    onKeyDown={(event) => handleCornerKeyDown(index, event)}
+                  />
+                ))}
+              </svg>
+            </div>
+          )}
+        </div>
+        {status === "error" && image && (
+          <p className={styles.cropError}>Could not flatten this crop. Try moving the corners.</p>
+        )}
+        <div className={styles.cropActions}>
+          <button
+            className={styles.cropSecondary}
+            type="button"
+            onClick={handleReset}
+            disabled={!image || status === "processing"}
+          >
+            Reset
+          </button>
+          <button
+            className={styles.cropSecondary}
+            type="button"
+            onClick={onSkip}
+            disabled={status === "processing"}
+          >
+            Use Original
+          </button>
+          <button
+            className={styles.cropPrimary}
+            type="button"
+            onClick={handleConfirm}
+            disabled={!image || !quad || status === "processing" || status === "loading"}
+          >
+            {status === "processing" ? "Flattening..." : "Crop & Upload"}
+          </button>
+        </div>
+      </dialog>
+    </>
+  );
+}
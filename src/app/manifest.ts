@@ -0,0 +1,37 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    id: "/dashboard",
+    name: "AI Receipts",
+    short_name: "AI Receipts",
+    description: "Securely manage your receipts in seconds.",
+    start_url: "/dashboard",
+    scope: "/",
+    display: "standalone",
+    background_color: "#f5f5f7",
+    theme_color: "#f5f5f7",
+    icons: [
+      {
+        src: "/icon.svg",
+        type: "image/svg+xml",
+        sizes: "any",
+        purpose: "any",
+      },
+    ],
+    // Handled by public/sw.js, which stashes the files and hands them to the dashboard.
+    share_target: {
+      action: "/share-target",
+      method: "POST",
+      enctype: "multipart/form-data",
+      params: {
+        files: [
+          {
+            name: "receipts",
+            accept: ["image/*", "application/pdf", ".pdf"],
+          },
+        ],
+      },
+    },
+  };
+}
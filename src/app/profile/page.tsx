@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
-import { authFetch, logoutAndRedirect } from "../../lib/auth-client";
+import { authFetch, signOut } from "../../lib/auth-client";
 import styles from "./page.module.css";
 
 type UserProfile = {
@@ -305,6 +305,12 @@ export default function ProfilePage() {
                       <span className={styles.value}>{profile.currency || "--"}</span>
                     )}
                   </div>
+                  <div className={styles.listItem}>
+                    <span className={styles.label}>Categories</span>
+                    <Link className={styles.value} href="/settings/categories" prefetch>
+                      Manage
+                    </Link>
+                  </div>
                 </div>
 
                 <div className={styles.metaGrid}>
@@ -323,7 +329,7 @@ export default function ProfilePage() {
                     </button>
                   )}
 
-                  <button className={styles.logout} type="button" onClick={logoutAndRedirect}>
+                  <button className={styles.logout} type="button" onClick={() => void signOut()}>
                     Log Out
                   </button>
                 </div>
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { RenderTask } from "pdfjs-dist";
+import {
+  isPdfRenderCancelled,
+  loadPdfDocument,
+  renderPdfPage,
+} from "../../../lib/pdf-preview";
+
+type PdfPreviewProps = {
+  url: string;
+  pageNumber: number;
+  width: number;
+  className?: string;
+  onPageCountChange?: (pageCount: number) => void;
+  onRenderError?: () => void;
+};
+
+export default function PdfPreview({
+  url,
+  pageNumber,
+  width,
+  className,
+  onPageCountChange,
+  onRenderError,
+}: PdfPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    let renderTask: RenderTask | null = null;
+
+    const render = async () => {
+      try {
+        const pdf = await loadPdfDocument(url);
+        if (!isMounted || !canvasRef.current) {
+          return;
+        }
+
+        onPageCountChange?.(pdf.numPages);
+        renderTask = await renderPdfPage(pdf, pageNumber, canvasRef.current, width);
+        if (!isMounted) {
+          renderTask.cancel();
+          return;
+        }
+        await renderTask.promise;
+      } catch (error) {
+        if (!isMounted || isPdfRenderCancelled(error)) {
+          return;
+        }
+        onRenderError?.();
+      }
+    };
+
+    void render();
+
+    return () => {
+      isMounted = false;
+      renderTask?.cancel();
+    };
+  }, [url, pageNumber, width, onPageCountChange, onRenderError]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      role="img"
+      aria-label={`Receipt PDF page ${pageNumber}`}
+    />
+  );
+}
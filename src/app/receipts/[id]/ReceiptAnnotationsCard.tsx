@@ -0,0 +1,325 @@
+"use client";
+
+import { type ChangeEvent, type FormEvent, type KeyboardEvent, useEffect, useState } from "react";
+import {
+  addTag,
+  createCustomFieldDefinition,
+  CUSTOM_FIELD_TYPES,
+  type CustomFieldDefinition,
+  type CustomFieldType,
+  fetchCustomFieldDefinitions,
+  fetchTagSuggestions,
+  formatCustomFieldValue,
+  type ReceiptAnnotations,
+} from "../../../lib/receipt-annotations";
+import styles from "./page.module.css";
+
+type ReceiptAnnotationsCardProps = {
+  value: ReceiptAnnotations;
+  isEditing: boolean;
+  onChange: (next: ReceiptAnnotations) => void;
+};
+
+const TAG_SUGGESTIONS_ID = "receipt-tag-suggestions";
+
+export default function ReceiptAnnotationsCard({
+  value,
+  isEditing,
+  onChange,
+}: ReceiptAnnotationsCardProps) {
+  const [definitions, setDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [isAddingField, setIsAddingField] = useState(false);
+  const [fieldName, setFieldName] = useState("");
+  const [fieldType, setFieldType] = useState<CustomFieldType>("text");
+  const [fieldOptions, setFieldOptions] = useState("");
+  const [fieldStatus, setFieldStatus] = useState<"idle" | "saving" | "error">("idle");
+  const [fieldMessage, setFieldMessage] = useState("");
+
+  useEffect(() => {
+    let isMounted = true;
+    void fetchCustomFieldDefinitions()
+      .catch(() => [])
+      .then((nextDefinitions) => {
+        if (isMounted) {
+          setDefinitions(nextDefinitions);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isEditing) {
+      return;
+    }
+    let isMounted = true;
+    void fetchTagSuggestions()
+      .catch(() => [])
+      .then((suggestions) => {
+        if (isMounted) {
+          setTagSuggestions(suggestions);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [isEditing]);
+
+  const availableSuggestions = tagSuggestions.filter(
+    (suggestion) =>
+      !value.tags.some((tag) => tag.toLowerCase() === suggestion.toLowerCase()) &&
+      suggestion.toLowerCase().includes(tagInput.trim().toLowerCase())
+  );
+  const filledDefinitions = definitions.filter((field) => value.customFields[field.id]);
+
+  const commitTagInput = () => {
+    const nextTags = addTag(value.tags, tagInput);
+    if (nextTags !== value.tags) {
+      onChange({ ...value, tags: nextTags });
+    }
+    setTagInput("");
+  };
+
+  const handleTagKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      commitTagInput();
+    } else if (event.key === "Backspace" && !tagInput && value.tags.length > 0) {
+      onChange({ ...value, tags: value.tags.slice(0, -1) });
+    }
+  };
+
+  const handleTagInputChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const nextInput = event.target.value;
+    // Picking a datalist suggestion is not typed input (Chrome reports a replacement,
+    // Firefox a plain Event); take it as a tag right away.
+    const isPicked =
+      !(event.nativeEvent instanceof InputEvent) ||
+      event.nativeEvent.inputType === "insertReplacementText";
+    if (isPicked && tagSuggestions.includes(nextInput)) {
+      onChange({ ...value, tags: addTag(value.tags, nextInput) });
+      setTagInput("");
+      return;
+    }
+    setTagInput(nextInput);
+  };
+
+  const handleCustomFieldChange = (fieldId: string, fieldValue: string) => {
+    onChange({ ...value, customFields: { ...value.customFields, [fieldId]: fieldValue } });
+  };
+
+  const handleAddField = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = fieldName.trim();
+    const options = fieldOptions
+      .split(",")
+      .map((option) => option.trim())
+      .filter(Boolean);
+    if (!name) {
+      setFieldStatus("error");
+      setFieldMessage("Field name is required.");
+      return;
+    }
+    if (definitions.some((field) => field.name.toLowerCase() === name.toLowerCase())) {
+      setFieldStatus("error");
+      setFieldMessage(`A field named "${name}" already exists.`);
+      return;
+    }
+    if (fieldType === "select" && options.length === 0) {
+      setFieldStatus("error");
+      setFieldMessage("Add at least one option, separated by commas.");
+      return;
+    }
+    try {
+      setFieldStatus("saving");
+      setFieldMessage("");
+      const definition = await createCustomFieldDefinition({
+        name,
+        type: fieldType,
+        options: fieldType === "select" ? options : [],
+      });
+      setDefinitions((current) => [...current, definition]);
+      setFieldName("");
+      setFieldType("text");
+      setFieldOptions("");
+      setIsAddingField(false);
+      setFieldStatus("idle");
+    } catch (error) {
+      setFieldStatus("error");
+      setFieldMessage(error instanceof Error ? error.message : "Failed to create custom field.");
+    }
+  };
+
+  const renderCustomFieldInput = (field: CustomFieldDefinition) => {
+    const fieldValue = value.customFields[field.id] ?? "";
+    if (field.type === "select") {
+      return (
+        <select
+          className={styles.detailInput}
+          value={fieldValue}
+          onChange={(event) => handleCustomFieldChange(field.id, event.target.value)}
+        >
+          <option value="">--</option>
+          {/* Keep a value whose option was since removed from the field. */}
+          {[...field.options, ...(field.options.includes(fieldValue) ? [] : [fieldValue])]
+            .filter(Boolean)
+            .map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        className={styles.detailInput}
+        type={field.type}
+        inputMode={field.type === "number" ? "decimal" : undefined}
+        value={fieldValue}
+        onChange={(event) => handleCustomFieldChange(field.id, event.target.value)}
+      />
+    );
+  };
+
+  if (!isEditing) {
+    return (
+      <section className={`${styles.card} ${styles.annotationsCard}`}>
+        <h3>Notes &amp; Tags</h3>
+        {value.tags.length > 0 && (
+          <div className={styles.tagList}>
+            {value.tags.map((tag) => (
+              <span className={styles.tagChip} key={tag}>
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
+        {value.notes.trim() && <p className={styles.notesText}>{value.notes}</p>}
+        {filledDefinitions.map((field) => (
+          <div className={styles.detailRow} key={field.id}>
+            <span>{field.name}</span>
+            <span>{formatCustomFieldValue(field, value.customFields[field.id])}</span>
+          </div>
+        ))}
+        {value.tags.length === 0 && !value.notes.trim() && filledDefinitions.length === 0 && (
+          <p className={styles.checkHint}>Edit the receipt to add tags, a note or custom fields.</p>
+        )}
+      </section>
+    );
+  }
+
+  return (
+    <section className={`${styles.card} ${styles.annotationsCard}`}>
+      <h3>Notes &amp; Tags</h3>
+      <div className={styles.tagEditor}>
+        {value.tags.map((tag) => (
+          <span className={styles.tagChip} key={tag}>
+            {tag}
+            <button
+              className={styles.tagRemove}
+              type="button"
+              onClick={() =>
+                onChange({ ...value, tags: value.tags.filter((entry) => entry !== tag) })
+              }
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          className={styles.tagInput}
+          type="text"
+          value={tagInput}
+          list={TAG_SUGGESTIONS_ID}
+          onChange={handleTagInputChange}
+          onKeyDown={handleTagKeyDown}
+          onBlur={commitTagInput}
+          placeholder={value.tags.length === 0 ? "Add tags, e.g. reimbursable" : "Add tag"}
+          aria-label="Add tag"
+        />
+        <datalist id={TAG_SUGGESTIONS_ID}>
+          {availableSuggestions.map((suggestion) => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+      </div>
+      <label className={styles.notesField}>
+        <span>Notes</span>
+        <textarea
+          className={styles.notesInput}
+          value={value.notes}
+          onChange={(event) => onChange({ ...value, notes: event.target.value })}
+          placeholder="Why this expense happened, e.g. client dinner with Acme"
+          rows={3}
+          maxLength={2000}
+        />
+      </label>
+      {definitions.map((field) => (
+        <div className={styles.detailRow} key={field.id}>
+          <span>{field.name}</span>
+          {renderCustomFieldInput(field)}
+        </div>
+      ))}
+      {isAddingField ? (
+        <form className={styles.customFieldForm} onSubmit={handleAddField}>
+          <input
+            className={styles.itemInput}
+            type="text"
+            value={fieldName}
+            onChange={(event) => setFieldName(event.target.value)}
+            placeholder="Field name, e.g. Project"
+            maxLength={40}
+            aria-label="Custom field name"
+          />
+          <select
+            className={styles.itemInput}
+            value={fieldType}
+            onChange={(event) => setFieldType(event.target.value as CustomFieldType)}
+            aria-label="Custom field type"
+          >
+            {CUSTOM_FIELD_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+          {fieldType === "select" && (
+            <input
+              className={styles.itemInput}
+              type="text"
+              value={fieldOptions}
+              onChange={(event) => setFieldOptions(event.target.value)}
+              placeholder="Options, separated by commas"
+              aria-label="Custom field options"
+            />
+          )}
+          <div className={styles.draftActions}>
+            <button className={styles.checkFix} type="submit" disabled={fieldStatus === "saving"}>
+              {fieldStatus === "saving" ? "Adding..." : "Add Field"}
+            </button>
+            <button
+              className={styles.historyButton}
+              type="button"
+              onClick={() => {
+                setIsAddingField(false);
+                setFieldMessage("");
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+          {fieldMessage && <p className={styles.checkHint}>{fieldMessage}</p>}
+        </form>
+      ) : (
+        <button className={styles.itemAdd} type="button" onClick={() => setIsAddingField(true)}>
+          Add Custom Field
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,35 @@
+import type { FieldChange } from "../../../lib/receipt-history";
+import styles from "./page.module.css";
+
+type ReceiptChangeTableProps = {
+  changes: FieldChange[];
+  beforeLabel: string;
+  afterLabel: string;
+};
+
+export default function ReceiptChangeTable({
+  changes,
+  beforeLabel,
+  afterLabel,
+}: ReceiptChangeTableProps) {
+  return (
+    <table className={styles.historyTable}>
+      <thead>
+        <tr>
+          <th scope="col">Field</th>
+          <th scope="col">{beforeLabel}</th>
+          <th scope="col">{afterLabel}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.key}>
+            <th scope="row">{change.label}</th>
+            <td className={styles.historyBefore}>{change.before}</td>
+            <td className={styles.historyAfter}>{change.after}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
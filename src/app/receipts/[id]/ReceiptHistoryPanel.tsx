@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { CustomFieldDefinition } from "../../../lib/receipt-annotations";
+import {
+  diffReceiptSnapshots,
+  fetchReceiptRevisions,
+  type ReceiptRevision,
+  type ReceiptSnapshot,
+  revertReceiptToRevision,
+} from "../../../lib/receipt-history";
+import ReceiptChangeTable from "./ReceiptChangeTable";
+import styles from "./page.module.css";
+
+type ReceiptHistoryPanelProps = {
+  receiptId: number;
+  current: ReceiptSnapshot;
+  customFields: CustomFieldDefinition[];
+  // Bumped by the page after each save so the new revision shows up.
+  refreshKey: number;
+  disabled: boolean;
+  onReverted: (payloadObject: Record<string, unknown>) => void;
+};
+
+const SOURCE_LABELS: Record<ReceiptRevision["source"], string> = {
+  parser: "Parsed",
+  user: "Edited",
+  revert: "Reverted",
+};
+
+function formatTimestamp(value: string) {
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    return value || "--";
+  }
+  return new Intl.DateTimeFormat("en", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(parsed);
+}
+
+export default function ReceiptHistoryPanel({
+  receiptId,
+  current,
+  customFields,
+  refreshKey,
+  disabled,
+  onReverted,
+}: ReceiptHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<ReceiptRevision[]>([]);
+  const [status, setStatus] = useState<"loading" | "error" | "success">("loading");
+  const [expandedId, setExpandedId] = useState("");
+  const [revertingId, setRevertingId] = useState("");
+  const [revertMessage, setRevertMessage] = useState("");
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchHistory = async () => {
+      try {
+        setStatus("loading");
+        const nextRevisions = await fetchReceiptRevisions(receiptId);
+        if (!isMounted) {
+          return;
+        }
+        setRevisions(nextRevisions);
+        setStatus("success");
+      } catch {
+        if (!isMounted) {
+          return;
+        }
+        setStatus("error");
+      }
+    };
+
+    void fetchHistory();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [receiptId, refreshKey]);
+
+  const original = revisions.find((revision) => revision.source === "parser") ?? revisions[0];
+  const originalChanges = useMemo(
+    () => (original ? diffReceiptSnapshots(original.snapshot, current, customFields) : []),
+    [current, customFields, original]
+  );
+  const latestId = revisions[revisions.length - 1]?.id ?? "";
+
+  const handleRevert = async (revision: ReceiptRevision) => {
+    const shouldRevert = window.confirm(
+      `Revert this receipt to revision ${revision.number}? ` +
+        "The current values are kept in the history."
+    );
+    if (!shouldRevert) {
+      return;
+    }
+    try {
+      setRevertingId(revision.id);
+      setRevertMessage("");
+      const payloadObject = await revertReceiptToRevision(receiptId, revision.id);
+      onReverted(payloadObject);
+      setRevertMessage(`Reverted to revision ${revision.number}.`);
+    } catch (error) {
+      setRevertMessage(error instanceof Error ? error.message : "Failed to revert receipt.");
+    } finally {
+      setRevertingId("");
+    }
+  };
+
+  return (
+    <section className={`${styles.card} ${styles.historyCard}`}>
+      <h3>History</h3>
+      {status === "loading" && <p className={styles.historyHint}>Loading history...</p>}
+      {status === "error" && (
+        <p className={styles.historyHint}>Failed to load the edit history.</p>
+      )}
+      {status === "success" && revisions.length === 0 && (
+        <p className={styles.historyHint}>No revisions have been recorded yet.</p>
+      )}
+      {status === "success" && original && (
+        <div className={styles.historyOriginal}>
+          <p className={styles.historyHint}>
+            {originalChanges.length === 0
+              ? "Current values match what the parser extracted."
+              : `${originalChanges.length} ${
+                  originalChanges.length === 1 ? "field differs" : "fields differ"
+                } from what the parser extracted.`}
+          </p>
+          {originalChanges.length > 0 && (
+            <ReceiptChangeTable
+              changes={originalChanges}
+              beforeLabel="Original"
+              afterLabel="Current"
+            />
+          )}
+        </div>
+      )}
+      {revisions.length > 0 && (
+        <ol className={styles.historyList}>
+          {[...revisions].reverse().map((revision) => {
+            const previous = revisions[revisions.indexOf(revision) - 1];
+            const changes = previous
+              ? diffReceiptSnapshots(previous.snapshot, revision.snapshot, customFields)
+              : [];
+            const isExpanded = expandedId === revision.id;
+            return (
+              <li className={styles.historyEntry} key={revision.id}>
+                <div className={styles.historyEntryHeader}>
+                  <div>
+                    <strong>
+                      {SOURCE_LABELS[revision.source]} · Revision {revision.number}
+                    </strong>
+                    <span>
+                      {revision.source === "parser"
+                        ? "Receipt parser"
+                        : revision.author || "Unknown user"}{" "}
+                      · {formatTimestamp(revision.createdAt)}
+                    </span>
+                  </div>
+                  <div className={styles.historyActions}>
+                    {previous && (
+                      <button
+                        className={styles.historyButton}
+                        type="button"
+                        onClick={() => setExpandedId(isExpanded ? "" : revision.id)}
+                        aria-expanded={isExpanded}
+                      >
+                        {changes.length} {changes.length === 1 ? "change" : "changes"}
+                      </button>
+                    )}
+                    {revision.id !== latestId && (
+                      <button
+                        className={styles.historyButton}
+                        type="button"
+                        onClick={() => void handleRevert(revision)}
+                        disabled={disabled || Boolean(revertingId)}
+                      >
+                        {revertingId === revision.id ? "Reverting..." : "Revert"}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {isExpanded && changes.length > 0 && (
+                  <ReceiptChangeTable changes={changes} beforeLabel="Before" afterLabel="After" />
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {revertMessage && <p className={styles.historyHint}>{revertMessage}</p>}
+    </section>
+  );
+}
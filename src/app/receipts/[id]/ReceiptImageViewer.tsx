@@ -0,0 +1,334 @@
+"use client";
+
+import Image from "next/image";
+import {
+  type KeyboardEvent,
+  type PointerEvent,
+  useEffect,
+  useEffectEvent,
+  useRef,
+  useState,
+} from "react";
+import { type ReceiptRegion, toRatioBox } from "../../../lib/receipt-regions";
+import PdfPreview from "./PdfPreview";
+import styles from "./page.module.css";
+
+type ReceiptImageViewerProps = {
+  url: string;
+  isPdf: boolean;
+  pageNumber: number;
+  regions: ReceiptRegion[];
+  activeField: string;
+  fieldLabels: Record<string, string>;
+  onRegionSelect: (field: string) => void;
+  onPageCountChange?: (pageCount: number) => void;
+  onRenderError?: () => void;
+};
+
+type Offset = { x: number; y: number };
+
+type PanState = {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  origin: Offset;
+  moved: boolean;
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+const FOCUS_ZOOM = 2;
+const ZOOM_STEP = 1.25;
+// Pointer travel below this is a click on a region, above it a pan.
+const PAN_THRESHOLD_PX = 4;
+const PDF_RENDER_WIDTH = 480;
+
+function clampZoom(value: number) {
+  return Math.min(Math.max(value, MIN_ZOOM), MAX_ZOOM);
+}
+
+// Rotates a vector by a multiple of 90 degrees, matching the CSS rotate() direction.
+function rotateOffset(x: number, y: number, rotation: number) {
+  switch (((rotation % 360) + 360) % 360) {
+    case 90:
+      return { x: -y, y: x };
+    case 180:
+      return { x: -x, y: -y };
+    case 270:
+      return { x: y, y: -x };
+    default:
+      return { x, y };
+  }
+}
+
+export default function ReceiptImageViewer({
+  url,
+  isPdf,
+  pageNumber,
+  regions,
+  activeField,
+  fieldLabels,
+  onRegionSelect,
+  onPageCountChange,
+  onRenderError,
+}: ReceiptImageViewerProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const panRef = useRef<PanState | null>(null);
+  const suppressClickRef = useRef(false);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [rotation, setRotation] = useState(0);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [naturalSize, setNaturalSize] = useState({ width: 0, height: 0 });
+  const [isPanning, setIsPanning] = useState(false);
+
+  const pageRegions = regions
+    .filter((region) => region.page === pageNumber)
+    .map((region) => ({
+      ...region,
+      ratioBox: toRatioBox(region.box, naturalSize.width, naturalSize.height),
+    }))
+    .filter((region) => region.ratioBox !== null);
+
+  const focusRegion = useEffectEvent((field: string) => {
+    const region = pageRegions.find((entry) => entry.field === field);
+    const content = contentRef.current;
+    if (!region?.ratioBox || !content) {
+      return;
+    }
+    const nextZoom = Math.max(zoom, FOCUS_ZOOM);
+    const width = content.offsetWidth;
+    const height = content.offsetHeight;
+    const centerX = (region.ratioBox.x + region.ratioBox.width / 2 - 0.5) * width * nextZoom;
+    const centerY = (region.ratioBox.y + region.ratioBox.height / 2 - 0.5) * height * nextZoom;
+    const rotated = rotateOffset(centerX, centerY, rotation);
+    setZoom(nextZoom);
+    setOffset({ x: -rotated.x, y: -rotated.y });
+  });
+
+  useEffect(() => {
+    if (activeField) {
+      focusRegion(activeField);
+    }
+  }, [activeField, pageNumber, naturalSize]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) {
+      return;
+    }
+    // React registers wheel listeners as passive, which cannot stop the page scrolling.
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      setZoom((current) => clampZoom(event.deltaY < 0 ? current * 1.1 : current / 1.1));
+    };
+    viewport.addEventListener("wheel", handleWheel, { passive: false });
+    return () => {
+      viewport.removeEventListener("wheel", handleWheel);
+    };
+  }, []);
+
+  const handleReset = () => {
+    setZoom(MIN_ZOOM);
+    setRotation(0);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) {
+      return;
+    }
+    panRef.current = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      origin: offset,
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (!pan || pan.pointerId !== event.pointerId) {
+      return;
+    }
+    const deltaX = event.clientX - pan.startX;
+    const deltaY = event.clientY - pan.startY;
+    if (!pan.moved && Math.hypot(deltaX, deltaY) < PAN_THRESHOLD_PX) {
+      return;
+    }
+    if (!pan.moved) {
+      // Capture only once dragging, so a plain click still reaches the region under it.
+      pan.moved = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setIsPanning(true);
+    }
+    setOffset({ x: pan.origin.x + deltaX, y: pan.origin.y + deltaY });
+  };
+
+  const handlePointerEnd = (event: PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (!pan || pan.pointerId !== event.pointerId) {
+      return;
+    }
+    suppressClickRef.current = pan.moved;
+    panRef.current = null;
+    setIsPanning(false);
+  };
+
+  const handleRegionClick = (field: string) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    onRegionSelect(field);
+  };
+
+  const handleRegionKeyDown = (field: string, event: KeyboardEvent<SVGRectElement>) => {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      onRegionSelect(field);
+    }
+  };
+
+  const handleViewportKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+    const panStep = 40;
+    const moves: Record<string, Offset> = {
+      ArrowLeft: { x: panStep, y: 0 },
+      ArrowRight: { x: -panStep, y: 0 },
+      ArrowUp: { x: 0, y: panStep },
+      ArrowDown: { x: 0, y: -panStep },
+    };
+    if (event.key === "+" || event.key === "=") {
+      setZoom((current) => clampZoom(current * ZOOM_STEP));
+    } else if (event.key === "-") {
+      setZoom((current) => clampZoom(current / ZOOM_STEP));
+    } else if (event.key === "r") {
+      setRotation((current) => (current + 90) % 360);
+    } else if (event.key === "0") {
+      handleReset();
+    } else if (moves[event.key]) {
+      const move = moves[event.key];
+      setOffset((current) => ({ x: current.x + move.x, y: current.y + move.y }));
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div className={styles.viewer}>
+      <div className={styles.viewerToolbar}>
+        <button
+          className={styles.viewerButton}
+          type="button"
+          onClick={() => setZoom((current) => clampZoom(current / ZOOM_STEP))}
+          disabled={zoom <= MIN_ZOOM}
+          aria-label="Zoom out"
+        >
+          −
+        </button>
+        <span className={styles.viewerZoom}>{Math.round(zoom * 100)}%</span>
+        <button
+          className={styles.viewerButton}
+          type="button"
+          onClick={() => setZoom((current) => clampZoom(current * ZOOM_STEP))}
+          disabled={zoom >= MAX_ZOOM}
+          aria-label="Zoom in"
+        >
+          +
+        </button>
+        <button
+          className={styles.viewerButton}
+          type="button"
+          onClick={() => setRotation((current) => (current + 90) % 360)}
+          aria-label="Rotate 90 degrees"
+        >
+          ↻
+        </button>
+        <button className={styles.viewerReset} type="button" onClick={handleReset}>
+          Reset
+        </button>
+      </div>
+      <div
+        ref={viewportRef}
+        className={styles.viewerViewport}
+        tabIndex={0}
+        role="application"
+        aria-label="Receipt image. Arrow keys pan, plus and minus zoom, R rotates."
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerEnd}
+        onPointerCancel={handlePointerEnd}
+        onKeyDown={handleViewportKeyDown}
+      >
+        <div
+          ref={contentRef}
+          className={`${styles.viewerContent} ${isPanning ? styles.viewerContentPanning : ""}`}
+          style={{
+            transform: `translate(${offset.x}px, ${offset.y}px) rotate(${rotation}deg) scale(${zoom})`,
+          }}
+        >
+          {isPdf ? (
+            <PdfPreview
+              url={url}
+              pageNumber={pageNumber}
+              width={PDF_RENDER_WIDTH}
+              className={styles.viewerMedia}
+              onPageCountChange={onPageCountChange}
+              onRenderError={onRenderError}
+            />
+          ) : (
+            <Image
+              src={url}
+              alt="Receipt"
+              width={0}
+              height={0}
+              sizes="(max-width: 900px) 92vw, 420px"
+              unoptimized
+              draggable={false}
+              className={styles.viewerMedia}
+              onLoad={(event) =>
+                setNaturalSize({
+                  width: event.currentTarget.naturalWidth,
+                  height: event.currentTarget.naturalHeight,
+                })
+              }
+              onError={onRenderError}
+            />
+          )}
+          {pageRegions.length > 0 && (
+            <svg className={styles.viewerOverlay} viewBox="0 0 1 1" preserveAspectRatio="none">
+              {pageRegions.map((region) =>
+                region.ratioBox ? (
+                  <rect
+                    key={region.field}
+                    className={`${styles.viewerRegion} ${
+                      region.field === activeField ? styles.viewerRegionActive : ""
+                    }`}
+                    x={region.ratioBox.x}
+                    y={region.ratioBox.y}
+                    width={region.ratioBox.width}
+                    height={region.ratioBox.height}
+                    tabIndex={0}
+                    role="button"
+                    aria-label={`Show ${fieldLabels[region.field] ?? "field"}`}
+                    aria-pressed={region.field === activeField}
+                    onClick={() => handleRegionClick(region.field)}
+                    onKeyDown={(event) => handleRegionKeyDown(region.field, event)}
+                  />
+                ) : null
+              )}
+            </svg>
+          )}
+        </div>
+      </div>
+      {regions.length === 0 && (
+        <p className={styles.viewerHint}>Field locations are not available for this receipt.</p>
+      )}
+    </div>
+  );
+}
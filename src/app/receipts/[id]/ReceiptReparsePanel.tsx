@@ -0,0 +1,191 @@
+"use client";
+
+import { type FormEvent, useMemo, useState } from "react";
+import { diffReceiptSnapshots, type ReceiptSnapshot } from "../../../lib/receipt-history";
+import {
+  DEFAULT_REPARSE_HINTS,
+  groupProposedChanges,
+  type ProposedChangeKey,
+  REPARSE_DATE_FORMAT_OPTIONS,
+  REPARSE_LOCALE_OPTIONS,
+  type ReparseHints,
+  requestReparseProposal,
+} from "../../../lib/receipt-reparse";
+import ReceiptChangeTable from "./ReceiptChangeTable";
+import styles from "./page.module.css";
+
+type ReceiptReparsePanelProps = {
+  receiptId: number;
+  imageIds: number[];
+  current: ReceiptSnapshot;
+  onApply: (proposal: ReceiptSnapshot, keys: ProposedChangeKey[]) => void;
+  onClose: () => void;
+};
+
+export default function ReceiptReparsePanel({
+  receiptId,
+  imageIds,
+  current,
+  onApply,
+  onClose,
+}: ReceiptReparsePanelProps) {
+  const [hints, setHints] = useState<ReparseHints>(DEFAULT_REPARSE_HINTS);
+  const [status, setStatus] = useState<"idle" | "parsing" | "error">("idle");
+  const [message, setMessage] = useState("");
+  const [proposal, setProposal] = useState<ReceiptSnapshot | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<ProposedChangeKey[]>([]);
+
+  const proposedChanges = useMemo(
+    () => (proposal ? groupProposedChanges(diffReceiptSnapshots(current, proposal)) : []),
+    [current, proposal]
+  );
+
+  const handleParse = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (status === "parsing") {
+      return;
+    }
+    if (hints.currency.trim() && !/^[a-z]{3}$/i.test(hints.currency.trim())) {
+      setStatus("error");
+      setMessage("Use a three-letter currency code, e.g. EUR.");
+      return;
+    }
+    try {
+      setStatus("parsing");
+      setMessage("");
+      const nextProposal = await requestReparseProposal(receiptId, imageIds, hints);
+      const nextChanges = groupProposedChanges(diffReceiptSnapshots(current, nextProposal));
+      setProposal(nextProposal);
+      setSelectedKeys(nextChanges.map((change) => change.key));
+      setStatus("idle");
+    } catch (error) {
+      setStatus("error");
+      setMessage(error instanceof Error ? error.message : "Failed to re-parse receipt.");
+    }
+  };
+
+  const toggleKey = (key: ProposedChangeKey) => {
+    setSelectedKeys((currentKeys) =>
+      currentKeys.includes(key)
+        ? currentKeys.filter((entry) => entry !== key)
+        : [...currentKeys, key]
+    );
+  };
+
+  const acceptedKeys = selectedKeys.filter((key) =>
+    proposedChanges.some((change) => change.key === key)
+  );
+
+  return (
+    <section className={`${styles.card} ${styles.reparseCard}`}>
+      <h3>Re-parse Receipt</h3>
+      <p className={styles.historyHint}>
+        {imageIds.length > 1 ? `All ${imageIds.length} pages are` : "The receipt is"} read
+        again. Nothing changes until you accept the proposed values.
+      </p>
+      <form className={styles.reparseForm} onSubmit={handleParse}>
+        <label className={styles.itemField}>
+          <span>Currency</span>
+          <input
+            className={styles.itemInput}
+            type="text"
+            value={hints.currency}
+            onChange={(event) => setHints({ ...hints, currency: event.target.value })}
+            placeholder={current.currency || "Detect"}
+            maxLength={3}
+          />
+        </label>
+        <label className={styles.itemField}>
+          <span>Language</span>
+          <select
+            className={styles.itemInput}
+            value={hints.locale}
+            onChange={(event) => setHints({ ...hints, locale: event.target.value })}
+          >
+            {REPARSE_LOCALE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.itemField}>
+          <span>Date Format</span>
+          <select
+            className={styles.itemInput}
+            value={hints.dateFormat}
+            onChange={(event) => setHints({ ...hints, dateFormat: event.target.value })}
+          >
+            {REPARSE_DATE_FORMAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.reparseCheck}>
+          <input
+            type="checkbox"
+            checked={hints.itemizedGrocery}
+            onChange={(event) => setHints({ ...hints, itemizedGrocery: event.target.checked })}
+          />
+          <span>Itemized grocery receipt</span>
+        </label>
+        <div className={styles.draftActions}>
+          <button className={styles.checkFix} type="submit" disabled={status === "parsing"}>
+            {status === "parsing" ? "Parsing..." : proposal ? "Parse Again" : "Parse"}
+          </button>
+          <button className={styles.historyButton} type="button" onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </form>
+      {message && <p className={styles.checkHint}>{message}</p>}
+
+      {proposal && proposedChanges.length === 0 && (
+        <p className={styles.historyHint}>The parser read the same values as the receipt has.</p>
+      )}
+      {proposedChanges.length > 0 && (
+        <>
+          {proposedChanges.map((change) => (
+            <div className={styles.reparseChange} key={change.key}>
+              <label className={styles.reparseCheck}>
+                <input
+                  type="checkbox"
+                  checked={selectedKeys.includes(change.key)}
+                  onChange={() => toggleKey(change.key)}
+                />
+                <span>{change.label}</span>
+              </label>
+              <ReceiptChangeTable
+                changes={change.changes}
+                beforeLabel="Current"
+                afterLabel="Proposed"
+              />
+            </div>
+          ))}
+          <div className={styles.draftActions}>
+            <button
+              className={styles.checkFix}
+              type="button"
+              onClick={() => proposal && onApply(proposal, acceptedKeys)}
+              disabled={acceptedKeys.length === 0}
+            >
+              Accept {acceptedKeys.length} of {proposedChanges.length}
+            </button>
+            <button
+              className={styles.historyButton}
+              type="button"
+              onClick={() => {
+                setProposal(null);
+                setSelectedKeys([]);
+              }}
+            >
+              Discard
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -2,13 +2,69 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { useEffect, useMemo, useState } from "react";
+import { type ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
-import { authFetch } from "../../../lib/auth-client";
+import { authFetch, fetchCurrentUserId } from "../../../lib/auth-client";
+import { deriveReceiptCategory, MIXED_CATEGORY } from "../../../lib/category-allocation";
+import {
+  calculateMileageAmount,
+  describeMileage,
+  isManualReceipt,
+  MANUAL_SOURCE,
+  type MileageEntry,
+  type MileageUnit,
+  NEW_RECEIPT_ID,
+  readDefaultMileageRate,
+  readMileageEntry,
+  rememberMileageRate,
+} from "../../../lib/manual-expenses";
+import { isPdfContentType, isPdfUrl } from "../../../lib/pdf-preview";
+import {
+  areCustomFieldValuesEqual,
+  compactCustomFieldValues,
+  type CustomFieldDefinition,
+  fetchCustomFieldDefinitions,
+  type ReceiptAnnotations,
+  readReceiptAnnotations,
+} from "../../../lib/receipt-annotations";
+import { type ArithmeticFix, checkReceiptArithmetic } from "../../../lib/receipt-arithmetic";
+import {
+  addReceiptAttachment,
+  type ReceiptAttachment,
+  readReceiptAttachments,
+  removeReceiptAttachment,
+  reorderReceiptAttachments,
+} from "../../../lib/receipt-attachments";
+import {
+  clearReceiptDraft,
+  readReceiptDraft,
+  writeReceiptDraft,
+} from "../../../lib/receipt-drafts";
+import { diffReceiptSnapshots, type ReceiptSnapshot } from "../../../lib/receipt-history";
+import type { ProposedChangeKey } from "../../../lib/receipt-reparse";
+import {
+  itemRegionField,
+  type ReceiptRegion,
+  readReceiptRegions,
+} from "../../../lib/receipt-regions";
+import {
+  type UserCategory,
+  getCategoryOptions,
+  getDefaultCategories,
+  loadUserCategories,
+} from "../../../lib/user-categories";
+import PdfPreview from "./PdfPreview";
+import ReceiptAnnotationsCard from "./ReceiptAnnotationsCard";
+import ReceiptChangeTable from "./ReceiptChangeTable";
+import ReceiptHistoryPanel from "./ReceiptHistoryPanel";
+import ReceiptImageViewer from "./ReceiptImageViewer";
+import ReceiptReparsePanel from "./ReceiptReparsePanel";
 import styles from "./page.module.css";
 
 type ReceiptItem = {
   description: string;
+  // Empty when the item uses the receipt's category.
+  category: string;
   quantity: number | null;
   unitPrice: number | null;
   totalPrice: number | null;
@@ -20,18 +76,25 @@ type ReceiptDetail = {
   receiptDate: string;
   currency: string;
   category: string;
-  imageId: number | null;
-  imageUrl: string;
+  // In page order; the first is the primary image.
+  attachments: ReceiptAttachment[];
   reviewed: boolean | null;
   subtotal: number | null;
   tax: number | null;
   total: number | null;
   items: ReceiptItem[];
+  regions: ReceiptRegion[];
+  annotations: ReceiptAnnotations;
+  isManual: boolean;
+  mileage: MileageEntry | null;
 };
 
 type EditableItem = {
   id: string;
+  // Region key of the parsed item this row came from; empty for rows added by hand.
+  regionField: string;
   description: string;
+  category: string;
   quantity: string;
   unitPrice: string;
   totalPrice: string;
@@ -41,26 +104,36 @@ type EditableReceipt = {
   merchantName: string;
   receiptDate: string;
   currency: string;
+  // Category for items without their own; the saved receipt category is derived from items.
   category: string;
   subtotal: string;
   tax: string;
   total: string;
   items: EditableItem[];
+  annotations: ReceiptAnnotations;
+};
+
+type MileageInput = {
+  distance: string;
+  unit: MileageUnit;
+  rate: string;
+};
+
+type PendingDraft = {
+  savedAt: string;
+  draft: EditableReceipt;
 };
 
-const CATEGORY_OPTIONS = [
-  "Housing",
-  "Utilities",
-  "Food",
-  "Transportation",
-  "Shopping",
-  "Health",
-  "Entertainment",
-  "Subscriptions",
-  "Travel",
-  "Education",
-  "Other",
-] as const;
+const DRAFT_SAVE_DELAY_MS = 400;
+
+const FIELD_LABELS: Record<string, string> = {
+  merchantName: "Merchant",
+  receiptDate: "Receipt Date",
+  currency: "Currency",
+  subtotal: "Subtotal",
+  tax: "Tax",
+  total: "Total",
+};
 
 function toObject(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
@@ -135,6 +208,7 @@ function buildReceiptDetail(payloadObject: Record<string, unknown>): ReceiptDeta
       }
       return {
         description: toString(itemObject.description) || "Item",
+        category: toString(itemObject.category).trim(),
         quantity: toNumber(itemObject.quantity),
         unitPrice: toNumber(itemObject.unitPrice),
         totalPrice: toNumber(itemObject.totalPrice),
@@ -142,46 +216,102 @@ function buildReceiptDetail(payloadObject: Record<string, unknown>): ReceiptDeta
     })
     .filter((item): item is ReceiptItem => item !== null);
 
-  const imageObject = toObject(payloadObject.image);
-  const imageId = toNumber(
-    payloadObject.imageId ??
-      payloadObject.image_id ??
-      imageObject?.id ??
-      imageObject?.imageId
-  );
-
   return {
     receiptId: toNumber(payloadObject.receiptId),
     merchantName: toString(payloadObject.merchantName) || "Unknown Merchant",
     receiptDate: toString(payloadObject.receiptDate),
     currency: toString(payloadObject.currency),
     category: toString(payloadObject.category),
-    imageId,
-    imageUrl: toString(payloadObject.imageUrl),
+    attachments: readReceiptAttachments(payloadObject),
     reviewed: toBoolean(payloadObject.reviewed),
     subtotal: toNumber(payloadObject.subtotal),
     tax: toNumber(payloadObject.tax),
     total: toNumber(payloadObject.total),
     items,
+    regions: readReceiptRegions(payloadObject),
+    annotations: readReceiptAnnotations(payloadObject),
+    isManual: isManualReceipt(payloadObject),
+    mileage: readMileageEntry(payloadObject),
   };
 }
 
+function toLocalDateInputValue(date: Date) {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+// Starting point for /receipts/new: an empty receipt dated today with no image.
+function createManualReceiptDetail(): ReceiptDetail {
+  return {
+    receiptId: null,
+    merchantName: "",
+    receiptDate: toLocalDateInputValue(new Date()),
+    currency: "USD",
+    category: "Other",
+    attachments: [],
+    reviewed: null,
+    subtotal: null,
+    tax: null,
+    total: null,
+    items: [],
+    regions: [],
+    annotations: { tags: [], notes: "", customFields: {} },
+    isManual: true,
+    mileage: null,
+  };
+}
+
+function toMileageEntry(input: MileageInput): MileageEntry | null {
+  const distance = Number(input.distance);
+  const rate = Number(input.rate);
+  if (!input.distance.trim() || !Number.isFinite(distance) || distance <= 0) {
+    return null;
+  }
+  if (!input.rate.trim() || !Number.isFinite(rate) || rate <= 0) {
+    return null;
+  }
+  return { distance, unit: input.unit, rate };
+}
+
+function mostCommonItemCategory(items: ReceiptItem[]) {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    if (item.category) {
+      counts.set(item.category, (counts.get(item.category) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()].sort((left, right) => right[1] - left[1])[0]?.[0] ?? "";
+}
+
 function buildEditableReceipt(source: ReceiptDetail): EditableReceipt {
   return {
     merchantName: source.merchantName,
     receiptDate: toDateInputValue(source.receiptDate),
     currency: source.currency || "USD",
-    category: source.category || "Other",
+    category:
+      (source.category === MIXED_CATEGORY
+        ? mostCommonItemCategory(source.items)
+        : source.category) || "Other",
     subtotal: source.subtotal === null ? "" : String(source.subtotal),
     tax: source.tax === null ? "" : String(source.tax),
     total: source.total === null ? "" : String(source.total),
     items: source.items.map((item, index) => ({
       id: `${item.description}-${index}-${Date.now()}`,
+      regionField: itemRegionField(index),
       description: item.description,
+      category: item.category,
       quantity: item.quantity === null ? "" : String(item.quantity),
       unitPrice: item.unitPrice === null ? "" : String(item.unitPrice),
       totalPrice: item.totalPrice === null ? "" : String(item.totalPrice),
     })),
+    annotations: {
+      tags: [...source.annotations.tags],
+      notes: source.annotations.notes,
+      customFields: { ...source.annotations.customFields },
+    },
   };
 }
 
@@ -190,6 +320,82 @@ function toComparableNumber(value: string) {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
+function deriveEditableCategory(editDetail: EditableReceipt) {
+  return deriveReceiptCategory(
+    editDetail.category.trim() || "Other",
+    editDetail.items.map((item) => item.category)
+  );
+}
+
+function readEditableDraft(value: unknown): EditableReceipt | null {
+  const source = toObject(value);
+  if (!source || !Array.isArray(source.items)) {
+    return null;
+  }
+  const items = source.items
+    .map(toObject)
+    .filter((item): item is Record<string, unknown> => item !== null)
+    .map((item, index) => ({
+      id: toString(item.id) || `draft-${index}-${Date.now()}`,
+      regionField: toString(item.regionField),
+      description: toString(item.description),
+      category: toString(item.category),
+      quantity: toString(item.quantity),
+      unitPrice: toString(item.unitPrice),
+      totalPrice: toString(item.totalPrice),
+    }));
+  return {
+    merchantName: toString(source.merchantName),
+    receiptDate: toString(source.receiptDate),
+    currency: toString(source.currency),
+    category: toString(source.category),
+    subtotal: toString(source.subtotal),
+    tax: toString(source.tax),
+    total: toString(source.total),
+    items,
+    annotations: readReceiptAnnotations(toObject(source.annotations) ?? {}),
+  };
+}
+
+function toDraftNumber(value: string) {
+  return value.trim() ? toComparableNumber(value) : null;
+}
+
+function toEditableSnapshot(editDetail: EditableReceipt): ReceiptSnapshot {
+  return {
+    merchantName: editDetail.merchantName.trim(),
+    receiptDate: editDetail.receiptDate,
+    currency: editDetail.currency.trim() || "USD",
+    category: deriveEditableCategory(editDetail),
+    subtotal: toDraftNumber(editDetail.subtotal),
+    tax: toDraftNumber(editDetail.tax),
+    total: toDraftNumber(editDetail.total),
+    items: editDetail.items.map((item) => ({
+      description: item.description.trim(),
+      category: item.category,
+      quantity: toDraftNumber(item.quantity),
+      unitPrice: toDraftNumber(item.unitPrice),
+      totalPrice: toDraftNumber(item.totalPrice),
+    })),
+    tags: editDetail.annotations.tags,
+    notes: editDetail.annotations.notes.trim(),
+    customFields: compactCustomFieldValues(editDetail.annotations.customFields),
+  };
+}
+
+function formatDraftTime(value: string) {
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    return "an earlier session";
+  }
+  return new Intl.DateTimeFormat("en", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(parsed);
+}
+
 function isReceiptEdited(detail: ReceiptDetail, editDetail: EditableReceipt) {
   if (detail.merchantName !== editDetail.merchantName.trim()) {
     return true;
@@ -200,7 +406,7 @@ function isReceiptEdited(detail: ReceiptDetail, editDetail: EditableReceipt) {
   if ((detail.currency || "USD") !== (editDetail.currency.trim() || "USD")) {
     return true;
   }
-  if ((detail.category || "Other") !== (editDetail.category.trim() || "Other")) {
+  if ((detail.category || "Other") !== deriveEditableCategory(editDetail)) {
     return true;
   }
   if (detail.subtotal !== toComparableNumber(editDetail.subtotal)) {
@@ -215,6 +421,17 @@ function isReceiptEdited(detail: ReceiptDetail, editDetail: EditableReceipt) {
   if (detail.items.length !== editDetail.items.length) {
     return true;
   }
+  if (detail.annotations.tags.join("\n") !== editDetail.annotations.tags.join("\n")) {
+    return true;
+  }
+  if (detail.annotations.notes.trim() !== editDetail.annotations.notes.trim()) {
+    return true;
+  }
+  if (
+    !areCustomFieldValuesEqual(detail.annotations.customFields, editDetail.annotations.customFields)
+  ) {
+    return true;
+  }
   for (let index = 0; index < detail.items.length; index += 1) {
     const left = detail.items[index];
     const right = editDetail.items[index];
@@ -224,6 +441,9 @@ function isReceiptEdited(detail: ReceiptDetail, editDetail: EditableReceipt) {
     if (left.description !== right.description.trim()) {
       return true;
     }
+    if (left.category !== right.category) {
+      return true;
+    }
     if (left.quantity !== toComparableNumber(right.quantity)) {
       return true;
     }
@@ -242,12 +462,19 @@ export default function ReceiptDetailPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const receiptId = params?.id;
+  const isNewReceipt = receiptId === NEW_RECEIPT_ID;
   const from = searchParams?.get("from");
-  const fromTab = searchParams?.get("tab");
+  // The transactions list passes its tab and filters as `back`; older links only a `tab`.
+  const backQuery = new URLSearchParams(
+    searchParams?.get("back") ?? `tab=${searchParams?.get("tab") ?? ""}`
+  );
+  if (backQuery.get("tab") !== "all" && backQuery.get("tab") !== "month") {
+    backQuery.delete("tab");
+  }
   const backHref =
     from === "transactions"
-      ? fromTab === "all" || fromTab === "month"
-        ? `/transactions?tab=${fromTab}`
+      ? backQuery.size > 0
+        ? `/transactions?${backQuery.toString()}`
         : "/transactions"
       : "/dashboard";
   const [detail, setDetail] = useState<ReceiptDetail | null>(null);
@@ -255,10 +482,18 @@ export default function ReceiptDetailPage() {
   const [status, setStatus] = useState<"loading" | "error" | "success">("loading");
   const [imageFailed, setImageFailed] = useState(false);
   const [previewOpen, setPreviewOpen] = useState(false);
-  const [attachmentUrl, setAttachmentUrl] = useState("");
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+  const [activeAttachmentKey, setActiveAttachmentKey] = useState("");
   const [attachmentStatus, setAttachmentStatus] = useState<
     "idle" | "loading" | "error" | "success"
   >("idle");
+  const [pdfPageCount, setPdfPageCount] = useState(0);
+  const [pdfPage, setPdfPage] = useState(1);
+  const [attachmentAction, setAttachmentAction] = useState<
+    "idle" | "uploading" | "saving" | "error"
+  >("idle");
+  const [attachmentMessage, setAttachmentMessage] = useState("");
+  const [reparseOpen, setReparseOpen] = useState(false);
   const [reviewStatus, setReviewStatus] = useState<"idle" | "saving" | "error">("idle");
   const [reviewMessage, setReviewMessage] = useState("");
   const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "success" | "error">("idle");
@@ -266,6 +501,45 @@ export default function ReceiptDetailPage() {
   const [isEditing, setIsEditing] = useState(false);
   const [deleteStatus, setDeleteStatus] = useState<"idle" | "deleting" | "error">("idle");
   const [deleteMessage, setDeleteMessage] = useState("");
+  const [activeField, setActiveField] = useState("");
+  const [checkedFields, setCheckedFields] = useState<string[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // Only labels custom field changes in diffs; the annotations card loads its own copy.
+  const [customFieldDefinitions, setCustomFieldDefinitions] = useState<
+    CustomFieldDefinition[]
+  >([]);
+  const [pendingDraft, setPendingDraft] = useState<PendingDraft | null>(null);
+  // Drafts are stored per user; nothing is read or written while this is null.
+  const [draftUserId, setDraftUserId] = useState<string | null>(null);
+  const [entryMode, setEntryMode] = useState<"expense" | "mileage">("expense");
+  const [mileageInput, setMileageInput] = useState<MileageInput>({
+    distance: "",
+    unit: "mi",
+    rate: "",
+  });
+  const [userCategories, setUserCategories] = useState<UserCategory[]>(getDefaultCategories);
+  const fieldRefs = useRef<Record<string, HTMLElement | null>>({});
+  const attachmentInputRef = useRef<HTMLInputElement | null>(null);
+  const reparsePanelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    void loadUserCategories().then((categories) => {
+      if (isMounted) {
+        setUserCategories(categories);
+      }
+    });
+    void fetchCustomFieldDefinitions()
+      .catch(() => [])
+      .then((definitions) => {
+        if (isMounted) {
+          setCustomFieldDefinitions(definitions);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
 
   useEffect(() => {
     let isMounted = true;
@@ -275,22 +549,37 @@ export default function ReceiptDetailPage() {
         if (!receiptId) {
           throw new Error("Missing receipt id.");
         }
-        const response = await authFetch(`/api/receipts/${receiptId}`, {
-          method: "GET",
-          cache: "no-store",
-        });
-        const payload = await response.json().catch(() => null);
-        const payloadObject = toObject(payload);
-
-        if (!response.ok || !payloadObject) {
-          throw new Error("Failed to load receipt.");
+        let nextDetail: ReceiptDetail;
+        if (receiptId === NEW_RECEIPT_ID) {
+          nextDetail = createManualReceiptDetail();
+        } else {
+          const response = await authFetch(`/api/receipts/${receiptId}`, {
+            method: "GET",
+            cache: "no-store",
+          });
+          const payload = await response.json().catch(() => null);
+          const payloadObject = toObject(payload);
+
+          if (!response.ok || !payloadObject) {
+            throw new Error("Failed to load receipt.");
+          }
+          nextDetail = buildReceiptDetail(payloadObject);
         }
 
+        const userId = await fetchCurrentUserId();
         if (!isMounted) {
           return;
         }
 
-        const nextDetail = buildReceiptDetail(payloadObject);
+        const storedDraft = readReceiptDraft(userId, receiptId);
+        const draft = storedDraft ? readEditableDraft(storedDraft.draft) : null;
+        if (storedDraft && draft && isReceiptEdited(nextDetail, draft)) {
+          setPendingDraft({ savedAt: storedDraft.savedAt, draft });
+        } else {
+          clearReceiptDraft(userId, receiptId);
+          setPendingDraft(null);
+        }
+        setDraftUserId(userId);
         setDetail(nextDetail);
         setEditDetail(buildEditableReceipt(nextDetail));
         setImageFailed(false);
@@ -299,7 +588,10 @@ export default function ReceiptDetailPage() {
         setReviewMessage("");
         setSaveStatus("idle");
         setSaveMessage("");
-        setIsEditing(false);
+        // A new expense opens straight in the editor.
+        setIsEditing(receiptId === NEW_RECEIPT_ID);
+        setActiveField("");
+        setCheckedFields([]);
       } catch {
         if (!isMounted) {
           return;
@@ -315,6 +607,23 @@ export default function ReceiptDetailPage() {
     };
   }, [receiptId]);
 
+  // Waits while a stored draft is on offer so starting a new edit cannot overwrite it.
+  useEffect(() => {
+    if (!receiptId || !detail || !editDetail || !isEditing || pendingDraft) {
+      return;
+    }
+    const timeoutId = window.setTimeout(() => {
+      if (isReceiptEdited(detail, editDetail)) {
+        writeReceiptDraft(draftUserId, receiptId, editDetail);
+      } else {
+        clearReceiptDraft(draftUserId, receiptId);
+      }
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [detail, draftUserId, editDetail, isEditing, pendingDraft, receiptId]);
+
   const fetchPresignedUrl = async (imageId: number) => {
     const response = await authFetch(`/api/images/${imageId}/presigned-url`, {
       method: "GET",
@@ -331,58 +640,73 @@ export default function ReceiptDetailPage() {
     return url;
   };
 
-  const detailImageId = detail?.imageId ?? null;
-  const detailImageUrl = detail?.imageUrl ?? "";
+  const attachments = useMemo(() => detail?.attachments ?? [], [detail]);
+  const activeAttachmentIndex = Math.max(
+    attachments.findIndex((attachment) => attachment.key === activeAttachmentKey),
+    0
+  );
+  const activeAttachment = attachments[activeAttachmentIndex] ?? null;
+  const attachmentUrl = activeAttachment ? (attachmentUrls[activeAttachment.key] ?? "") : "";
 
   useEffect(() => {
     let isMounted = true;
 
-    const fetchAttachment = async () => {
-      if (!detailImageId && !detailImageUrl) {
-        setAttachmentUrl("");
+    const fetchAttachments = async () => {
+      if (attachments.length === 0) {
+        setAttachmentUrls({});
         setAttachmentStatus("idle");
         return;
       }
 
-      const rawUrl = detailImageUrl;
-      if (rawUrl && (rawUrl.startsWith("http://") || rawUrl.startsWith("https://"))) {
-        setAttachmentUrl(rawUrl);
-        setAttachmentStatus("success");
-        return;
-      }
+      setAttachmentStatus("loading");
+      const entries = await Promise.all(
+        attachments.map(async (attachment) => {
+          const rawUrl = attachment.url;
+          if (rawUrl && (rawUrl.startsWith("http://") || rawUrl.startsWith("https://"))) {
+            return [attachment.key, rawUrl] as const;
+          }
+          if (!attachment.imageId) {
+            return [attachment.key, ""] as const;
+          }
+          const url = await fetchPresignedUrl(attachment.imageId).catch(() => "");
+          return [attachment.key, url] as const;
+        })
+      );
 
-      if (!detailImageId) {
-        setAttachmentUrl("");
-        setAttachmentStatus("idle");
+      if (!isMounted) {
         return;
       }
 
-      try {
-        setAttachmentStatus("loading");
-        const url = await fetchPresignedUrl(detailImageId);
-
-        if (!isMounted) {
-          return;
-        }
-
-        setAttachmentUrl(url);
-        setImageFailed(false);
-        setAttachmentStatus("success");
-      } catch {
-        if (!isMounted) {
-          return;
-        }
-        setAttachmentUrl("");
-        setAttachmentStatus("error");
-      }
+      const urls = Object.fromEntries(entries.filter(([, url]) => url));
+      setAttachmentUrls(urls);
+      setImageFailed(false);
+      setAttachmentStatus(Object.keys(urls).length > 0 ? "success" : "error");
     };
 
-    void fetchAttachment();
+    void fetchAttachments();
 
     return () => {
       isMounted = false;
     };
-  }, [detailImageId, detailImageUrl]);
+  }, [attachments]);
+
+  const isPdfAttachment =
+    isPdfContentType(activeAttachment?.contentType ?? "") || isPdfUrl(attachmentUrl);
+
+  // Regions without an image id were found on the first attachment.
+  const activeRegions = useMemo(
+    () =>
+      (detail?.regions ?? []).filter((region) =>
+        region.imageId === null
+          ? activeAttachmentIndex === 0
+          : region.imageId === activeAttachment?.imageId
+      ),
+    [activeAttachment, activeAttachmentIndex, detail]
+  );
+
+  const handlePdfRenderError = useCallback(() => {
+    setImageFailed(true);
+  }, []);
 
   const totals = useMemo(() => {
     if (!detail) {
@@ -395,6 +719,183 @@ export default function ReceiptDetailPage() {
     };
   }, [detail]);
 
+  const regionFields = useMemo(
+    () => new Set((detail?.regions ?? []).map((region) => region.field)),
+    [detail]
+  );
+
+  const fieldLabels = useMemo(() => {
+    const labels: Record<string, string> = { ...FIELD_LABELS };
+    detail?.items.forEach((item, index) => {
+      labels[itemRegionField(index)] = `item ${index + 1}: ${item.description}`;
+    });
+    return labels;
+  }, [detail]);
+
+  const handleSelectAttachment = (key: string) => {
+    setActiveAttachmentKey(key);
+    setImageFailed(false);
+    setPdfPage(1);
+    setPdfPageCount(0);
+  };
+
+  const handleFieldSelect = (field: string) => {
+    if (!regionFields.has(field)) {
+      return;
+    }
+    setActiveField(field);
+    setCheckedFields((current) => (current.includes(field) ? current : [...current, field]));
+    const region = detail?.regions.find((entry) => entry.field === field);
+    if (!region) {
+      return;
+    }
+    const regionAttachment =
+      region.imageId === null
+        ? attachments[0]
+        : attachments.find((attachment) => attachment.imageId === region.imageId);
+    if (regionAttachment && regionAttachment.key !== activeAttachment?.key) {
+      handleSelectAttachment(regionAttachment.key);
+      setPdfPage(region.page);
+    } else if (isPdfAttachment && region.page !== pdfPage) {
+      setPdfPage(region.page);
+    }
+  };
+
+  const handleRegionSelect = (field: string) => {
+    handleFieldSelect(field);
+    const element = fieldRefs.current[field];
+    if (!element) {
+      return;
+    }
+    const target = isEditing
+      ? element.querySelector<HTMLElement>("input, select") ?? element
+      : element;
+    target.focus({ preventScroll: true });
+    element.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  };
+
+  const getFieldRowProps = (field: string, className: string) => {
+    const hasRegion = Boolean(field) && regionFields.has(field);
+    return {
+      ref: (element: HTMLDivElement | null) => {
+        if (field) {
+          fieldRefs.current[field] = element;
+        }
+      },
+      className: `${className} ${hasRegion ? styles.fieldLinked : ""} ${
+        hasRegion && activeField === field ? styles.fieldActive : ""
+      }`,
+      tabIndex: hasRegion && !isEditing ? 0 : undefined,
+      onClick: hasRegion ? () => handleFieldSelect(field) : undefined,
+      onFocus: hasRegion ? () => handleFieldSelect(field) : undefined,
+    };
+  };
+
+  const renderPagePicker = () => (
+    <div className={styles.pagePicker}>
+      <button
+        className={styles.pagePickerButton}
+        type="button"
+        onClick={() => setPdfPage((current) => Math.max(current - 1, 1))}
+        disabled={pdfPage <= 1}
+        aria-label="Previous page"
+      >
+        ‹
+      </button>
+      <select
+        className={styles.pagePickerSelect}
+        value={pdfPage}
+        onChange={(event) => setPdfPage(Number(event.target.value))}
+        aria-label="Select page"
+      >
+        {Array.from({ length: pdfPageCount }, (_, index) => index + 1).map((pageNumber) => (
+          <option key={pageNumber} value={pageNumber}>
+            Page {pageNumber} of {pdfPageCount}
+          </option>
+        ))}
+      </select>
+      <button
+        className={styles.pagePickerButton}
+        type="button"
+        onClick={() => setPdfPage((current) => Math.min(current + 1, pdfPageCount))}
+        disabled={pdfPage >= pdfPageCount}
+        aria-label="Next page"
+      >
+        ›
+      </button>
+    </div>
+  );
+
+  const categoryOptions = useMemo(
+    () =>
+      getCategoryOptions(userCategories, [
+        editDetail?.category ?? "",
+        ...(editDetail?.items.map((item) => item.category) ?? []),
+      ]),
+    [editDetail, userCategories]
+  );
+
+  const currentSnapshot = useMemo<ReceiptSnapshot | null>(
+    () =>
+      detail
+        ? {
+            merchantName: detail.merchantName,
+            receiptDate: detail.receiptDate.slice(0, 10),
+            currency: detail.currency,
+            category: detail.category,
+            subtotal: detail.subtotal,
+            tax: detail.tax,
+            total: detail.total,
+            items: detail.items,
+            tags: detail.annotations.tags,
+            notes: detail.annotations.notes.trim(),
+            customFields: compactCustomFieldValues(detail.annotations.customFields),
+          }
+        : null,
+    [detail]
+  );
+
+  const draftChanges = useMemo(
+    () =>
+      pendingDraft && currentSnapshot
+        ? diffReceiptSnapshots(
+            currentSnapshot,
+            toEditableSnapshot(pendingDraft.draft),
+            customFieldDefinitions
+          )
+        : [],
+    [currentSnapshot, customFieldDefinitions, pendingDraft]
+  );
+
+  const arithmeticIssues = useMemo(
+    () => (editDetail ? checkReceiptArithmetic(editDetail) : []),
+    [editDetail]
+  );
+  const flaggedInputs = new Set(
+    arithmeticIssues.map((issue) =>
+      issue.fix.target === "item-total" ? `item-${issue.fix.itemId}` : issue.fix.target
+    )
+  );
+  const getInputClassName = (className: string, key: string) =>
+    flaggedInputs.has(key) ? `${className} ${styles.inputWarning}` : className;
+
+  const handleApplyFix = (fix: ArithmeticFix) => {
+    setEditDetail((current) => {
+      if (!current) {
+        return current;
+      }
+      if (fix.target === "item-total") {
+        return {
+          ...current,
+          items: current.items.map((item) =>
+            item.id === fix.itemId ? { ...item, totalPrice: fix.value } : item
+          ),
+        };
+      }
+      return { ...current, [fix.target]: fix.value };
+    });
+  };
+
   const handleReviewToggle = async () => {
     if (!detail?.receiptId || reviewStatus === "saving") {
       return;
@@ -436,46 +937,83 @@ export default function ReceiptDetailPage() {
   };
 
   const handleSaveReceipt = async () => {
-    if (!detail?.receiptId || !editDetail || saveStatus === "saving") {
+    const draftKey = isNewReceipt ? NEW_RECEIPT_ID : detail?.receiptId;
+    if (!detail || !draftKey || !editDetail || saveStatus === "saving") {
       return;
     }
 
-    if (!isReceiptEdited(detail, editDetail)) {
+    const mileage = isNewReceipt && entryMode === "mileage" ? toMileageEntry(mileageInput) : null;
+    if (isNewReceipt) {
+      const missing =
+        entryMode === "mileage" && !mileage
+          ? "Enter the distance and rate."
+          : !editDetail.merchantName.trim()
+            ? "Enter a merchant or description."
+            : toDraftNumber(editDetail.total) === null
+              ? "Enter the total amount."
+              : "";
+      if (missing) {
+        setSaveStatus("error");
+        setSaveMessage(missing);
+        return;
+      }
+    } else if (!isReceiptEdited(detail, editDetail)) {
       setSaveStatus("idle");
       setSaveMessage("No changes to save.");
       return;
     }
 
+    // Mismatches are reported after saving; receipts are sometimes printed inconsistently.
+    const warningCount = checkReceiptArithmetic(editDetail).length;
+    // Keep the latest edits if the save fails or the session has expired.
+    if (!pendingDraft) {
+      writeReceiptDraft(draftUserId, draftKey, editDetail);
+    }
+
     try {
       setSaveStatus("saving");
       setSaveMessage("");
 
+      const defaultCategory = editDetail.category.trim() || "Other";
+      const category = deriveEditableCategory(editDetail);
       const payload = {
         merchantName: editDetail.merchantName.trim(),
         receiptDate: editDetail.receiptDate,
         currency: editDetail.currency.trim() || "USD",
-        category: editDetail.category.trim() || "Other",
+        category,
         subtotal: toNumber(editDetail.subtotal),
         tax: toNumber(editDetail.tax),
         total: toNumber(editDetail.total),
         items: editDetail.items.map((item) => ({
           description: item.description.trim() || "Item",
+          // A mixed receipt has no single category to fall back on, so every item gets one.
+          category:
+            item.category || (category === MIXED_CATEGORY ? defaultCategory : null),
           quantity: toNumber(item.quantity),
           unitPrice: toNumber(item.unitPrice),
           totalPrice: toNumber(item.totalPrice),
         })),
+        tags: editDetail.annotations.tags,
+        notes: editDetail.annotations.notes.trim(),
+        customFields: compactCustomFieldValues(editDetail.annotations.customFields),
+        // Manual entries are created without an image.
+        ...(isNewReceipt ? { source: MANUAL_SOURCE, imageId: null, mileage } : {}),
       };
 
-      const response = await authFetch(`/api/receipts/${detail.receiptId}`, {
-        method: "PUT",
+      const response = await authFetch(
+        isNewReceipt ? "/api/receipts" : `/api/receipts/${detail.receiptId}`,
+        {
+          method: isNewReceipt ? "POST" : "PUT",
         headers: {
-          "Content-Type": "application/json",
-        },
-        cache: "no-store",
-        body: JSON.stringify(payload),
-      });
+            "Content-Type": "application/json",
+          },
+          cache: "no-store",
+          body: JSON.stringify(payload),
+        }
+      );
       const data = await response.json().catch(() => null);
       const dataObject = toObject(data);
+      const fallbackMessage = isNewReceipt ? "Failed to create expense." : "Failed to update receipt.";
 
       if (!response.ok) {
         const message =
@@ -483,19 +1021,36 @@ export default function ReceiptDetailPage() {
             ? dataObject.error
             : typeof dataObject?.message === "string"
               ? dataObject.message
-              : "Failed to update receipt.";
+              : fallbackMessage;
         throw new Error(message);
       }
 
       if (!dataObject) {
-        throw new Error("Failed to update receipt.");
+        throw new Error(fallbackMessage);
+      }
+
+      clearReceiptDraft(draftUserId, draftKey);
+      if (isNewReceipt) {
+        if (mileage) {
+          rememberMileageRate(mileage.rate, mileage.unit);
+        }
+        const createdId = toNumber(dataObject.receiptId ?? dataObject.id);
+        router.replace(createdId !== null ? `/receipts/${createdId}` : backHref);
+        return;
       }
 
       const nextDetail = buildReceiptDetail(dataObject);
       setDetail(nextDetail);
       setEditDetail(buildEditableReceipt(nextDetail));
+      setHistoryVersion((current) => current + 1);
       setSaveStatus("success");
-      setSaveMessage("Receipt updated.");
+      setSaveMessage(
+        warningCount > 0
+          ? `Receipt updated with ${warningCount} arithmetic ${
+              warningCount === 1 ? "warning" : "warnings"
+            }.`
+          : "Receipt updated."
+      );
       setIsEditing(false);
     } catch (error) {
       setSaveStatus("error");
@@ -503,6 +1058,169 @@ export default function ReceiptDetailPage() {
     }
   };
 
+  const handleReverted = (payloadObject: Record<string, unknown>) => {
+    const nextDetail = buildReceiptDetail(payloadObject);
+    setDetail(nextDetail);
+    setEditDetail(buildEditableReceipt(nextDetail));
+    setHistoryVersion((current) => current + 1);
+    setSaveStatus("idle");
+    setSaveMessage("");
+  };
+
+  const isAttachmentBusy =
+    attachmentAction === "uploading" ||
+    attachmentAction === "saving";
+
+  const applyAttachmentChange = (payloadObject: Record<string, unknown>) => {
+    const nextDetail = buildReceiptDetail(payloadObject);
+    setDetail(nextDetail);
+    setEditDetail(buildEditableReceipt(nextDetail));
+    return nextDetail;
+  };
+
+  const handleAddAttachments = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!detail?.receiptId || files.length === 0 || isAttachmentBusy) {
+      return;
+    }
+
+    try {
+      setAttachmentAction("uploading");
+      let nextDetail = detail;
+      for (const [index, file] of files.entries()) {
+        setAttachmentMessage(
+          files.length > 1 ? `Adding file ${index + 1} of ${files.length}...` : "Adding file..."
+        );
+        nextDetail = applyAttachmentChange(await addReceiptAttachment(detail.receiptId, file));
+      }
+      const added = nextDetail.attachments[nextDetail.attachments.length - 1];
+      if (added) {
+        handleSelectAttachment(added.key);
+      }
+      setAttachmentAction("idle");
+      setAttachmentMessage(
+        "Added. Re-parse to read totals and items across all pages."
+      );
+    } catch (error) {
+      setAttachmentAction("error");
+      setAttachmentMessage(error instanceof Error ? error.message : "Failed to attach file.");
+    }
+  };
+
+  const handleMoveAttachment = async (offset: -1 | 1) => {
+    const targetIndex = activeAttachmentIndex + offset;
+    if (
+      !detail?.receiptId ||
+      !activeAttachment ||
+      targetIndex < 0 ||
+      targetIndex >= attachments.length ||
+      isAttachmentBusy
+    ) {
+      return;
+    }
+    const ordered = [...attachments];
+    ordered.splice(activeAttachmentIndex, 1);
+    ordered.splice(targetIndex, 0, activeAttachment);
+    const imageIds = ordered
+      .map((attachment) => attachment.imageId)
+      .filter((imageId): imageId is number => imageId !== null);
+    if (imageIds.length !== ordered.length) {
+      setAttachmentAction("error");
+      setAttachmentMessage("This attachment cannot be moved.");
+      return;
+    }
+
+    try {
+      setAttachmentAction("saving");
+      setAttachmentMessage("");
+      applyAttachmentChange(await reorderReceiptAttachments(detail.receiptId, imageIds));
+      setAttachmentAction("idle");
+    } catch (error) {
+      setAttachmentAction("error");
+      setAttachmentMessage(
+        error instanceof Error ? error.message : "Failed to reorder attachments."
+      );
+    }
+  };
+
+  const handleRemoveAttachment = async () => {
+    if (
+      !detail?.receiptId ||
+      !activeAttachment?.imageId ||
+      attachments.length < 2 ||
+      isAttachmentBusy
+    ) {
+      return;
+    }
+    const confirmed = window.confirm(
+      `Remove page ${activeAttachmentIndex + 1} from this receipt? ` +
+        "Parsed values are kept until you re-parse."
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      setAttachmentAction("saving");
+      setAttachmentMessage("");
+      const nextDetail = applyAttachmentChange(
+        await removeReceiptAttachment(detail.receiptId, activeAttachment.imageId)
+      );
+      handleSelectAttachment(nextDetail.attachments[0]?.key ?? "");
+      setAttachmentAction("idle");
+    } catch (error) {
+      setAttachmentAction("error");
+      setAttachmentMessage(error instanceof Error ? error.message : "Failed to remove attachment.");
+    }
+  };
+
+  const reparseImageIds = attachments
+    .map((attachment) => attachment.imageId)
+    .filter((imageId): imageId is number => imageId !== null);
+
+  const handleOpenReparse = () => {
+    setReparseOpen(true);
+    window.requestAnimationFrame(() => {
+      reparsePanelRef.current?.scrollIntoView({ block: "start", behavior: "smooth" });
+    });
+  };
+
+  // Accepted values go into the editor rather than straight to the server, so the user
+  // saves them like any other edit and the change lands in the history.
+  const handleApplyReparse = (proposal: ReceiptSnapshot, keys: ProposedChangeKey[]) => {
+    if (!detail) {
+      return;
+    }
+    const next = buildEditableReceipt(detail);
+    for (const key of keys) {
+      if (key === "items") {
+        next.items = proposal.items.map((item, index) => ({
+          id: `parsed-${index}-${Date.now()}`,
+          regionField: "",
+          description: item.description,
+          category: item.category === MIXED_CATEGORY ? "" : item.category,
+          quantity: item.quantity === null ? "" : String(item.quantity),
+          unitPrice: item.unitPrice === null ? "" : String(item.unitPrice),
+          totalPrice: item.totalPrice === null ? "" : String(item.totalPrice),
+        }));
+      } else if (key === "subtotal" || key === "tax" || key === "total") {
+        next[key] = proposal[key] === null ? "" : String(proposal[key]);
+      } else if (key === "receiptDate") {
+        next.receiptDate = toDateInputValue(proposal.receiptDate);
+      } else if (key === "category") {
+        next.category = proposal.category === MIXED_CATEGORY ? next.category : proposal.category;
+      } else {
+        next[key] = proposal[key];
+      }
+    }
+    setEditDetail(next);
+    setReparseOpen(false);
+    setIsEditing(true);
+    setSaveStatus("idle");
+    setSaveMessage("Accepted values are filled in. Review them and save.");
+  };
+
   const handleStartEdit = () => {
     if (!detail) {
       return;
@@ -514,6 +1232,11 @@ export default function ReceiptDetailPage() {
   };
 
   const handleCancelEdit = () => {
+    if (isNewReceipt) {
+      clearReceiptDraft(draftUserId, NEW_RECEIPT_ID);
+      router.push(backHref);
+      return;
+    }
     if (!detail) {
       setIsEditing(false);
       return;
@@ -522,6 +1245,71 @@ export default function ReceiptDetailPage() {
     setSaveStatus("idle");
     setSaveMessage("");
     setIsEditing(false);
+    if (receiptId && !pendingDraft) {
+      clearReceiptDraft(draftUserId, receiptId);
+    }
+  };
+
+  const applyMileage = (nextInput: MileageInput) => {
+    setMileageInput(nextInput);
+    const entry = toMileageEntry(nextInput);
+    if (!entry) {
+      return;
+    }
+    const amount = calculateMileageAmount(entry).toFixed(2);
+    const hasTransportation = userCategories.some(
+      (category) => category.name === "Transportation" && !category.archived
+    );
+    setEditDetail((current) =>
+      current
+        ? {
+            ...current,
+            merchantName: current.merchantName.trim() ? current.merchantName : "Mileage",
+            category:
+              hasTransportation && current.category === "Other" ? "Transportation" : current.category,
+            subtotal: "",
+            tax: "",
+            total: amount,
+            items: [
+              {
+                id: "mileage",
+                regionField: "",
+                description: `Mileage: ${describeMileage(entry)}`,
+                category: "",
+                quantity: String(entry.distance),
+                unitPrice: String(entry.rate),
+                totalPrice: amount,
+              },
+            ],
+          }
+        : current
+    );
+  };
+
+  const handleEntryModeChange = (mode: "expense" | "mileage") => {
+    setEntryMode(mode);
+    if (mode === "mileage" && !mileageInput.rate) {
+      const defaults = readDefaultMileageRate();
+      setMileageInput({ ...mileageInput, unit: defaults.unit, rate: String(defaults.rate) });
+    }
+  };
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) {
+      return;
+    }
+    setEditDetail(pendingDraft.draft);
+    setPendingDraft(null);
+    setSaveStatus("idle");
+    setSaveMessage("");
+    setIsEditing(true);
+  };
+
+  const handleDiscardDraft = () => {
+    if (receiptId) {
+      clearReceiptDraft(draftUserId, receiptId);
+    }
+    setPendingDraft(null);
   };
 
   const handleItemChange = (
@@ -550,7 +1338,9 @@ export default function ReceiptDetailPage() {
           ...current.items,
           {
             id: `item-${Date.now()}`,
+            regionField: "",
             description: "",
+            category: "",
             quantity: "",
             unitPrice: "",
             totalPrice: "",
@@ -575,17 +1365,21 @@ export default function ReceiptDetailPage() {
       return;
     }
 
-    if (!detail.imageId) {
+    if (!activeAttachment?.imageId) {
+      setPdfPage(1);
       setPreviewOpen(Boolean(attachmentUrl));
       return;
     }
 
     try {
       setAttachmentStatus("loading");
-      const url = await fetchPresignedUrl(detail.imageId);
-      setAttachmentUrl(url);
+      // Presigned URLs expire; fetch a fresh one for the full-size view.
+      const url = await fetchPresignedUrl(activeAttachment.imageId);
+      const key = activeAttachment.key;
+      setAttachmentUrls((current) => ({ ...current, [key]: url }));
       setImageFailed(false);
       setAttachmentStatus("success");
+      setPdfPage(1);
       setPreviewOpen(true);
     } catch {
       setAttachmentStatus("error");
@@ -644,7 +1438,9 @@ export default function ReceiptDetailPage() {
             Back
           </Link>
           <div className={styles.headerMain}>
-            <div className={styles.headerTitle}>{detail?.merchantName || "Receipt"}</div>
+            <div className={styles.headerTitle}>
+              {isNewReceipt ? "New Expense" : detail?.merchantName || "Receipt"}
+            </div>
             <div className={styles.headerDate}>
               {detail ? formatDate(detail.receiptDate) : ""}
             </div>
@@ -672,6 +1468,121 @@ export default function ReceiptDetailPage() {
 
         {status === "success" && detail && totals && (
           <>
+            {pendingDraft && (
+              <section className={`${styles.card} ${styles.draftCard}`}>
+                <h3>Unsaved Changes</h3>
+                <p className={styles.historyHint}>
+                  Edits from {formatDraftTime(pendingDraft.savedAt)} were not saved.{" "}
+                  {draftChanges.length}{" "}
+                  {draftChanges.length === 1 ? "field differs" : "fields differ"} from the
+                  saved receipt.
+                </p>
+                {draftChanges.length > 0 && (
+                  <ReceiptChangeTable
+                    changes={draftChanges}
+                    beforeLabel="Saved"
+                    afterLabel="Draft"
+                  />
+                )}
+                <div className={styles.draftActions}>
+                  <button className={styles.checkFix} type="button" onClick={handleRestoreDraft}>
+                    Restore Draft
+                  </button>
+                  <button
+                    className={styles.historyButton}
+                    type="button"
+                    onClick={handleDiscardDraft}
+                  >
+                    Discard
+                  </button>
+                </div>
+              </section>
+            )}
+            {reparseOpen && !isEditing && detail.receiptId !== null && currentSnapshot && (
+              <div ref={reparsePanelRef}>
+                <ReceiptReparsePanel
+                  receiptId={detail.receiptId}
+                  imageIds={reparseImageIds}
+                  current={currentSnapshot}
+                  onApply={handleApplyReparse}
+                  onClose={() => setReparseOpen(false)}
+                />
+              </div>
+            )}
+            {isNewReceipt && (
+              <section className={`${styles.card} ${styles.entryCard}`}>
+                <h3>New Expense</h3>
+                <div className={styles.entryModes} role="group" aria-label="Expense type">
+                  <button
+                    className={entryMode === "expense" ? styles.entryModeActive : styles.entryMode}
+                    type="button"
+                    onClick={() => handleEntryModeChange("expense")}
+                    aria-pressed={entryMode === "expense"}
+                  >
+                    Expense
+                  </button>
+                  <button
+                    className={entryMode === "mileage" ? styles.entryModeActive : styles.entryMode}
+                    type="button"
+                    onClick={() => handleEntryModeChange("mileage")}
+                    aria-pressed={entryMode === "mileage"}
+                  >
+                    Mileage
+                  </button>
+                </div>
+                {entryMode === "mileage" ? (
+                  <div className={styles.mileageGrid}>
+                    <label className={styles.itemField}>
+                      <span>Distance</span>
+                      <input
+                        className={styles.itemInput}
+                        type="text"
+                        inputMode="decimal"
+                        placeholder="0"
+                        value={mileageInput.distance}
+                        onChange={(event) =>
+                          applyMileage({ ...mileageInput, distance: event.target.value })
+                        }
+                      />
+                    </label>
+                    <label className={styles.itemField}>
+                      <span>Unit</span>
+                      <select
+                        className={styles.itemInput}
+                        value={mileageInput.unit}
+                        onChange={(event) =>
+                          applyMileage({
+                            ...mileageInput,
+                            unit: event.target.value === "km" ? "km" : "mi",
+                          })
+                        }
+                      >
+                        <option value="mi">Miles</option>
+                        <option value="km">Kilometers</option>
+                      </select>
+                    </label>
+                    <label className={styles.itemField}>
+                      <span>Rate per {mileageInput.unit}</span>
+                      <input
+                        className={styles.itemInput}
+                        type="text"
+                        inputMode="decimal"
+                        placeholder="0.00"
+                        value={mileageInput.rate}
+                        onChange={(event) =>
+                          applyMileage({ ...mileageInput, rate: event.target.value })
+                        }
+                      />
+                    </label>
+                  </div>
+                ) : null}
+                <p className={styles.historyHint}>
+                  {entryMode === "mileage"
+                    ? "The total is distance times rate. The rate is remembered on this device."
+                    : "For expenses without a receipt, such as cash tips or parking meters."}
+                </p>
+              </section>
+            )}
             <div className={styles.receiptLayout}>
             <section className={styles.summaryCard}>
               <div>
@@ -690,7 +1601,7 @@ export default function ReceiptDetailPage() {
 
             <section className={`${styles.card} ${styles.detailCard}`}>
               <h3>Receipt Details</h3>
-              <div className={styles.detailRow}>
+              <div {...getFieldRowProps("merchantName", styles.detailRow)}>
                 <span>Merchant</span>
                 {isEditing ? (
                   <input
@@ -707,7 +1618,7 @@ export default function ReceiptDetailPage() {
                   <span>{detail.merchantName || "--"}</span>
                 )}
               </div>
-              <div className={styles.detailRow}>
+              <div {...getFieldRowProps("receiptDate", styles.detailRow)}>
                 <span>Receipt Date</span>
                 {isEditing ? (
                   <input
@@ -724,7 +1635,7 @@ export default function ReceiptDetailPage() {
                   <span>{formatDate(detail.receiptDate)}</span>
                 )}
               </div>
-              <div className={styles.detailRow}>
+              <div {...getFieldRowProps("currency", styles.detailRow)}>
                 <span>Currency</span>
                 {isEditing ? (
                   <select
@@ -743,7 +1654,11 @@ export default function ReceiptDetailPage() {
                 )}
               </div>
               <div className={styles.detailRow}>
-                <span>Category</span>
+                <span>
+                  {isEditing && editDetail && deriveEditableCategory(editDetail) === MIXED_CATEGORY
+                    ? "Category (mixed, default for other items)"
+                    : "Category"}
+                </span>
                 {isEditing ? (
                   <select
                     className={styles.detailInput}
@@ -754,21 +1669,25 @@ export default function ReceiptDetailPage() {
                       )
                     }
                   >
-                    {CATEGORY_OPTIONS.map((option) => (
+                    {categoryOptions.map((option) => (
                       <option key={option} value={option}>
                         {option}
                       </option>
                     ))}
                   </select>
                 ) : (
-                  <span>{detail.category || "--"}</span>
+                  <span>
+                    {detail.category === MIXED_CATEGORY
+                      ? "Mixed (split by item)"
+                      : detail.category || "--"}
+                  </span>
                 )}
               </div>
-              <div className={styles.detailRow}>
+              <div {...getFieldRowProps("subtotal", styles.detailRow)}>
                 <span>Subtotal</span>
                 {isEditing ? (
                   <input
-                    className={styles.detailInput}
+                    className={getInputClassName(styles.detailInput, "subtotal")}
                     type="number"
                     inputMode="decimal"
                     step="0.01"
@@ -783,7 +1702,7 @@ export default function ReceiptDetailPage() {
                   <span>{totals.subtotal}</span>
                 )}
               </div>
-              <div className={styles.detailRow}>
+              <div {...getFieldRowProps("tax", styles.detailRow)}>
                 <span>Tax</span>
                 {isEditing ? (
                   <input
@@ -802,11 +1721,11 @@ export default function ReceiptDetailPage() {
                   <span>{totals.tax}</span>
                 )}
               </div>
-              <div className={styles.detailRow}>
+              <div {...getFieldRowProps("total", styles.detailRow)}>
                 <span>Total</span>
                 {isEditing ? (
                   <input
-                    className={styles.detailInput}
+                    className={getInputClassName(styles.detailInput, "total")}
                     type="number"
                     inputMode="decimal"
                     step="0.01"
@@ -825,6 +1744,18 @@ export default function ReceiptDetailPage() {
                 <span>Status</span>
                 <span>{detail.reviewed ? "Reviewed" : "Unreviewed"}</span>
               </div>
+              {detail.isManual && !isNewReceipt && (
+                <div className={styles.detailRow}>
+                  <span>Source</span>
+                  <span>Manual entry</span>
+                </div>
+              )}
+              {detail.mileage && (
+                <div className={styles.detailRow}>
+                  <span>Mileage</span>
+                  <span>{describeMileage(detail.mileage)}</span>
+                </div>
+              )}
             </section>
 
             <section className={`${styles.card} ${styles.itemsCard}`}>
@@ -833,7 +1764,7 @@ export default function ReceiptDetailPage() {
                 <div className={styles.empty}>No items yet.</div>
               )}
               {editDetail?.items.map((item, index) => (
-                <div className={styles.itemEditor} key={item.id}>
+                <div {...getFieldRowProps(item.regionField, styles.itemEditor)} key={item.id}>
                   <div className={isEditing ? styles.itemGrid : styles.itemViewGrid}>
                     {isEditing ? (
                       <>
@@ -880,7 +1811,7 @@ export default function ReceiptDetailPage() {
                         <label className={styles.itemField}>
                           <span>Total</span>
                           <input
-                            className={styles.itemInput}
+                            className={getInputClassName(styles.itemInput, `item-${item.id}`)}
                             type="number"
                             inputMode="decimal"
                             step="0.01"
@@ -891,12 +1822,34 @@ export default function ReceiptDetailPage() {
                             }
                           />
                         </label>
+                        <label className={`${styles.itemField} ${styles.itemCategoryField}`}>
+                          <span>Category</span>
+                          <select
+                            className={styles.itemInput}
+                            value={item.category}
+                            onChange={(event) =>
+                              handleItemChange(index, "category", event.target.value)
+                            }
+                          >
+                            <option value="">
+                              Receipt category ({editDetail.category || "Other"})
+                            </option>
+                            {categoryOptions.map((option) => (
+                              <option key={option} value={option}>
+                                {option}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
                       </>
                     ) : (
                       <>
                         <div className={styles.itemViewCell}>
                           <span>Description</span>
                           <strong>{item.description || "--"}</strong>
+                          {item.category && (
+                            <span className={styles.itemCategoryTag}>{item.category}</span>
+                          )}
                         </div>
                         <div className={styles.itemViewCell}>
                           <span>Qty</span>
@@ -931,6 +1884,48 @@ export default function ReceiptDetailPage() {
               )}
             </section>
 
+            <ReceiptAnnotationsCard
+              value={isEditing && editDetail ? editDetail.annotations : detail.annotations}
+              isEditing={isEditing && Boolean(editDetail)}
+              onChange={(annotations) =>
+                setEditDetail((current) => (current ? { ...current, annotations } : current))
+              }
+            />
+
+            {detail.receiptId !== null && currentSnapshot && (
+              <ReceiptHistoryPanel
+                receiptId={detail.receiptId}
+                current={currentSnapshot}
+                customFields={customFieldDefinitions}
+                refreshKey={historyVersion}
+                disabled={isEditing}
+                onReverted={handleReverted}
+              />
+            )}
+
+            {arithmeticIssues.length > 0 && (
+              <section className={`${styles.card} ${styles.checksCard}`}>
+                <h3>Check the Math</h3>
+                {arithmeticIssues.map((issue) => (
+                  <div className={styles.checkRow} key={issue.id}>
+                    <p>{issue.message}</p>
+                    {isEditing && (
+                      <button
+                        className={styles.checkFix}
+                        type="button"
+                        onClick={() => handleApplyFix(issue.fix)}
+                      >
+                        {issue.fixLabel}
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {!isEditing && (
+                  <p className={styles.checkHint}>Edit the receipt to apply a fix.</p>
+                )}
+              </section>
+            )}
+
             {isEditing && (
               <button
                 className={styles.saveButton}
@@ -938,7 +1933,11 @@ export default function ReceiptDetailPage() {
                 onClick={handleSaveReceipt}
                 disabled={saveStatus === "saving" || !editDetail}
               >
-                {saveStatus === "saving" ? "Saving..." : "Save Changes"}
+                {saveStatus === "saving"
+                  ? "Saving..."
+                  : isNewReceipt
+                    ? "Save Expense"
+                    : "Save Changes"}
               </button>
             )}
             {saveMessage && (
@@ -958,6 +1957,12 @@ export default function ReceiptDetailPage() {
                 {reviewMessage && (
                   <p className={styles.reviewMessage}>{reviewMessage}</p>
                 )}
+                {!detail.reviewed && regionFields.size > 0 && (
+                  <p className={styles.reviewMessage}>
+                    Checked {checkedFields.length} of {regionFields.size} highlighted fields
+                    against the image.
+                  </p>
+                )}
 
                 <button
                   className={styles.deleteButton}
@@ -972,41 +1977,192 @@ export default function ReceiptDetailPage() {
             )}
 
             <section className={`${styles.card} ${styles.attachmentCard}`}>
-              <h3>Attachment</h3>
+              <h3>{attachments.length > 1 ? "Attachments" : "Attachment"}</h3>
               {attachmentUrl ? (
-                <div className={styles.attachment}>
-                  <button
-                    className={styles.thumbnailButton}
-                    type="button"
-                    onClick={handleOpenPreview}
-                    aria-label="Preview receipt image"
-                  >
-                    <div className={styles.thumbnail}>
-                      {!imageFailed ? (
-                        <Image
-                          src={attachmentUrl}
-                          alt="Receipt"
-                          fill
-                          sizes="72px"
-                          onError={() => setImageFailed(true)}
-                    />
-                      ) : (
-                        <div className={styles.placeholder}>Receipt</div>
-                      )}
+                <>
+                  <div className={styles.attachment}>
+                    <button
+                      className={styles.thumbnailButton}
+                      type="button"
+                      onClick={handleOpenPreview}
+                      aria-label="Preview receipt image"
+                    >
+                      <div className={styles.thumbnail}>
+                        {imageFailed ? (
+                          <div className={styles.placeholder}>Receipt</div>
+                        ) : isPdfAttachment ? (
+                          <PdfPreview
+                            url={attachmentUrl}
+                            pageNumber={1}
+                            width={72}
+                            className={styles.pdfCanvas}
+                            onPageCountChange={setPdfPageCount}
+                            onRenderError={handlePdfRenderError}
+                          />
+                        ) : (
+                          <Image
+                            src={attachmentUrl}
+                            alt="Receipt"
+                            fill
+                            sizes="72px"
+                            onError={() => setImageFailed(true)}
+                      />
+                        )}
+                      </div>
+                    </button>
+                    <div>
+                      <p className={styles.attachmentTitle}>
+                        {activeAttachment?.fileName ||
+                          (isPdfAttachment ? "Receipt PDF" : "Receipt")}
+                      </p>
+                      <p className={styles.attachmentMeta}>
+                        {[
+                          attachments.length > 1
+                            ? `Page ${activeAttachmentIndex + 1} of ${attachments.length}`
+                            : "",
+                          isPdfAttachment && pdfPageCount > 1 ? `${pdfPageCount} pages` : "",
+                          totals.total,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
                     </div>
-                  </button>
-                  <div>
-                    <p className={styles.attachmentTitle}>Receipt</p>
-                    <p className={styles.attachmentMeta}>{totals.total}</p>
                   </div>
-                </div>
+                  {!imageFailed && (
+                    <ReceiptImageViewer
+                      url={attachmentUrl}
+                      isPdf={isPdfAttachment}
+                      pageNumber={isPdfAttachment ? pdfPage : 1}
+                      regions={activeRegions}
+                      activeField={activeField}
+                      fieldLabels={fieldLabels}
+                      onRegionSelect={handleRegionSelect}
+                      onPageCountChange={setPdfPageCount}
+                      onRenderError={handlePdfRenderError}
+                    />
+                  )}
+                  {isPdfAttachment && !imageFailed && pdfPageCount > 1 && renderPagePicker()}
+                </>
               ) : attachmentStatus === "loading" ? (
                 <div className={styles.empty}>Loading attachment...</div>
-              ) : attachmentStatus === "error" ? (
+              ) : attachmentStatus === "error" || activeAttachment ? (
                 <div className={styles.empty}>Failed to load attachment.</div>
               ) : (
-                <div className={styles.empty}>No attachment.</div>
+                <div className={styles.empty}>
+                  {detail.isManual ? "Manual entry, no image." : "No attachment."}
+                </div>
               )}
+              {attachments.length > 1 && (
+                <div className={styles.attachmentCarousel}>
+                  <button
+                    className={styles.pagePickerButton}
+                    type="button"
+                    onClick={() =>
+                      handleSelectAttachment(attachments[activeAttachmentIndex - 1].key)
+                    }
+                    disabled={activeAttachmentIndex === 0}
+                    aria-label="Previous attachment"
+                  >
+                    ‹
+                  </button>
+                  <div className={styles.attachmentStrip}>
+                    {attachments.map((attachment, index) => {
+                      const url = attachmentUrls[attachment.key];
+                      const isPdf = isPdfContentType(attachment.contentType) || isPdfUrl(url ?? "");
+                      return (
+                        <button
+                          className={`${styles.attachmentThumb} ${
+                            index === activeAttachmentIndex ? styles.attachmentThumbActive : ""
+                          }`}
+                          type="button"
+                          key={attachment.key}
+                          onClick={() => handleSelectAttachment(attachment.key)}
+                          aria-label={`Show page ${index + 1}`}
+                          aria-current={index === activeAttachmentIndex}
+                        >
+                          {url && !isPdf ? (
+                            <Image src={url} alt="" fill sizes="48px" />
+                          ) : (
+                            <span className={styles.placeholder}>{isPdf ? "PDF" : index + 1}</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <button
+                    className={styles.pagePickerButton}
+                    type="button"
+                    onClick={() =>
+                      handleSelectAttachment(attachments[activeAttachmentIndex + 1].key)
+                    }
+                    disabled={activeAttachmentIndex >= attachments.length - 1}
+                    aria-label="Next attachment"
+                  >
+                    ›
+                  </button>
+                </div>
+              )}
+              {detail.receiptId !== null && !isEditing && (
+                <div className={styles.attachmentActions}>
+                  <input
+                    ref={attachmentInputRef}
+                    type="file"
+                    accept="image/*,application/pdf"
+                    multiple
+                    hidden
+                    onChange={handleAddAttachments}
+                  />
+                  <button
+                    className={styles.historyButton}
+                    type="button"
+                    onClick={() => attachmentInputRef.current?.click()}
+                    disabled={isAttachmentBusy}
+                  >
+                    {attachmentAction === "uploading" ? "Adding..." : "Add Page"}
+                  </button>
+                  {attachments.length > 1 && (
+                    <>
+                      <button
+                        className={styles.historyButton}
+                        type="button"
+                        onClick={() => handleMoveAttachment(-1)}
+                        disabled={isAttachmentBusy || activeAttachmentIndex === 0}
+                      >
+                        Move Earlier
+                      </button>
+                      <button
+                        className={styles.historyButton}
+                        type="button"
+                        onClick={() => handleMoveAttachment(1)}
+                        disabled={
+                          isAttachmentBusy || activeAttachmentIndex >= attachments.length - 1
+                        }
+                      >
+                        Move Later
+                      </button>
+                      <button
+                        className={styles.historyButton}
+                        type="button"
+                        onClick={handleRemoveAttachment}
+                        disabled={isAttachmentBusy}
+                      >
+                        Remove
+                      </button>
+                    </>
+                  )}
+                  {reparseImageIds.length > 0 && (
+                    <button
+                      className={styles.checkFix}
+                      type="button"
+                      onClick={handleOpenReparse}
+                      disabled={isAttachmentBusy}
+                    >
+                      {attachments.length > 1 ? "Re-parse All Pages" : "Re-parse"}
+                    </button>
+                  )}
+                </div>
+              )}
+              {attachmentMessage && <p className={styles.checkHint}>{attachmentMessage}</p>}
             </section>
             </div>
 
@@ -1030,8 +2186,23 @@ export default function ReceiptDetailPage() {
                       ×
                     </button>
                   </div>
-                  <div className={styles.previewBody}>
-                    {!imageFailed ? (
+                  <div
+                    className={`${styles.previewBody} ${
+                      isPdfAttachment && !imageFailed ? styles.previewBodyScroll : ""
+                    }`}
+                  >
+                    {imageFailed ? (
+                      <div className={styles.previewPlaceholder}>Receipt</div>
+                    ) : isPdfAttachment ? (
+                      <PdfPreview
+                        url={attachmentUrl}
+                        pageNumber={pdfPage}
+                        width={560}
+                        className={styles.previewPdfCanvas}
+                        onPageCountChange={setPdfPageCount}
+                        onRenderError={handlePdfRenderError}
+                      />
+                    ) : (
                       <Image
                         src={attachmentUrl}
                         alt="Receipt preview"
@@ -1039,10 +2210,9 @@ export default function ReceiptDetailPage() {
                         sizes="(max-width: 768px) 92vw, 560px"
                         onError={() => setImageFailed(true)}
                     />
-                    ) : (
-                      <div className={styles.previewPlaceholder}>Receipt</div>
                     )}
                   </div>
+                  {isPdfAttachment && !imageFailed && pdfPageCount > 1 && renderPagePicker()}
                 </dialog>
               </>
             )}
@@ -0,0 +1,397 @@
+"use client";
+
+import Link from "next/link";
+import { type FormEvent, useEffect, useMemo, useState } from "react";
+import { MIXED_CATEGORY } from "../../../lib/category-allocation";
+import {
+  type CategoryChanges,
+  type UserCategory,
+  createCategory,
+  ensureSavedCategories,
+  fetchUserCategories,
+  loadUserCategories,
+  mergeCategory,
+  paletteColor,
+  reorderCategories,
+  updateCategory,
+} from "../../../lib/user-categories";
+import styles from "./page.module.css";
+
+type ActionStatus = "idle" | "saving" | "error" | "success";
+
+export default function CategorySettingsPage() {
+  const [categories, setCategories] = useState<UserCategory[]>([]);
+  const [status, setStatus] = useState<"loading" | "error" | "success">("loading");
+  const [actionStatus, setActionStatus] = useState<ActionStatus>("idle");
+  const [actionMessage, setActionMessage] = useState("");
+  const [nameDrafts, setNameDrafts] = useState<Record<string, string>>({});
+  const [colorDrafts, setColorDrafts] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(paletteColor(0));
+  const [mergeSourceId, setMergeSourceId] = useState("");
+  const [mergeTargetId, setMergeTargetId] = useState("");
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchCategories = async () => {
+      try {
+        const nextCategories = await fetchUserCategories();
+        if (!isMounted) {
+          return;
+        }
+        setCategories(nextCategories);
+        setNewColor(paletteColor(nextCategories.length));
+        setStatus("success");
+      } catch {
+        if (!isMounted) {
+          return;
+        }
+        setStatus("error");
+      }
+    };
+
+    void fetchCategories();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const activeCategories = useMemo(
+    () => categories.filter((category) => !category.archived),
+    [categories]
+  );
+  const archivedCategories = useMemo(
+    () => categories.filter((category) => category.archived),
+    [categories]
+  );
+  const isSaving = actionStatus === "saving";
+
+  const validateName = (name: string, exceptId = "") => {
+    if (!name) {
+      return "Category name is required.";
+    }
+    if (name.toLowerCase() === MIXED_CATEGORY.toLowerCase()) {
+      return `"${MIXED_CATEGORY}" is reserved for receipts split across categories.`;
+    }
+    const existing = categories.find(
+      (category) => category.id !== exceptId && category.name.toLowerCase() === name.toLowerCase()
+    );
+    return existing ? `A category named "${existing.name}" already exists. Merge instead.` : "";
+  };
+
+  // Saves the defaults on first use, runs the change, then reloads so positions and
+  // re-tagged names come from the server.
+  const runChange = async (
+    change: (saved: UserCategory[]) => Promise<string>,
+    fallbackMessage: string
+  ) => {
+    try {
+      setActionStatus("saving");
+      setActionMessage("");
+      const saved = await ensureSavedCategories(categories);
+      const message = await change(saved);
+      setCategories(await fetchUserCategories());
+      setNameDrafts({});
+      setColorDrafts({});
+      setActionStatus("success");
+      setActionMessage(message);
+    } catch (error) {
+      setActionStatus("error");
+      setActionMessage(error instanceof Error ? error.message : fallbackMessage);
+      // The defaults may have been saved before the change itself failed; pick up their ids
+      // so the next attempt does not save them again.
+      setCategories(await loadUserCategories());
+    }
+  };
+
+  // Defaults are saved in the same order, so a default id maps to the saved row at its index.
+  const resolveSavedId = (saved: UserCategory[], id: string) =>
+    saved[categories.findIndex((category) => category.id === id)]?.id ?? id;
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = newName.trim();
+    const error = validateName(name);
+    if (error) {
+      setActionStatus("error");
+      setActionMessage(error);
+      return;
+    }
+    await runChange(async () => {
+      await createCategory(name, newColor);
+      setNewName("");
+      setNewColor(paletteColor(categories.length + 1));
+      return `Added ${name}.`;
+    }, "Failed to create category.");
+  };
+
+  const handleUpdate = async (category: UserCategory, changes: CategoryChanges) => {
+    await runChange(async (saved) => {
+      await updateCategory(resolveSavedId(saved, category.id), changes);
+      if (changes.name) {
+        return `Renamed ${category.name} to ${changes.name}. Receipts were updated.`;
+      }
+      if (changes.archived !== undefined) {
+        return changes.archived
+          ? `Archived ${category.name}. Existing receipts keep it.`
+          : `Restored ${category.name}.`;
+      }
+      return `Updated ${category.name}.`;
+    }, "Failed to update category.");
+  };
+
+  const handleRename = async (category: UserCategory) => {
+    const name = (nameDrafts[category.id] ?? category.name).trim();
+    if (name === category.name) {
+      return;
+    }
+    const error = validateName(name, category.id);
+    if (error) {
+      setActionStatus("error");
+      setActionMessage(error);
+      return;
+    }
+    await handleUpdate(category, { name });
+  };
+
+  const handleRecolor = async (category: UserCategory) => {
+    const color = colorDrafts[category.id];
+    if (!color || color === category.color) {
+      return;
+    }
+    await handleUpdate(category, { color });
+  };
+
+  const handleMove = async (category: UserCategory, direction: -1 | 1) => {
+    const index = activeCategories.findIndex((entry) => entry.id === category.id);
+    const swapIndex = index + direction;
+    if (index < 0 || swapIndex < 0 || swapIndex >= activeCategories.length) {
+      return;
+    }
+    const reordered = [...activeCategories];
+    [reordered[index], reordered[swapIndex]] = [reordered[swapIndex], reordered[index]];
+    const orderedIds = [...reordered, ...archivedCategories].map((entry) => entry.id);
+    await runChange(async (saved) => {
+      await reorderCategories(orderedIds.map((id) => resolveSavedId(saved, id)));
+      return "Order saved.";
+    }, "Failed to reorder categories.");
+  };
+
+  const handleStartMerge = (category: UserCategory) => {
+    setMergeSourceId(category.id);
+    setMergeTargetId(activeCategories.find((entry) => entry.id !== category.id)?.id ?? "");
+  };
+
+  const handleMerge = async () => {
+    const source = categories.find((category) => category.id === mergeSourceId);
+    const target = categories.find((category) => category.id === mergeTargetId);
+    if (!source || !target) {
+      return;
+    }
+    const shouldMerge = window.confirm(
+      `Merge ${source.name} into ${target.name}? Receipts tagged ${source.name} will be ` +
+        `re-tagged and ${source.name} will be removed.`
+    );
+    if (!shouldMerge) {
+      return;
+    }
+    await runChange(async (saved) => {
+      const retagged = await mergeCategory(
+        resolveSavedId(saved, source.id),
+        resolveSavedId(saved, target.id)
+      );
+      setMergeSourceId("");
+      setMergeTargetId("");
+      return `Merged ${source.name} into ${target.name}. ${retagged} receipt${
+        retagged === 1 ? "" : "s"
+      } re-tagged.`;
+    }, "Failed to merge categories.");
+  };
+
+  const renderCategoryRow = (category: UserCategory, index: number) => (
+    <li className={styles.categoryRow} key={category.id} data-archived={category.archived}>
+      <div className={styles.categoryMain}>
+        <input
+          className={styles.colorInput}
+          type="color"
+          value={colorDrafts[category.id] ?? category.color}
+          onChange={(event) =>
+            setColorDrafts((current) => ({ ...current, [category.id]: event.target.value }))
+          }
+          onBlur={() => void handleRecolor(category)}
+          disabled={isSaving}
+          aria-label={`Color for ${category.name}`}
+        />
+        <input
+          className={styles.nameInput}
+          type="text"
+          value={nameDrafts[category.id] ?? category.name}
+          onChange={(event) =>
+            setNameDrafts((current) => ({ ...current, [category.id]: event.target.value }))
+          }
+          onBlur={() => void handleRename(category)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.currentTarget.blur();
+            } else if (event.key === "Escape") {
+              setNameDrafts((current) => ({ ...current, [category.id]: category.name }));
+            }
+          }}
+          disabled={isSaving}
+          maxLength={40}
+          aria-label={`Name of ${category.name}`}
+        />
+      </div>
+      <div className={styles.categoryActions}>
+        {!category.archived && (
+          <>
+            <button
+              className={styles.iconButton}
+              type="button"
+              onClick={() => void handleMove(category, -1)}
+              disabled={isSaving || index === 0}
+              aria-label={`Move ${category.name} up`}
+            >
+              ↑
+            </button>
+            <button
+              className={styles.iconButton}
+              type="button"
+              onClick={() => void handleMove(category, 1)}
+              disabled={isSaving || index === activeCategories.length - 1}
+              aria-label={`Move ${category.name} down`}
+            >
+              ↓
+            </button>
+          </>
+        )}
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          onClick={() => handleStartMerge(category)}
+          disabled={isSaving || activeCategories.length < 2}
+        >
+          Merge
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          onClick={() => void handleUpdate(category, { archived: !category.archived })}
+          disabled={isSaving || (!category.archived && activeCategories.length < 2)}
+        >
+          {category.archived ? "Restore" : "Archive"}
+        </button>
+      </div>
+      {mergeSourceId === category.id && (
+        <div className={styles.mergeRow}>
+          <label>
+            <span>Merge into</span>
+            <select
+              className={styles.select}
+              value={mergeTargetId}
+              onChange={(event) => setMergeTargetId(event.target.value)}
+            >
+              {activeCategories
+                .filter((entry) => entry.id !== category.id)
+                .map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.name}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <button
+            className={styles.primaryButton}
+            type="button"
+            onClick={() => void handleMerge()}
+            disabled={isSaving || !mergeTargetId}
+          >
+            Merge
+          </button>
+          <button
+            className={styles.secondaryButton}
+            type="button"
+            onClick={() => setMergeSourceId("")}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <div className={styles.headerInner}>
+          <Link className={styles.back} href="/profile" prefetch aria-label="Back to profile">
+            Back
+          </Link>
+          <p className={styles.title}>Categories</p>
+          <span />
+        </div>
+      </header>
+
+      <main className={styles.main}>
+        {status === "loading" && <div className={styles.status}>Loading categories...</div>}
+        {status === "error" && (
+          <div className={styles.status}>Failed to load categories. Please try again.</div>
+        )}
+        {actionMessage && (
+          <div className={styles.status} data-state={actionStatus}>
+            {actionMessage}
+          </div>
+        )}
+
+        {status === "success" && (
+          <>
+            <section className={styles.card}>
+              <h2>Add a category</h2>
+              <form className={styles.addForm} onSubmit={handleCreate}>
+                <input
+                  className={styles.colorInput}
+                  type="color"
+                  value={newColor}
+                  onChange={(event) => setNewColor(event.target.value)}
+                  aria-label="Color for the new category"
+                />
+                <input
+                  className={styles.nameInput}
+                  type="text"
+                  value={newName}
+                  onChange={(event) => setNewName(event.target.value)}
+                  placeholder="e.g. Office Supplies"
+                  maxLength={40}
+                  aria-label="New category name"
+                />
+                <button className={styles.primaryButton} type="submit" disabled={isSaving}>
+                  Add
+                </button>
+              </form>
+            </section>
+
+            <section className={styles.card}>
+              <h2>Your categories</h2>
+              <p className={styles.hint}>
+                Renaming or merging updates the receipts that use a category. Archived
+                categories stay on existing receipts but are hidden from pickers.
+              </p>
+              <ul className={styles.categoryList}>{activeCategories.map(renderCategoryRow)}</ul>
+            </section>
+
+            {archivedCategories.length > 0 && (
+              <section className={styles.card}>
+                <h2>Archived</h2>
+                <ul className={styles.categoryList}>
+                  {archivedCategories.map(renderCategoryRow)}
+                </ul>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+
+// The service worker answers this POST when it is active. Reaching the server means the
+// app was shared to before the worker installed, so the files cannot be recovered here.
+export async function POST(request: Request) {
+  const url = new URL("/dashboard", request.url);
+  url.searchParams.set("shared", "unavailable");
+  return NextResponse.redirect(url, 303);
+}
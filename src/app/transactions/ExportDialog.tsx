@@ -0,0 +1,184 @@
+"use client";
+
+import { type FormEvent, useMemo, useState } from "react";
+import type { CustomFieldDefinition } from "../../lib/receipt-annotations";
+import {
+  DEFAULT_EXPORT_COLUMN_IDS,
+  EXPORT_FORMAT_OPTIONS,
+  type ExportFormat,
+  type ExportGranularity,
+  type ExportOptions,
+  getExportColumnOptions,
+  supportsColumnChoice,
+} from "../../lib/transaction-export";
+import styles from "./page.module.css";
+
+type ExportDialogProps = {
+  // Null while "all matching" covers receipts that are not loaded yet.
+  selectedCount: number | null;
+  customFields: CustomFieldDefinition[];
+  onExport: (options: ExportOptions) => Promise<void>;
+  onClose: () => void;
+};
+
+export default function ExportDialog({
+  selectedCount,
+  customFields,
+  onExport,
+  onClose,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [granularity, setGranularity] = useState<ExportGranularity>("receipt");
+  const [columnIds, setColumnIds] = useState<string[]>(DEFAULT_EXPORT_COLUMN_IDS);
+  const [status, setStatus] = useState<"idle" | "exporting" | "error">("idle");
+  const [message, setMessage] = useState("");
+
+  const columnOptions = useMemo(
+    () =>
+      getExportColumnOptions(customFields).filter(
+        (option) => option.scope === "receipt" || granularity === "item"
+      ),
+    [customFields, granularity]
+  );
+  const chosenCount = columnOptions.filter((option) => columnIds.includes(option.id)).length;
+  const hasColumns = supportsColumnChoice(format);
+
+  const toggleColumn = (id: string) => {
+    setColumnIds((current) =>
+      current.includes(id) ? current.filter((entry) => entry !== id) : [...current, id]
+    );
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (status === "exporting") {
+      return;
+    }
+    if (hasColumns && chosenCount === 0) {
+      setStatus("error");
+      setMessage("Choose at least one column.");
+      return;
+    }
+    try {
+      setStatus("exporting");
+      setMessage("");
+      await onExport({ format, granularity, columnIds });
+    } catch (error) {
+      setStatus("error");
+      setMessage(error instanceof Error ? error.message : "Export failed.");
+    }
+  };
+
+  return (
+    <>
+      <div className={styles.exportBackdrop} aria-hidden="true" onClick={onClose} />
+      <dialog className={styles.exportDialog} open aria-label="Export transactions">
+        <div className={styles.exportHeader}>
+          <span>
+            Export {selectedCount === null ? "all matching" : selectedCount} receipt
+            {selectedCount === 1 ? "" : "s"}
+          </span>
+          <button className={styles.exportClose} type="button" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+        <form className={styles.exportForm} onSubmit={handleSubmit}>
+          <fieldset className={styles.exportFieldset}>
+            <legend>Format</legend>
+            <div className={styles.exportFormats}>
+              {EXPORT_FORMAT_OPTIONS.map((option) => (
+                <label
+                  className={`${styles.exportFormat} ${
+                    format === option.value ? styles.exportFormatActive : ""
+                  }`}
+                  key={option.value}
+                >
+                  <input
+                    type="radio"
+                    name="export-format"
+                    value={option.value}
+                    checked={format === option.value}
+                    onChange={() => setFormat(option.value)}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+            <p className={styles.exportHint}>
+              {EXPORT_FORMAT_OPTIONS.find((option) => option.value === format)?.hint}
+            </p>
+          </fieldset>
+
+          <fieldset className={styles.exportFieldset}>
+            <legend>Rows</legend>
+            <div className={styles.layoutToggle} role="group">
+              <button
+                className={granularity === "receipt" ? styles.layoutToggleActive : ""}
+                type="button"
+                onClick={() => setGranularity("receipt")}
+                aria-pressed={granularity === "receipt"}
+              >
+                One per receipt
+              </button>
+              <button
+                className={granularity === "item" ? styles.layoutToggleActive : ""}
+                type="button"
+                onClick={() => setGranularity("item")}
+                aria-pressed={granularity === "item"}
+              >
+                One per line item
+              </button>
+            </div>
+            {!hasColumns && granularity === "item" && (
+              <p className={styles.exportHint}>
+                {format === "ofx"
+                  ? "Each line item becomes its own transaction."
+                  : "Line items become category splits."}{" "}
+                Receipts without item totals stay whole.
+              </p>
+            )}
+          </fieldset>
+
+          {hasColumns ? (
+            <fieldset className={styles.exportFieldset}>
+              <legend>
+                Columns ({chosenCount} of {columnOptions.length})
+              </legend>
+              <div className={styles.exportColumns}>
+                {columnOptions.map((option) => (
+                  <label className={styles.exportColumn} key={option.id}>
+                    <input
+                      type="checkbox"
+                      checked={columnIds.includes(option.id)}
+                      onChange={() => toggleColumn(option.id)}
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          ) : (
+            <p className={styles.exportHint}>
+              {format.toUpperCase()} files have a fixed layout: date, payee, amount, category
+              and memo. Spending is exported as negative amounts.
+            </p>
+          )}
+
+          {message && <p className={styles.filterMessage}>{message}</p>}
+          <div className={styles.filterPanelActions}>
+            <button
+              className={styles.filterApply}
+              type="submit"
+              disabled={status === "exporting"}
+            >
+              {status === "exporting" ? "Exporting..." : `Export ${format.toUpperCase()}`}
+            </button>
+            <button type="button" onClick={onClose}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      </dialog>
+    </>
+  );
+}
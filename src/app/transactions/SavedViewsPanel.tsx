@@ -0,0 +1,203 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import {
+  SAVED_VIEW_PERIOD_OPTIONS,
+  type SavedView,
+  type SavedViewInput,
+  type SavedViewPeriod,
+} from "../../lib/saved-views";
+import { describeTransactionFilters, type TransactionFilters } from "../../lib/transaction-filters";
+import { TRANSACTION_SORT_OPTIONS, type TransactionLayout } from "../../lib/transaction-layout";
+import styles from "./page.module.css";
+
+type SavedViewsPanelProps = {
+  views: SavedView[];
+  activeView: SavedView | null;
+  filters: TransactionFilters;
+  layout: TransactionLayout;
+  defaultPeriod: SavedViewPeriod;
+  onOpen: (view: SavedView) => void;
+  onCreate: (input: SavedViewInput) => Promise<void>;
+  onUpdate: (view: SavedView, changes: Partial<SavedViewInput>) => Promise<void>;
+  onDelete: (view: SavedView) => Promise<void>;
+  onClose: () => void;
+};
+
+function describeView(view: SavedView) {
+  const period =
+    SAVED_VIEW_PERIOD_OPTIONS.find((option) => option.value === view.period)?.label ?? "";
+  const filters = describeTransactionFilters(view.filters).map((filter) => filter.label);
+  if (view.filters.q.trim()) {
+    filters.unshift(`"${view.filters.q.trim()}"`);
+  }
+  const sortKey = view.layout?.sort.key;
+  if (sortKey && sortKey !== "date") {
+    const sort = TRANSACTION_SORT_OPTIONS.find((option) => option.value === sortKey);
+    filters.push(`By ${sort?.label.toLowerCase() ?? sortKey}`);
+  }
+  return [period, ...filters].join(" · ");
+}
+
+export default function SavedViewsPanel({
+  views,
+  activeView,
+  filters,
+  layout,
+  defaultPeriod,
+  onOpen,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onClose,
+}: SavedViewsPanelProps) {
+  const [name, setName] = useState("");
+  const [period, setPeriod] = useState<SavedViewPeriod>(defaultPeriod);
+  const [pinned, setPinned] = useState(true);
+  const [status, setStatus] = useState<"idle" | "saving" | "error">("idle");
+  const [message, setMessage] = useState("");
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    if (status === "saving") {
+      return false;
+    }
+    try {
+      setStatus("saving");
+      setMessage("");
+      await action();
+      setStatus("idle");
+      return true;
+    } catch (error) {
+      setStatus("error");
+      setMessage(error instanceof Error ? error.message : fallback);
+      return false;
+    }
+  };
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setStatus("error");
+      setMessage("Give the view a name.");
+      return;
+    }
+    if (views.some((view) => view.name.toLowerCase() === trimmedName.toLowerCase())) {
+      setStatus("error");
+      setMessage("A view with this name already exists.");
+      return;
+    }
+    const saved = await run(
+      () => onCreate({ name: trimmedName, period, filters, layout, pinned }),
+      "Failed to save view."
+    );
+    if (saved) {
+      setName("");
+    }
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (!window.confirm(`Delete the view "${view.name}"? Receipts are not affected.`)) {
+      return;
+    }
+    void run(() => onDelete(view), "Failed to delete view.");
+  };
+
+  return (
+    <section className={styles.viewsPanel}>
+      {activeView && (
+        <div className={styles.viewsPanelActive}>
+          <span>
+            Showing <strong>{activeView.name}</strong>
+          </span>
+          <button
+            type="button"
+            onClick={() =>
+              void run(() => onUpdate(activeView, { filters, layout }), "Failed to update view.")
+            }
+            disabled={status === "saving"}
+          >
+            Save current filters and layout to this view
+          </button>
+        </div>
+      )}
+
+      <form className={styles.viewsForm} onSubmit={handleCreate}>
+        <label className={styles.filterField}>
+          <span>New View</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="e.g. Travel over $200"
+            maxLength={60}
+          />
+        </label>
+        <label className={styles.filterField}>
+          <span>Period</span>
+          <select
+            value={period}
+            onChange={(event) => setPeriod(event.target.value as SavedViewPeriod)}
+          >
+            {SAVED_VIEW_PERIOD_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.viewsCheck}>
+          <input
+            type="checkbox"
+            checked={pinned}
+            onChange={(event) => setPinned(event.target.checked)}
+          />
+          <span>Pin as tab</span>
+        </label>
+        <div className={styles.filterPanelActions}>
+          <button className={styles.filterApply} type="submit" disabled={status === "saving"}>
+            {status === "saving" ? "Saving..." : "Save View"}
+          </button>
+          <button type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </form>
+      {message && <p className={styles.filterMessage}>{message}</p>}
+
+      {views.length === 0 ? (
+        <p className={styles.viewsEmpty}>No saved views yet.</p>
+      ) : (
+        <ul className={styles.viewsList}>
+          {views.map((view) => (
+            <li className={styles.viewsItem} key={view.id}>
+              <button className={styles.viewsOpen} type="button" onClick={() => onOpen(view)}>
+                <span>{view.name}</span>
+                <span className={styles.viewsMeta}>{describeView(view)}</span>
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  void run(
+                    () => onUpdate(view, { pinned: !view.pinned }),
+                    "Failed to update view."
+                  )
+                }
+                disabled={status === "saving"}
+              >
+                {view.pinned ? "Unpin" : "Pin"}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(view)}
+                disabled={status === "saving"}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
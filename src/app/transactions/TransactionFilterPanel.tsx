@@ -0,0 +1,180 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { formatParseStatus, type ParseStatus } from "../../lib/receipt-parse-status";
+import {
+  EMPTY_TRANSACTION_FILTERS,
+  type ReviewedFilter,
+  type TransactionFilters,
+} from "../../lib/transaction-filters";
+import styles from "./page.module.css";
+
+const PARSE_STATUSES: ParseStatus[] = ["queued", "parsing", "parsed", "failed"];
+
+type TransactionFilterPanelProps = {
+  filters: TransactionFilters;
+  categories: string[];
+  currencies: string[];
+  onApply: (filters: TransactionFilters) => void;
+  onClose: () => void;
+};
+
+export default function TransactionFilterPanel({
+  filters,
+  categories,
+  currencies,
+  onApply,
+  onClose,
+}: TransactionFilterPanelProps) {
+  const [draft, setDraft] = useState<TransactionFilters>(filters);
+  const [message, setMessage] = useState("");
+
+  const update = (changes: Partial<TransactionFilters>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setMessage("");
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (draft.from && draft.to && draft.from > draft.to) {
+      setMessage("The start date is after the end date.");
+      return;
+    }
+    const minAmount = draft.minAmount.trim() ? Number(draft.minAmount) : null;
+    const maxAmount = draft.maxAmount.trim() ? Number(draft.maxAmount) : null;
+    if (
+      (minAmount !== null && !Number.isFinite(minAmount)) ||
+      (maxAmount !== null && !Number.isFinite(maxAmount))
+    ) {
+      setMessage("Amounts must be numbers.");
+      return;
+    }
+    if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+      setMessage("The minimum amount is above the maximum.");
+      return;
+    }
+    onApply({
+      ...draft,
+      minAmount: draft.minAmount.trim(),
+      maxAmount: draft.maxAmount.trim(),
+      currency: draft.currency.trim().toUpperCase(),
+    });
+  };
+
+  const categoryOptions = [...new Set([...categories, draft.category].filter(Boolean))];
+
+  return (
+    <form className={styles.filterPanel} onSubmit={handleSubmit}>
+      <label className={styles.filterField}>
+        <span>From</span>
+        <input
+          type="date"
+          value={draft.from}
+          onChange={(event) => update({ from: event.target.value })}
+        />
+      </label>
+      <label className={styles.filterField}>
+        <span>To</span>
+        <input
+          type="date"
+          value={draft.to}
+          onChange={(event) => update({ to: event.target.value })}
+        />
+      </label>
+      <label className={styles.filterField}>
+        <span>Min Amount</span>
+        <input
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.01"
+          value={draft.minAmount}
+          onChange={(event) => update({ minAmount: event.target.value })}
+        />
+      </label>
+      <label className={styles.filterField}>
+        <span>Max Amount</span>
+        <input
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.01"
+          value={draft.maxAmount}
+          onChange={(event) => update({ maxAmount: event.target.value })}
+        />
+      </label>
+      <label className={styles.filterField}>
+        <span>Category</span>
+        <select
+          value={draft.category}
+          onChange={(event) => update({ category: event.target.value })}
+        >
+          <option value="">Any</option>
+          {categoryOptions.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={styles.filterField}>
+        <span>Currency</span>
+        <input
+          type="text"
+          value={draft.currency}
+          onChange={(event) => update({ currency: event.target.value })}
+          placeholder="Any"
+          maxLength={3}
+          list="transaction-filter-currencies"
+        />
+        <datalist id="transaction-filter-currencies">
+          {currencies.map((currency) => (
+            <option key={currency} value={currency} />
+          ))}
+        </datalist>
+      </label>
+      <label className={styles.filterField}>
+        <span>Review</span>
+        <select
+          value={draft.reviewed}
+          onChange={(event) => update({ reviewed: event.target.value as ReviewedFilter })}
+        >
+          <option value="">Any</option>
+          <option value="reviewed">Reviewed</option>
+          <option value="unreviewed">Unreviewed</option>
+        </select>
+      </label>
+      <label className={styles.filterField}>
+        <span>Parse Status</span>
+        <select
+          value={draft.parseStatus}
+          onChange={(event) =>
+            update({ parseStatus: event.target.value as TransactionFilters["parseStatus"] })
+          }
+        >
+          <option value="">Any</option>
+          {PARSE_STATUSES.map((parseStatus) => (
+            <option key={parseStatus} value={parseStatus}>
+              {formatParseStatus(parseStatus)}
+            </option>
+          ))}
+        </select>
+      </label>
+      {message && <p className={styles.filterMessage}>{message}</p>}
+      <div className={styles.filterPanelActions}>
+        <button className={styles.filterApply} type="submit">
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={() => update({ ...EMPTY_TRANSACTION_FILTERS, q: draft.q })}
+        >
+          Reset
+        </button>
+        <button type="button" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import Link from "next/link";
+import { type KeyboardEvent, type PointerEvent, useMemo, useState } from "react";
+import {
+  clampColumnWidth,
+  DEFAULT_COLUMN_WIDTHS,
+  type SortableTransaction,
+  TRANSACTION_COLUMN_OPTIONS,
+  type TransactionColumn,
+  type TransactionColumnWidths,
+  type TransactionFixedColumn,
+  type TransactionSort,
+  type TransactionSortKey,
+} from "../../lib/transaction-layout";
+import styles from "./page.module.css";
+import VirtualTransactionList, { type TransactionGroup } from "./VirtualTransactionList";
+
+type TableColumn = TransactionFixedColumn | TransactionColumn;
+
+export type TransactionTableRow = SortableTransaction & {
+  id: string;
+  currency: string;
+  tax: number | null;
+  tags: string[];
+  isManual: boolean;
+};
+
+type TransactionTableProps<T extends TransactionTableRow> = {
+  transactions: T[];
+  columns: TransactionColumn[];
+  columnWidths: TransactionColumnWidths;
+  sort: TransactionSort;
+  getKey: (item: T) => string;
+  getHref: (item: T) => string;
+  isSelected: (id: string) => boolean;
+  formatAmount: (amount: number | null) => string;
+  formatDate: (date: string | null) => string;
+  onSort: (key: TransactionSortKey) => void;
+  onResize: (column: TableColumn, width: number) => void;
+  onToggleSelect: (id: string) => void;
+};
+
+const FIXED_COLUMNS: { value: TransactionFixedColumn; label: string }[] = [
+  { value: "merchant", label: "Merchant" },
+  { value: "date", label: "Date" },
+  { value: "amount", label: "Amount" },
+];
+
+const SORT_KEYS: Partial<Record<TableColumn, TransactionSortKey>> = {
+  merchant: "merchant",
+  date: "date",
+  amount: "amount",
+  category: "category",
+  reviewed: "reviewed",
+};
+
+const CHECKBOX_COLUMN_WIDTH = 40;
+const RESIZE_KEY_STEP = 16;
+
+type ResizeState = { column: TableColumn; startX: number; startWidth: number };
+
+export default function TransactionTable<T extends TransactionTableRow>({
+  transactions,
+  columns,
+  columnWidths,
+  sort,
+  getKey,
+  getHref,
+  isSelected,
+  formatAmount,
+  formatDate,
+  onSort,
+  onResize,
+  onToggleSelect,
+}: TransactionTableProps<T>) {
+  const [resizing, setResizing] = useState<ResizeState | null>(null);
+  const [liveWidth, setLiveWidth] = useState<number | null>(null);
+
+  const tableColumns = useMemo(
+    () => [
+      ...FIXED_COLUMNS,
+      ...TRANSACTION_COLUMN_OPTIONS.filter((option) => columns.includes(option.value)),
+    ],
+    [columns]
+  );
+
+  const widthOf = (column: TableColumn) =>
+    resizing?.column === column && liveWidth !== null
+      ? liveWidth
+      : (columnWidths[column] ?? DEFAULT_COLUMN_WIDTHS[column]);
+
+  const gridTemplateColumns = [
+    `${CHECKBOX_COLUMN_WIDTH}px`,
+    ...tableColumns.map((column) => `${widthOf(column.value)}px`),
+  ].join(" ");
+
+  // One group, so the virtual list renders the rows without month headings.
+  const groups = useMemo<TransactionGroup<T>[]>(
+    () => [{ year: "", months: [{ month: "", items: transactions }] }],
+    [transactions]
+  );
+
+  const handleResizeStart = (column: TableColumn, event: PointerEvent<HTMLSpanElement>) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setResizing({ column, startX: event.clientX, startWidth: widthOf(column) });
+    setLiveWidth(widthOf(column));
+  };
+
+  const handleResizeMove = (event: PointerEvent<HTMLSpanElement>) => {
+    if (resizing) {
+      setLiveWidth(clampColumnWidth(resizing.startWidth + event.clientX - resizing.startX));
+    }
+  };
+
+  const handleResizeEnd = () => {
+    if (resizing && liveWidth !== null && liveWidth !== resizing.startWidth) {
+      onResize(resizing.column, liveWidth);
+    }
+    setResizing(null);
+    setLiveWidth(null);
+  };
+
+  const handleResizeKey = (column: TableColumn, event: KeyboardEvent<HTMLSpanElement>) => {
+    if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") {
+      return;
+    }
+    event.preventDefault();
+    const step = event.key === "ArrowLeft" ? -RESIZE_KEY_STEP : RESIZE_KEY_STEP;
+    onResize(column, clampColumnWidth(widthOf(column) + step));
+  };
+
+  const renderCell = (item: T, column: TableColumn) => {
+    switch (column) {
+      case "merchant":
+        return (
+          <Link className={styles.tableMerchant} href={getHref(item)} prefetch>
+            {item.merchant}
+            {item.isManual && (
+              <span className={`${styles.chip} ${styles.manualChip}`}>Manual</span>
+            )}
+          </Link>
+        );
+      case "date":
+        return formatDate(item.date);
+      case "amount":
+        return formatAmount(item.amount);
+      case "category":
+        return item.category || "--";
+      case "currency":
+        return item.currency || "--";
+      case "tax":
+        return formatAmount(item.tax);
+      case "tags":
+        return item.tags.length > 0 ? item.tags.join(", ") : "--";
+      case "reviewed":
+        return item.reviewed === null ? "--" : item.reviewed ? "Yes" : "No";
+    }
+  };
+
+  return (
+    <div className={styles.tableScroll} role="table" aria-label="Transactions">
+      <div className={styles.tableHeader} style={{ gridTemplateColumns }} role="row">
+        <span className={styles.tableCell} />
+        {tableColumns.map((column) => {
+          const sortKey = SORT_KEYS[column.value];
+          const isSorted = sortKey !== undefined && sort.key === sortKey;
+          return (
+            <span
+              className={`${styles.tableCell} ${styles.tableHeaderCell}`}
+              key={column.value}
+              role="columnheader"
+              aria-sort={
+                isSorted ? (sort.direction === "asc" ? "ascending" : "descending") : undefined
+              }
+            >
+              {sortKey ? (
+                <button
+                  className={styles.tableSortButton}
+                  type="button"
+                  onClick={() => onSort(sortKey)}
+                >
+                  {column.label}
+                  {isSorted && (sort.direction === "asc" ? " ↑" : " ↓")}
+                </button>
+              ) : (
+                column.label
+              )}
+              <span
+                className={styles.tableResizeHandle}
+                role="separator"
+                aria-orientation="vertical"
+                aria-label={`Resize ${column.label} column`}
+                tabIndex={0}
+                onPointerDown={(event) => handleResizeStart(column.value, event)}
+                onPointerMove={handleResizeMove}
+                onPointerUp={handleResizeEnd}
+                onPointerCancel={handleResizeEnd}
+                onKeyDown={(event) => handleResizeKey(column.value, event)}
+                onDoubleClick={() => onResize(column.value, DEFAULT_COLUMN_WIDTHS[column.value])}
+              />
+            </span>
+          );
+        })}
+      </div>
+      <VirtualTransactionList
+        groups={groups}
+        getKey={getKey}
+        flat
+        renderItem={(item) => (
+          <div className={styles.tableRow} style={{ gridTemplateColumns }} role="row">
+            <span className={styles.tableCell} role="cell">
+              <input
+                className={styles.checkbox}
+                type="checkbox"
+                checked={isSelected(item.id)}
+                onChange={() => onToggleSelect(item.id)}
+                aria-label={`Select ${item.merchant}`}
+              />
+            </span>
+            {tableColumns.map((column) => (
+              <span
+                className={`${styles.tableCell} ${
+                  column.value === "amount" || column.value === "tax" ? styles.tableNumber : ""
+                }`}
+                key={column.value}
+                role="cell"
+              >
+                {renderCell(item, column.value)}
+              </span>
+            ))}
+          </div>
+        )}
+      />
+    </div>
+  );
+}
@@ -1,23 +1,82 @@
 "use client";
 
 import Link from "next/link";
-import { useSearchParams } from "next/navigation";
-import { useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
 import { authFetch } from "../../lib/auth-client";
+import { isManualReceipt } from "../../lib/manual-expenses";
+import {
+  type CustomFieldDefinition,
+  fetchCustomFieldDefinitions,
+  formatCustomFieldValue,
+  readReceiptAnnotations,
+} from "../../lib/receipt-annotations";
+import { fetchReceiptPage } from "../../lib/receipt-pages";
+import {
+  createSavedView,
+  deleteSavedView,
+  fetchSavedViews,
+  getPeriodRange,
+  type SavedView,
+  type SavedViewInput,
+  updateSavedView,
+} from "../../lib/saved-views";
+import {
+  buildExportFile,
+  type ExportableReceipt,
+  type ExportFile,
+  type ExportOptions,
+  requestExportFile,
+} from "../../lib/transaction-export";
+import {
+  countActiveFilters,
+  type DateRange,
+  describeTransactionFilters,
+  EMPTY_TRANSACTION_FILTERS,
+  hasActiveFilters,
+  isSameFilters,
+  matchesFilterDates,
+  narrowToRange,
+  readTransactionFilters,
+  toReceiptFilterQuery,
+  type TransactionFilters,
+  writeTransactionFilters,
+} from "../../lib/transaction-filters";
+import {
+  DEFAULT_TRANSACTION_LAYOUT,
+  fetchTransactionPreferences,
+  isSameLayout,
+  saveTransactionPreferences,
+  sortTransactions,
+  toReceiptSortQuery,
+  TRANSACTION_COLUMN_OPTIONS,
+  TRANSACTION_SORT_OPTIONS,
+  type TransactionColumn,
+  type TransactionColumnWidths,
+  type TransactionLayout,
+  type TransactionPreferences,
+  type TransactionSortKey,
+} from "../../lib/transaction-layout";
+import { loadUserCategories } from "../../lib/user-categories";
 import styles from "./page.module.css";
+import ExportDialog from "./ExportDialog";
+import SavedViewsPanel from "./SavedViewsPanel";
+import TransactionFilterPanel from "./TransactionFilterPanel";
+import TransactionTable, { type TransactionTableRow } from "./TransactionTable";
+import VirtualTransactionList, { type TransactionGroup } from "./VirtualTransactionList";
 
-type Transaction = {
-  id: string;
-  merchant: string;
-  amount: number | null;
-  date: string | null;
-};
+type Transaction = TransactionTableRow & ExportableReceipt;
 
 type ReceiptStats = {
   totalSpentThisMonth: number | null;
   receiptsProcessedThisMonth: number | null;
 };
 
+type PageTotals = {
+  count: number | null;
+  amount: number | null;
+};
+
 function toObject(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
     return null;
@@ -89,18 +148,7 @@ function parseReceiptDate(value: string | null): Date | null {
   return new Date(parsed);
 }
 
-function normalizeTransactions(payload: unknown): Transaction[] {
-  const payloadObject = toObject(payload);
-  const receiptsRaw = Array.isArray(payload)
-    ? payload
-    : Array.isArray(payloadObject?.data)
-      ? payloadObject.data
-      : Array.isArray(payloadObject?.items)
-        ? payloadObject.items
-        : Array.isArray(payloadObject?.receipts)
-          ? payloadObject.receipts
-          : [];
-
+function normalizeTransactions(receiptsRaw: unknown[]): Transaction[] {
   return receiptsRaw
     .map((item, index) => {
       const receiptObject = toObject(item);
@@ -121,8 +169,32 @@ function normalizeTransactions(payload: unknown): Transaction[] {
           receiptObject.receiptDate ??
           receiptObject.transactionDate
       );
+      const items = (Array.isArray(receiptObject.items) ? receiptObject.items : [])
+        .map(toObject)
+        .filter((itemObject): itemObject is Record<string, unknown> => itemObject !== null)
+        .map((itemObject) => ({
+          description: readFirstString(itemObject, ["description", "name"]) ?? "",
+          category: readFirstString(itemObject, ["category"]) ?? "",
+          quantity: readFirstNumber(itemObject, ["quantity", "qty"]),
+          unitPrice: readFirstNumber(itemObject, ["unitPrice", "price"]),
+          totalPrice: readFirstNumber(itemObject, ["totalPrice", "total", "amount"]),
+        }));
 
-      return { id, merchant, amount, date };
+      return {
+        id,
+        merchant,
+        amount,
+        date,
+        ...readReceiptAnnotations(receiptObject),
+        items,
+        category: readFirstString(receiptObject, ["category"]) ?? "",
+        currency: readFirstString(receiptObject, ["currency"]) ?? "",
+        subtotal: readFirstNumber(receiptObject, ["subtotal"]),
+        tax: readFirstNumber(receiptObject, ["tax", "taxAmount"]),
+        createdAt: toDateString(receiptObject.createdAt),
+        reviewed: typeof receiptObject.reviewed === "boolean" ? receiptObject.reviewed : null,
+        isManual: isManualReceipt(receiptObject),
+      };
     })
     .filter((receipt): receipt is Transaction => receipt !== null)
     .sort((left, right) => {
@@ -165,10 +237,59 @@ function getMonthLabel(value: string | null) {
   return new Intl.DateTimeFormat("en-US", { month: "long" }).format(parsedDate).toUpperCase();
 }
 
-type GroupedTransactions = {
-  year: string;
-  months: { month: string; items: Transaction[] }[];
-}[];
+type GroupedTransactions = TransactionGroup<Transaction>[];
+
+/**
+ * The loaded receipts that belong in the list for the period. The backend applies the
+ * other filters; only dates are checked again, for backends that page past the period.
+ */
+function filterTransactions(
+  transactions: Transaction[],
+  range: DateRange | null,
+  filters: TransactionFilters
+) {
+  const rangeFilters = narrowToRange(filters, range);
+  return transactions.filter((item) => matchesFilterDates(item.date, rangeFilters));
+}
+
+/** Count for a view's tab badge; "50+" when the backend does not report a total. */
+async function fetchViewCount(view: SavedView) {
+  const range = getPeriodRange(view.period);
+  const page = await fetchReceiptPage(toReceiptFilterQuery(view.filters, range), null);
+  if (page.totalCount !== null) {
+    return String(page.totalCount);
+  }
+  const matching = filterTransactions(normalizeTransactions(page.items), range, view.filters);
+  return page.nextCursor === null ? String(matching.length) : `${matching.length}+`;
+}
+
+/** Numeric receipt ids as the bulk endpoints expect them. */
+function toReceiptIds(ids: string[]) {
+  const parsedIds = ids.map((id) => Number(id)).filter((id) => Number.isInteger(id) && id > 0);
+  if (parsedIds.length !== ids.length) {
+    throw new Error("Some selected receipts have invalid ids.");
+  }
+  return parsedIds;
+}
+
+/** Appends a page, skipping receipts that shifted onto it from the previous one. */
+function mergeTransactions(current: Transaction[], next: Transaction[]) {
+  const knownIds = new Set(current.map((item) => item.id));
+  return [...current, ...next.filter((item) => !knownIds.has(item.id))];
+}
+
+function getTransactionKey(item: Transaction) {
+  return item.id;
+}
+
+function toLayout(preferences: TransactionPreferences): TransactionLayout {
+  return { mode: preferences.mode, sort: preferences.sort, columns: preferences.columns };
+}
+
+// Text sorts start at A, everything else with the largest or newest value.
+function getDefaultDirection(key: TransactionSortKey) {
+  return key === "merchant" || key === "category" ? "asc" : "desc";
+}
 
 function groupTransactionsByYearAndMonth(transactions: Transaction[]): GroupedTransactions {
   const groupedMap = new Map<string, Map<string, Transaction[]>>();
@@ -221,92 +342,317 @@ function groupTransactionsByYearAndMonth(transactions: Transaction[]): GroupedTr
 }
 
 export default function TransactionsClient() {
+  const router = useRouter();
   const searchParams = useSearchParams();
   const initialTab = searchParams?.get("tab") === "all" ? "all" : "month";
   const [tab, setTab] = useState<"month" | "all">(initialTab);
+  const [filters, setFilters] = useState<TransactionFilters>(() =>
+    readTransactionFilters(searchParams)
+  );
+  const [searchInput, setSearchInput] = useState(filters.q);
+  const [filterPanelOpen, setFilterPanelOpen] = useState(false);
+  const [categoryNames, setCategoryNames] = useState<string[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [viewsStatus, setViewsStatus] = useState<"loading" | "ready" | "error">("loading");
+  const [activeViewId, setActiveViewId] = useState<string | null>(
+    () => searchParams?.get("view") || null
+  );
+  const [viewsPanelOpen, setViewsPanelOpen] = useState(false);
+  const [viewCounts, setViewCounts] = useState<Record<string, string>>({});
+  // Bumped to refresh the badges after receipts change or the page regains focus.
+  const [countsVersion, setCountsVersion] = useState(0);
+  // Bumped to reload the list from its first page, e.g. after deleting by query.
+  const [listVersion, setListVersion] = useState(0);
+  const [preferences, setPreferences] = useState<TransactionPreferences>({
+    ...DEFAULT_TRANSACTION_LAYOUT,
+    columnWidths: {},
+  });
+  // Sort and columns of the open view, while they differ from the user's own.
+  const [viewLayout, setViewLayout] = useState<TransactionLayout | null>(null);
+  const [columnsMenuOpen, setColumnsMenuOpen] = useState(false);
+  const [layoutMessage, setLayoutMessage] = useState("");
+  const savePreferencesTimeoutRef = useRef<number | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [stats, setStats] = useState<ReceiptStats>({
     totalSpentThisMonth: null,
     receiptsProcessedThisMonth: null,
   });
   const [status, setStatus] = useState<"loading" | "error" | "success">("loading");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [pageTotals, setPageTotals] = useState<PageTotals>({ count: null, amount: null });
+  const [loadMoreStatus, setLoadMoreStatus] = useState<"idle" | "loading" | "error">("idle");
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // "Select all matching" covers pages that are not loaded yet; exclusions are unticked rows.
+  const [allMatching, setAllMatching] = useState(false);
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
   const [bulkDeleteStatus, setBulkDeleteStatus] = useState<"idle" | "deleting" | "error" | "success">("idle");
   const [bulkDeleteMessage, setBulkDeleteMessage] = useState("");
   const [exportMessage, setExportMessage] = useState("");
+  const [exportOpen, setExportOpen] = useState(false);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const requestIdRef = useRef(0);
+  const loadMoreSentinelRef = useRef<HTMLDivElement | null>(null);
+  const activeView = savedViews.find((view) => view.id === activeViewId) ?? null;
+  const activePeriod = activeView ? activeView.period : tab;
+  const range = useMemo(() => getPeriodRange(activePeriod), [activePeriod]);
+  const layout = useMemo(() => viewLayout ?? toLayout(preferences), [preferences, viewLayout]);
+  const pageQuery = useMemo(
+    () => ({ ...toReceiptFilterQuery(filters, range), ...toReceiptSortQuery(layout.sort) }),
+    [filters, layout.sort, range]
+  );
+  // A view named in the URL decides the period, so its first page waits for the views.
+  const isWaitingForView = activeViewId !== null && viewsStatus === "loading";
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltered = hasActiveFilters(filters);
+  const isViewModified =
+    activeView !== null &&
+    (!isSameFilters(activeView.filters, filters) ||
+      !isSameLayout(activeView.layout ?? toLayout(preferences), layout));
+  const pinnedViews = useMemo(() => savedViews.filter((view) => view.pinned), [savedViews]);
+  // The list's own query, forwarded to receipt pages so their back link returns here.
+  const listQuery = useMemo(() => {
+    const params = new URLSearchParams({ tab });
+    if (activeViewId) {
+      params.set("view", activeViewId);
+    }
+    return writeTransactionFilters(params, filters).toString();
+  }, [activeViewId, filters, tab]);
+
+  useEffect(() => {
+    if (window.location.search !== `?${listQuery}`) {
+      router.replace(`/transactions?${listQuery}`, { scroll: false });
+    }
+  }, [listQuery, router]);
 
   useEffect(() => {
     let isMounted = true;
 
-    const fetchData = async () => {
+    const fetchStats = async () => {
       try {
-        setStatus("loading");
-        const [receiptsResponse, statsResponse] = await Promise.all([
-          authFetch("/api/receipts/me", {
-            method: "GET",
-            cache: "no-store",
-          }),
-          authFetch("/api/receipts/me/stats", {
-            method: "GET",
-            cache: "no-store",
-          }),
-        ]);
-
-        const receiptsPayload = await receiptsResponse.json().catch(() => null);
-        const statsPayload = await statsResponse.json().catch(() => null);
-
-        if (!receiptsResponse.ok) {
-          throw new Error("Failed to load transactions.");
-        }
-
-        if (!isMounted) {
+        const response = await authFetch("/api/receipts/me/stats", {
+          method: "GET",
+          cache: "no-store",
+        });
+        const payload = await response.json().catch(() => null);
+        const statsObject = toObject(payload);
+        if (!isMounted || !response.ok) {
           return;
         }
-
-        setTransactions(normalizeTransactions(receiptsPayload));
-
-        const statsObject = toObject(statsPayload);
         setStats({
           totalSpentThisMonth: toNumber(statsObject?.totalSpentThisMonth),
           receiptsProcessedThisMonth: toNumber(statsObject?.receiptsProcessedThisMonth),
         });
+      } catch {
+        // The stat cards fall back to the loaded transactions.
+      }
+    };
+
+    void fetchStats();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isWaitingForView) {
+      return;
+    }
+    // Results of a request for an earlier tab or filter are dropped when they arrive late.
+    const requestId = requestIdRef.current + 1;
+    requestIdRef.current = requestId;
+
+    const fetchFirstPage = async () => {
+      try {
+        setStatus("loading");
+        setLoadMoreStatus("idle");
+        const page = await fetchReceiptPage(pageQuery, null);
+
+        if (requestIdRef.current !== requestId) {
+          return;
+        }
+
+        setTransactions(normalizeTransactions(page.items));
+        setNextCursor(page.nextCursor);
+        setPageTotals({ count: page.totalCount, amount: page.totalAmount });
         setStatus("success");
       } catch {
-        if (!isMounted) {
+        if (requestIdRef.current !== requestId) {
           return;
         }
         setTransactions([]);
-        setStats({
-          totalSpentThisMonth: null,
-          receiptsProcessedThisMonth: null,
-        });
+        setNextCursor(null);
+        setPageTotals({ count: null, amount: null });
         setStatus("error");
       }
     };
 
-    void fetchData();
+    void fetchFirstPage();
+  }, [isWaitingForView, listVersion, pageQuery]);
 
+  useEffect(() => {
+    let isMounted = true;
+    fetchSavedViews()
+      .then((views) => {
+        if (!isMounted) {
+          return;
+        }
+        setSavedViews(views);
+        setViewsStatus("ready");
+        // A link to a deleted view falls back to its tab.
+        setActiveViewId((current) =>
+          current && views.some((view) => view.id === current) ? current : null
+        );
+      })
+      .catch(() => {
+        if (isMounted) {
+          setViewsStatus("error");
+          setActiveViewId(null);
+        }
+      });
     return () => {
       isMounted = false;
     };
   }, []);
 
-  const displayedTransactions = useMemo(() => {
-    if (tab === "all") {
-      return transactions;
+  useEffect(() => {
+    let isMounted = true;
+    for (const view of pinnedViews) {
+      void fetchViewCount(view)
+        .then((count) => {
+          if (isMounted) {
+            setViewCounts((current) => ({ ...current, [view.id]: count }));
+          }
+        })
+        .catch(() => {
+          // The tab stays usable without a badge.
+        });
     }
-    const now = new Date();
-    const month = now.getMonth();
-    const year = now.getFullYear();
+    return () => {
+      isMounted = false;
+    };
+  }, [countsVersion, pinnedViews]);
 
-    return transactions.filter((item) => {
-      const parsedDate = parseReceiptDate(item.date);
-      if (!parsedDate) {
-        return false;
+  useEffect(() => {
+    let isMounted = true;
+    fetchTransactionPreferences()
+      .then((stored) => {
+        // A change made while loading wins over the stored layout.
+        if (isMounted && savePreferencesTimeoutRef.current === null) {
+          setPreferences(stored);
+        }
+      })
+      .catch(() => {
+        // The defaults stay in place.
+      });
+    return () => {
+      isMounted = false;
+      if (savePreferencesTimeoutRef.current !== null) {
+        window.clearTimeout(savePreferencesTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleFocus = () => setCountsVersion((current) => current + 1);
+    window.addEventListener("focus", handleFocus);
+    return () => window.removeEventListener("focus", handleFocus);
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+    void fetchCustomFieldDefinitions()
+      .catch(() => [])
+      .then((definitions) => {
+        if (isMounted) {
+          setCustomFields(definitions);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+    void loadUserCategories().then((categories) => {
+      if (isMounted) {
+        setCategoryNames(
+          categories.filter((category) => !category.archived).map((category) => category.name)
+        );
       }
-      return parsedDate.getFullYear() === year && parsedDate.getMonth() === month;
     });
-  }, [tab, transactions]);
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const displayedTransactions = useMemo(
+    () => sortTransactions(filterTransactions(transactions, range, filters), layout.sort),
+    [filters, layout.sort, range, transactions]
+  );
+
+  const currencyOptions = useMemo(
+    () =>
+      [...new Set(transactions.map((item) => item.currency.toUpperCase()).filter(Boolean))].sort(),
+    [transactions]
+  );
+
+  // Backends that ignore the date range still page newest first; stop before the period.
+  const hasMore =
+    nextCursor !== null &&
+    !(
+      range !== null &&
+      layout.sort.key === "date" &&
+      layout.sort.direction === "desc" &&
+      transactions.length > 0 &&
+      (parseReceiptDate(transactions[transactions.length - 1].date)?.getTime() ?? 0) <
+        (parseReceiptDate(range.from)?.getTime() ?? 0)
+    );
+
+  const loadNextPage = useCallback(async () => {
+    if (!nextCursor || loadMoreStatus === "loading") {
+      return;
+    }
+    const requestId = requestIdRef.current;
+    try {
+      setLoadMoreStatus("loading");
+      const page = await fetchReceiptPage(pageQuery, nextCursor);
+      if (requestIdRef.current !== requestId) {
+        return;
+      }
+      setTransactions((current) => mergeTransactions(current, normalizeTransactions(page.items)));
+      setNextCursor(page.nextCursor);
+      setLoadMoreStatus("idle");
+    } catch {
+      if (requestIdRef.current === requestId) {
+        setLoadMoreStatus("error");
+      }
+    }
+  }, [loadMoreStatus, nextCursor, pageQuery]);
+
+  const handleSentinelVisible = useEffectEvent(() => {
+    if (hasMore && loadMoreStatus === "idle") {
+      void loadNextPage();
+    }
+  });
+
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          handleSentinelVisible();
+        }
+      },
+      { rootMargin: "800px 0px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, status, transactions.length]);
 
   const grouped = useMemo(
     () => groupTransactionsByYearAndMonth(displayedTransactions),
@@ -314,36 +660,200 @@ export default function TransactionsClient() {
   );
 
   const totalSpent = useMemo(() => {
-    if (tab === "month") {
+    if (activePeriod === "month" && !isFiltered) {
       return formatAmount(stats.totalSpentThisMonth);
     }
+    if (pageTotals.amount !== null) {
+      return formatAmount(pageTotals.amount);
+    }
     const sum = displayedTransactions.reduce((acc, item) => acc + (item.amount ?? 0), 0);
     return formatAmount(sum);
-  }, [displayedTransactions, stats.totalSpentThisMonth, tab]);
+  }, [
+    activePeriod,
+    displayedTransactions,
+    isFiltered,
+    pageTotals.amount,
+    stats.totalSpentThisMonth,
+  ]);
 
+  const matchingCount = pageTotals.count ?? (hasMore ? null : displayedTransactions.length);
   const totalCount =
-    tab === "month"
-      ? (stats.receiptsProcessedThisMonth ?? displayedTransactions.length)
-      : displayedTransactions.length;
+    activePeriod === "month" && !isFiltered
+      ? (stats.receiptsProcessedThisMonth ?? matchingCount ?? displayedTransactions.length)
+      : (matchingCount ?? `${displayedTransactions.length}+`);
+  const manualCount = displayedTransactions.filter((item) => item.isManual).length;
+
+  const selectedCount = allMatching
+    ? Math.max((matchingCount ?? displayedTransactions.length) - excludedIds.length, 0)
+    : selectedIds.length;
+  const hasSelection = allMatching || selectedIds.length > 0;
+
+  const isSelected = (id: string) =>
+    allMatching ? !excludedIds.includes(id) : selectedIds.includes(id);
 
   const toggleSelect = (id: string) => {
-    setSelectedIds((current) =>
-      current.includes(id) ? current.filter((item) => item !== id) : [...current, id]
+    const toggle = (current: string[]) =>
+      current.includes(id) ? current.filter((item) => item !== id) : [...current, id];
+    if (allMatching) {
+      setExcludedIds(toggle);
+    } else {
+      setSelectedIds(toggle);
+    }
+  };
+
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setAllMatching(false);
+    setExcludedIds([]);
+  };
+
+  const handleSelectAllMatching = () => {
+    setSelectedIds([]);
+    setExcludedIds([]);
+    setAllMatching(true);
+  };
+
+  const handleTabChange = (nextTab: "month" | "all") => {
+    if (nextTab === tab && !activeViewId) {
+      return;
+    }
+    // Only the current tab's receipts are loaded, so a selection does not carry over.
+    clearSelection();
+    setTab(nextTab);
+    if (activeViewId) {
+      // Leaving a view leaves its filters and layout behind too.
+      setActiveViewId(null);
+      setViewLayout(null);
+      applyFilters(EMPTY_TRANSACTION_FILTERS);
+    }
+  };
+
+  const applyFilters = (nextFilters: TransactionFilters) => {
+    // Rows outside the new filters would stay selected without being visible.
+    clearSelection();
+    setFilters(nextFilters);
+    setSearchInput(nextFilters.q);
+    setFilterPanelOpen(false);
+  };
+
+  const savePreferences = (nextPreferences: TransactionPreferences) => {
+    setPreferences(nextPreferences);
+    if (savePreferencesTimeoutRef.current !== null) {
+      window.clearTimeout(savePreferencesTimeoutRef.current);
+    }
+    // Column drags and quick sort changes are saved once they settle.
+    savePreferencesTimeoutRef.current = window.setTimeout(() => {
+      savePreferencesTimeoutRef.current = null;
+      setLayoutMessage("");
+      saveTransactionPreferences(nextPreferences).catch(() => {
+        setLayoutMessage("Your layout could not be saved and applies to this visit only.");
+      });
+    }, 500);
+  };
+
+  /** Applies to the open view until it is saved, otherwise to the user's own layout. */
+  const updateLayout = (changes: Partial<TransactionLayout>) => {
+    if (activeViewId) {
+      setViewLayout({ ...layout, ...changes });
+      return;
+    }
+    savePreferences({ ...preferences, ...changes });
+  };
+
+  const handleSort = (key: TransactionSortKey) => {
+    updateLayout({
+      sort:
+        layout.sort.key === key
+          ? { key, direction: layout.sort.direction === "asc" ? "desc" : "asc" }
+          : { key, direction: getDefaultDirection(key) },
+    });
+  };
+
+  const handleResizeColumn = (column: keyof TransactionColumnWidths, width: number) => {
+    savePreferences({
+      ...preferences,
+      columnWidths: { ...preferences.columnWidths, [column]: width },
+    });
+  };
+
+  const toggleColumn = (column: TransactionColumn) => {
+    updateLayout({
+      columns: layout.columns.includes(column)
+        ? layout.columns.filter((entry) => entry !== column)
+        : TRANSACTION_COLUMN_OPTIONS.map((option) => option.value).filter(
+            (entry) => entry === column || layout.columns.includes(entry)
+          ),
+    });
+  };
+
+  const getReceiptHref = (item: Transaction) =>
+    `/receipts/${item.id}?from=transactions&back=${encodeURIComponent(listQuery)}`;
+
+  const openView = (view: SavedView) => {
+    clearSelection();
+    setActiveViewId(view.id);
+    setViewLayout(view.layout);
+    setFilters(view.filters);
+    setSearchInput(view.filters.q);
+    setFilterPanelOpen(false);
+    setViewsPanelOpen(false);
+  };
+
+  const handleCreateView = async (input: SavedViewInput) => {
+    const view = await createSavedView(input);
+    setSavedViews((current) => [...current, { ...view, position: current.length }]);
+    openView(view);
+  };
+
+  const handleUpdateView = async (view: SavedView, changes: Partial<SavedViewInput>) => {
+    await updateSavedView(view.id, changes);
+    setSavedViews((current) =>
+      current.map((entry) => (entry.id === view.id ? { ...entry, ...changes } : entry))
     );
+    setCountsVersion((current) => current + 1);
   };
 
-  const handleDelete = () => {
-    if (selectedIds.length === 0 || bulkDeleteStatus === "deleting") {
+  const handleDeleteView = async (view: SavedView) => {
+    await deleteSavedView(view.id);
+    setSavedViews((current) => current.filter((entry) => entry.id !== view.id));
+    if (view.id === activeViewId) {
+      handleTabChange(tab);
+    }
+  };
+
+  const commitSearch = useEffectEvent((q: string) => {
+    applyFilters({ ...filters, q });
+  });
+
+  useEffect(() => {
+    const q = searchInput.trim();
+    if (q === filters.q) {
       return;
     }
+    const timeoutId = window.setTimeout(() => commitSearch(q), 300);
+    return () => window.clearTimeout(timeoutId);
+  }, [filters.q, searchInput]);
+
+  // "Select all matching" with pages still unloaded is resolved by the server from the
+  // list's query; otherwise the selection is among the loaded rows.
+  const isSelectionByQuery = allMatching && hasMore;
 
-    const parsedIds = selectedIds
-      .map((id) => Number(id))
-      .filter((id) => Number.isInteger(id) && id > 0);
+  const resolveLoadedSelection = () =>
+    allMatching
+      ? displayedTransactions.filter((item) => !excludedIds.includes(item.id))
+      : transactions.filter((item) => selectedIds.includes(item.id));
 
-    if (parsedIds.length !== selectedIds.length) {
-      setBulkDeleteStatus("error");
-      setBulkDeleteMessage("Some selected receipts have invalid ids and cannot be deleted.");
+  const handleDelete = () => {
+    if (!hasSelection || bulkDeleteStatus === "deleting") {
+      return;
+    }
+    if (
+      allMatching &&
+      !window.confirm(
+        `Delete ${matchingCount === null ? "all matching" : selectedCount} receipt(s)? ` +
+          "This cannot be undone."
+      )
+    ) {
       return;
     }
 
@@ -352,13 +862,28 @@ export default function TransactionsClient() {
         setBulkDeleteStatus("deleting");
         setBulkDeleteMessage("");
 
+        const isByQuery = isSelectionByQuery;
+        let target: Record<string, unknown>;
+        if (isByQuery) {
+          target = {
+            query: toReceiptFilterQuery(filters, range),
+            excludedIds: toReceiptIds(excludedIds),
+          };
+        } else {
+          const parsedIds = toReceiptIds(resolveLoadedSelection().map((item) => item.id));
+          if (parsedIds.length === 0) {
+            throw new Error("No receipts match the selection.");
+          }
+          target = { ids: parsedIds };
+        }
+
         const response = await authFetch("/api/receipts", {
           method: "DELETE",
           headers: {
             "Content-Type": "application/json",
           },
           cache: "no-store",
-          body: JSON.stringify({ ids: parsedIds }),
+          body: JSON.stringify(target),
         });
         const payload = await response.json().catch(() => null);
         const payloadObject = toObject(payload);
@@ -378,10 +903,21 @@ export default function TransactionsClient() {
           .map((value) => Number(value))
           .filter((value) => Number.isInteger(value));
 
-        setTransactions((current) =>
-          current.filter((item) => !deletedIds.includes(Number(item.id)))
-        );
-        setSelectedIds([]);
+        if (isByQuery) {
+          // The deleted rows are not all loaded; start the list over.
+          setListVersion((current) => current + 1);
+        } else {
+          setTransactions((current) =>
+            current.filter((item) => !deletedIds.includes(Number(item.id)))
+          );
+          setPageTotals((current) => ({
+            count:
+              current.count === null ? null : Math.max(current.count - deletedIds.length, 0),
+            amount: null,
+          }));
+        }
+        clearSelection();
+        setCountsVersion((current) => current + 1);
         setBulkDeleteStatus("success");
         setBulkDeleteMessage(
           typeof payloadObject.deletedCount === "number"
@@ -400,56 +936,28 @@ export default function TransactionsClient() {
   };
 
   const handleExport = () => {
-    if (selectedIds.length === 0) {
-      return;
+    if (hasSelection) {
+      setExportMessage("");
+      setExportOpen(true);
     }
+  };
 
-    const exportRows = transactions.filter((item) => selectedIds.includes(item.id));
-    const escapeCsvValue = (value: string | number | null) => {
-      if (value === null) {
-        return "";
-      }
-      const text = String(value);
-      if (text.includes(",") || text.includes("\"") || text.includes("\n")) {
-        return `"${text.replace(/"/g, "\"\"")}"`;
-      }
-      return text;
-    };
-
-    const csv = [
-      "id,merchant,amount,date",
-      ...exportRows.map((item) =>
-        [
-          escapeCsvValue(item.id),
-          escapeCsvValue(item.merchant),
-          escapeCsvValue(item.amount),
-          escapeCsvValue(item.date),
-        ].join(",")
-      ),
-    ].join("\n");
-
-    const today = new Date();
-    const fileDate = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, "0")}-${String(
-      today.getDate()
-    ).padStart(2, "0")}`;
-    const fileName = `transactions-${fileDate}.csv`;
-    const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8;" });
-
-    const shareWithSystem = async () => {
+  const runExport = async (options: ExportOptions) => {
+    const shareWithSystem = async (file: ExportFile) => {
       if (typeof navigator === "undefined" || typeof navigator.share !== "function") {
         return false;
       }
       try {
-        const file = new File([blob], fileName, { type: "text/csv;charset=utf-8;" });
+        const shared = new File([file.blob], file.fileName, { type: file.blob.type });
         if (
           typeof navigator.canShare === "function" &&
-          !navigator.canShare({ files: [file] })
+          !navigator.canShare({ files: [shared] })
         ) {
           return false;
         }
         await navigator.share({
-          title: "Transactions CSV",
-          files: [file],
+          title: "Transactions export",
+          files: [shared],
         });
         return true;
       } catch {
@@ -457,29 +965,32 @@ export default function TransactionsClient() {
       }
     };
 
-    const downloadFile = () => {
-      const url = URL.createObjectURL(blob);
+    const downloadFile = (file: ExportFile) => {
+      const url = URL.createObjectURL(file.blob);
       const anchor = document.createElement("a");
       anchor.href = url;
-      anchor.download = fileName;
+      anchor.download = file.fileName;
       document.body.appendChild(anchor);
       anchor.click();
       document.body.removeChild(anchor);
       window.setTimeout(() => URL.revokeObjectURL(url), 1000);
     };
 
-    const exportCsv = async () => {
-      setExportMessage("");
-      const shared = await shareWithSystem();
-      if (shared) {
-        setExportMessage("Exported successfully.");
-        return;
-      }
-      downloadFile();
-      setExportMessage("CSV download started.");
-    };
-
-    void exportCsv();
+    const file = isSelectionByQuery
+      ? await requestExportFile(pageQuery, toReceiptIds(excludedIds), options)
+      : buildExportFile(resolveLoadedSelection(), options, customFields);
+    const skippedNote =
+      file.skippedCount > 0
+        ? ` ${file.skippedCount} receipt(s) without a date or amount were left out.`
+        : "";
+    const shared = await shareWithSystem(file);
+    if (!shared) {
+      downloadFile(file);
+    }
+    setExportOpen(false);
+    setExportMessage(
+      `${shared ? "Exported successfully." : `${file.fileName} download started.`}${skippedNote}`
+    );
   };
 
   return (
@@ -494,19 +1005,126 @@ export default function TransactionsClient() {
 
         <section className={styles.filters}>
           <button
-            className={`${styles.filterButton} ${tab === "month" ? styles.filterButtonActive : ""}`}
+            className={`${styles.filterButton} ${
+              !activeViewId && tab === "month" ? styles.filterButtonActive : ""
+            }`}
             type="button"
-            onClick={() => setTab("month")}
+            onClick={() => handleTabChange("month")}
           >
             This Month
           </button>
           <button
-            className={`${styles.filterButton} ${tab === "all" ? styles.filterButtonActive : ""}`}
+            className={`${styles.filterButton} ${
+              !activeViewId && tab === "all" ? styles.filterButtonActive : ""
+            }`}
             type="button"
-            onClick={() => setTab("all")}
+            onClick={() => handleTabChange("all")}
           >
             All
           </button>
+          {pinnedViews.map((view) => (
+            <button
+              className={`${styles.filterButton} ${
+                view.id === activeViewId ? styles.filterButtonActive : ""
+              }`}
+              type="button"
+              key={view.id}
+              onClick={() => openView(view)}
+            >
+              {view.name}
+              {viewCounts[view.id] !== undefined && (
+                <span className={styles.viewBadge}>{viewCounts[view.id]}</span>
+              )}
+            </button>
+          ))}
+          {activeView && !activeView.pinned && (
+            <button
+              className={`${styles.filterButton} ${styles.filterButtonActive}`}
+              type="button"
+              onClick={() => setViewsPanelOpen(true)}
+            >
+              {activeView.name}
+            </button>
+          )}
+          <button
+            className={`${styles.filterButton} ${styles.viewsButton}`}
+            type="button"
+            onClick={() => setViewsPanelOpen((current) => !current)}
+            aria-expanded={viewsPanelOpen}
+            disabled={viewsStatus !== "ready"}
+            title={viewsStatus === "error" ? "Saved views could not be loaded." : undefined}
+          >
+            Views{isViewModified ? " •" : ""}
+          </button>
+        </section>
+
+        {viewsPanelOpen && (
+          <SavedViewsPanel
+            views={savedViews}
+            activeView={activeView}
+            filters={filters}
+            layout={layout}
+            defaultPeriod={activePeriod}
+            onOpen={openView}
+            onCreate={handleCreateView}
+            onUpdate={handleUpdateView}
+            onDelete={handleDeleteView}
+            onClose={() => setViewsPanelOpen(false)}
+          />
+        )}
+
+        <section className={styles.searchSection}>
+          <div className={styles.searchRow}>
+            <input
+              className={styles.searchInput}
+              type="search"
+              value={searchInput}
+              onChange={(event) => setSearchInput(event.target.value)}
+              placeholder="Search merchant, items or notes"
+              aria-label="Search transactions"
+            />
+            <button
+              className={`${styles.filterButton} ${
+                filterPanelOpen || activeFilterCount > 0 ? styles.filterButtonActive : ""
+              }`}
+              type="button"
+              onClick={() => setFilterPanelOpen((current) => !current)}
+              aria-expanded={filterPanelOpen}
+            >
+              Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ""}
+            </button>
+          </div>
+          {filterPanelOpen && (
+            <TransactionFilterPanel
+              filters={filters}
+              categories={categoryNames}
+              currencies={currencyOptions}
+              onApply={applyFilters}
+              onClose={() => setFilterPanelOpen(false)}
+            />
+          )}
+          {activeFilterCount > 0 && (
+            <div className={styles.activeFilters}>
+              {describeTransactionFilters(filters).map((filter) => (
+                <button
+                  className={styles.activeFilter}
+                  type="button"
+                  key={filter.key}
+                  onClick={() => applyFilters({ ...filters, [filter.key]: "" })}
+                  aria-label={`Remove filter ${filter.label}`}
+                >
+                  {filter.label} ×
+                </button>
+              ))}
+              <button
+                className={styles.clearFilters}
+                type="button"
+                onClick={() => applyFilters(EMPTY_TRANSACTION_FILTERS)}
+              >
+                Clear all
+              </button>
+            </div>
+          )}
         </section>
 
         <section className={styles.stats}>
@@ -517,62 +1135,204 @@ export default function TransactionsClient() {
           <article className={styles.statCard}>
             <p>Receipts</p>
             <h2>{totalCount}</h2>
+            {manualCount > 0 && <span className={styles.statNote}>{manualCount} manual</span>}
           </article>
         </section>
 
+        <section className={styles.listToolbar}>
+          <label className={styles.sortField}>
+            <span>Sort</span>
+            <select
+              value={layout.sort.key}
+              onChange={(event) => {
+                const key = event.target.value as TransactionSortKey;
+                updateLayout({ sort: { key, direction: getDefaultDirection(key) } });
+              }}
+            >
+              {TRANSACTION_SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            className={styles.toolbarButton}
+            type="button"
+            onClick={() => handleSort(layout.sort.key)}
+            aria-label={layout.sort.direction === "asc" ? "Sort descending" : "Sort ascending"}
+          >
+            {layout.sort.direction === "asc" ? "↑ Asc" : "↓ Desc"}
+          </button>
+          <div className={styles.layoutToggle} role="group" aria-label="Layout">
+            <button
+              className={layout.mode === "grouped" ? styles.layoutToggleActive : ""}
+              type="button"
+              onClick={() => updateLayout({ mode: "grouped" })}
+              aria-pressed={layout.mode === "grouped"}
+            >
+              Cards
+            </button>
+            <button
+              className={layout.mode === "table" ? styles.layoutToggleActive : ""}
+              type="button"
+              onClick={() => updateLayout({ mode: "table" })}
+              aria-pressed={layout.mode === "table"}
+            >
+              Table
+            </button>
+          </div>
+          {layout.mode === "table" && (
+            <div className={styles.columnsMenu}>
+              <button
+                className={styles.toolbarButton}
+                type="button"
+                onClick={() => setColumnsMenuOpen((current) => !current)}
+                aria-expanded={columnsMenuOpen}
+              >
+                Columns
+              </button>
+              {columnsMenuOpen && (
+                <div className={styles.columnsMenuList}>
+                  {TRANSACTION_COLUMN_OPTIONS.map((option) => (
+                    <label className={styles.viewsCheck} key={option.value}>
+                      <input
+                        type="checkbox"
+                        checked={layout.columns.includes(option.value)}
+                        onChange={() => toggleColumn(option.value)}
+                      />
+                      <span>{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+        {layoutMessage && <p className={styles.filterMessage}>{layoutMessage}</p>}
+
         {status === "loading" && <div className={styles.status}>Loading transactions...</div>}
         {status === "error" && (
           <div className={styles.status}>Failed to load transactions. Please refresh.</div>
         )}
 
         {status === "success" && grouped.length === 0 && (
-          <div className={styles.status}>No transactions yet.</div>
+          <div className={styles.status}>
+            {isFiltered ? "No transactions match these filters." : "No transactions yet."}
+          </div>
         )}
 
         {status === "success" && grouped.length > 0 && (
-          <section className={styles.listSection}>
-            {grouped.map((yearGroup) => (
-              <div key={yearGroup.year}>
-                <h3 className={styles.yearTitle}>{yearGroup.year}</h3>
-                {yearGroup.months.map((monthGroup) => (
-                  <article className={styles.monthCard} key={`${yearGroup.year}-${monthGroup.month}`}>
-                    <h4 className={styles.monthTitle}>{monthGroup.month}</h4>
-                    <div className={styles.monthList}>
-                      {monthGroup.items.map((item, index) => (
-                        <div className={styles.transactionRow} key={item.id}>
-                          <Link
-                            className={styles.rowText}
-                            href={`/receipts/${item.id}?from=transactions&tab=${tab}`}
-                            prefetch
-                          >
-                            <span className={styles.merchant}>{item.merchant}</span>
-                            <span className={styles.meta}>
-                              {formatAmount(item.amount)} · {getDateLabel(item.date)}
-                            </span>
-                          </Link>
-                          <input
-                            className={styles.checkbox}
-                            type="checkbox"
-                            checked={selectedIds.includes(item.id)}
-                            onChange={() => toggleSelect(item.id)}
-                            aria-label={`Select ${item.merchant}`}
-                          />
-                          {index < monthGroup.items.length - 1 && <div className={styles.separator} />}
-                        </div>
-                      ))}
-                    </div>
-                  </article>
-                ))}
+          <>
+            {hasSelection && (
+              <div className={styles.selectionBar}>
+                <span>
+                  {allMatching && matchingCount === null
+                    ? "All matching receipts selected"
+                    : `${selectedCount} selected`}
+                </span>
+                {!allMatching && (
+                  <button type="button" onClick={handleSelectAllMatching}>
+                    Select all{matchingCount !== null ? ` ${matchingCount}` : ""} matching
+                  </button>
+                )}
+                <button type="button" onClick={clearSelection}>
+                  Clear
+                </button>
               </div>
-            ))}
-          </section>
+            )}
+            {layout.mode === "table" ? (
+              <TransactionTable
+                transactions={displayedTransactions}
+                columns={layout.columns}
+                columnWidths={preferences.columnWidths}
+                sort={layout.sort}
+                getKey={getTransactionKey}
+                getHref={getReceiptHref}
+                isSelected={isSelected}
+                formatAmount={formatAmount}
+                formatDate={getDateLabel}
+                onSort={handleSort}
+                onResize={handleResizeColumn}
+                onToggleSelect={toggleSelect}
+              />
+            ) : (
+              <VirtualTransactionList
+                groups={grouped}
+                getKey={getTransactionKey}
+                renderItem={(item, isLastInMonth) => (
+                  <div className={styles.transactionRow}>
+                    <Link
+                      className={styles.rowText}
+                      href={getReceiptHref(item)}
+                      prefetch
+                    >
+                      <span className={styles.merchant}>{item.merchant}</span>
+                      <span className={styles.meta}>
+                        {formatAmount(item.amount)} · {getDateLabel(item.date)}
+                      </span>
+                      {(item.isManual ||
+                        item.tags.length > 0 ||
+                        customFields.some((field) => item.customFields[field.id])) && (
+                        <span className={styles.chips}>
+                          {item.isManual && (
+                            <span className={`${styles.chip} ${styles.manualChip}`}>Manual</span>
+                          )}
+                          {item.tags.map((tag) => (
+                            <span className={styles.chip} key={`tag-${tag}`}>
+                              {tag}
+                            </span>
+                          ))}
+                          {customFields
+                            .filter((field) => item.customFields[field.id])
+                            .map((field) => (
+                              <span
+                                className={`${styles.chip} ${styles.fieldChip}`}
+                                key={`field-${field.id}`}
+                              >
+                                {field.name}:{" "}
+                                {formatCustomFieldValue(field, item.customFields[field.id])}
+                              </span>
+                            ))}
+                        </span>
+                      )}
+                      {item.notes.trim() && <span className={styles.notes}>{item.notes}</span>}
+                    </Link>
+                    <input
+                      className={styles.checkbox}
+                      type="checkbox"
+                      checked={isSelected(item.id)}
+                      onChange={() => toggleSelect(item.id)}
+                      aria-label={`Select ${item.merchant}`}
+                    />
+                    {!isLastInMonth && <div className={styles.separator} />}
+                  </div>
+                )}
+              />
+            )}
+          </>
+        )}
+
+        {status === "success" && hasMore && (
+          <div className={styles.loadMore} ref={loadMoreSentinelRef}>
+            {loadMoreStatus === "error" ? (
+              <>
+                <span>Failed to load more transactions.</span>
+                <button type="button" onClick={() => void loadNextPage()}>
+                  Retry
+                </button>
+              </>
+            ) : (
+              <span>{loadMoreStatus === "loading" ? "Loading more..." : ""}</span>
+            )}
+          </div>
         )}
 
         <footer className={styles.actions}>
           <button
             className={styles.deleteButton}
             type="button"
-            disabled={selectedIds.length === 0 || bulkDeleteStatus === "deleting"}
+            disabled={!hasSelection || bulkDeleteStatus === "deleting"}
             onClick={handleDelete}
           >
             {bulkDeleteStatus === "deleting" ? "Deleting..." : "Delete"}
@@ -580,7 +1340,7 @@ export default function TransactionsClient() {
           <button
             className={styles.exportButton}
             type="button"
-            disabled={selectedIds.length === 0}
+            disabled={!hasSelection}
             onClick={handleExport}
           >
             Export
@@ -596,6 +1356,14 @@ export default function TransactionsClient() {
           </p>
         )}
         {exportMessage && <p className={styles.actionMessage}>{exportMessage}</p>}
+        {exportOpen && (
+          <ExportDialog
+            selectedCount={allMatching && matchingCount === null ? null : selectedCount}
+            customFields={customFields}
+            onExport={runExport}
+            onClose={() => setExportOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
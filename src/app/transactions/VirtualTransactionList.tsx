@@ -0,0 +1,236 @@
+"use client";
+
+import { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import styles from "./page.module.css";
+
+export type TransactionGroup<T> = {
+  year: string;
+  months: { month: string; items: T[] }[];
+};
+
+type VirtualTransactionListProps<T> = {
+  groups: TransactionGroup<T>[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, isLastInMonth: boolean) => ReactNode;
+  // Table mode: items only, without the year and month headings.
+  flat?: boolean;
+};
+
+type ListRow<T> =
+  | { type: "year"; key: string; year: string }
+  | { type: "month"; key: string; year: string; month: string }
+  | { type: "item"; key: string; year: string; month: string; item: T; isLast: boolean };
+
+// Used until a row has been measured; rows are laid out by their measured height after.
+const ESTIMATED_ROW_HEIGHTS: Record<ListRow<unknown>["type"], number> = {
+  year: 48,
+  month: 54,
+  item: 72,
+};
+// Extra distance rendered above and below the viewport so fast scrolling does not flash.
+const OVERSCAN_PX = 800;
+
+function flattenGroups<T>(
+  groups: TransactionGroup<T>[],
+  getKey: (item: T) => string,
+  flat: boolean
+) {
+  const rows: ListRow<T>[] = [];
+  for (const yearGroup of groups) {
+    if (!flat) {
+      rows.push({ type: "year", key: `year-${yearGroup.year}`, year: yearGroup.year });
+    }
+    for (const monthGroup of yearGroup.months) {
+      const monthKey = `${yearGroup.year}-${monthGroup.month}`;
+      if (!flat) {
+        rows.push({
+          type: "month",
+          key: `month-${monthKey}`,
+          year: yearGroup.year,
+          month: monthGroup.month,
+        });
+      }
+      monthGroup.items.forEach((item, index) => {
+        rows.push({
+          type: "item",
+          key: `item-${getKey(item)}`,
+          year: yearGroup.year,
+          month: monthGroup.month,
+          item,
+          isLast: index === monthGroup.items.length - 1,
+        });
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Renders only the rows near the viewport of a year/month grouped list that scrolls with
+ * the window. The month being scrolled through stays pinned at the top.
+ */
+export default function VirtualTransactionList<T>({
+  groups,
+  getKey,
+  renderItem,
+  flat = false,
+}: VirtualTransactionListProps<T>) {
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [rowHeights, setRowHeights] = useState<Record<string, number>>({});
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  const rows = useMemo(() => flattenGroups(groups, getKey, flat), [flat, getKey, groups]);
+
+  const offsets = useMemo(() => {
+    const nextOffsets = [0];
+    for (const row of rows) {
+      const height = rowHeights[row.key] ?? ESTIMATED_ROW_HEIGHTS[row.type];
+      nextOffsets.push(nextOffsets[nextOffsets.length - 1] + height);
+    }
+    return nextOffsets;
+  }, [rowHeights, rows]);
+
+  useEffect(() => {
+    let frameId = 0;
+    const update = () => {
+      frameId = 0;
+      const list = listRef.current;
+      if (!list) {
+        return;
+      }
+      const top = -list.getBoundingClientRect().top;
+      const height = window.innerHeight;
+      setViewport((current) =>
+        current.top === top && current.height === height ? current : { top, height }
+      );
+    };
+    const scheduleUpdate = () => {
+      if (!frameId) {
+        frameId = window.requestAnimationFrame(update);
+      }
+    };
+
+    update();
+    window.addEventListener("scroll", scheduleUpdate, { passive: true });
+    window.addEventListener("resize", scheduleUpdate);
+    return () => {
+      window.removeEventListener("scroll", scheduleUpdate);
+      window.removeEventListener("resize", scheduleUpdate);
+      if (frameId) {
+        window.cancelAnimationFrame(frameId);
+      }
+    };
+  }, []);
+
+  useEffect(
+    () => () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    },
+    []
+  );
+
+  const measureRow = useCallback((element: HTMLDivElement | null) => {
+    if (!element) {
+      return;
+    }
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver((entries) => {
+        setRowHeights((current) => {
+          let next = current;
+          for (const entry of entries) {
+            const target = entry.target as HTMLElement;
+            const key = target.dataset.rowKey;
+            const height = target.offsetHeight;
+            if (key && height > 0 && current[key] !== height) {
+              next = next === current ? { ...current } : next;
+              next[key] = height;
+            }
+          }
+          return next;
+        });
+      });
+    }
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  const totalHeight = offsets[offsets.length - 1];
+  const windowTop = viewport.top - OVERSCAN_PX;
+  const windowBottom = viewport.top + Math.max(viewport.height, 800) + OVERSCAN_PX;
+
+  // First row whose bottom edge is below the top of the render window.
+  let startIndex = rows.length;
+  let low = 0;
+  let high = rows.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (offsets[middle + 1] <= windowTop) {
+      low = middle + 1;
+    } else {
+      startIndex = middle;
+      high = middle - 1;
+    }
+  }
+  let endIndex = startIndex;
+  while (endIndex < rows.length && offsets[endIndex] < windowBottom) {
+    endIndex += 1;
+  }
+
+  // The month of the row at the top of the viewport, pinned while scrolling through it.
+  let pinnedRow: ListRow<T> | null = null;
+  if (!flat && viewport.top > 0) {
+    for (let index = 0; index < rows.length; index += 1) {
+      if (offsets[index + 1] > viewport.top) {
+        pinnedRow = rows[index];
+        break;
+      }
+    }
+  }
+
+  return (
+    <div ref={listRef} className={styles.virtualList} style={{ height: totalHeight }}>
+      {pinnedRow?.type === "item" && (
+        <div className={styles.stickyHeader} aria-hidden="true">
+          <span className={styles.stickyHeaderLabel}>
+            {pinnedRow.month} {pinnedRow.year}
+          </span>
+        </div>
+      )}
+      <div
+        className={styles.virtualWindow}
+        style={{ transform: `translateY(${offsets[startIndex] ?? 0}px)` }}
+      >
+        {rows.slice(startIndex, endIndex).map((row) => (
+          // Rows are measured by their outer box, so spacing lives in padding, not margins.
+          <div
+            className={
+              !flat && row.type === "item" && row.isLast ? styles.virtualRowLast : undefined
+            }
+            data-row-key={row.key}
+            key={row.key}
+            ref={measureRow}
+          >
+            {row.type === "year" ? (
+              <h3 className={`${styles.yearTitle} ${styles.yearRow}`}>{row.year}</h3>
+            ) : row.type === "month" ? (
+              <div className={styles.monthCardTop}>
+                <h4 className={styles.monthTitle}>{row.month}</h4>
+              </div>
+            ) : flat ? (
+              renderItem(row.item, row.isLast)
+            ) : (
+              <div
+                className={`${styles.monthCardRow} ${row.isLast ? styles.monthCardBottom : ""}`}
+              >
+                {renderItem(row.item, row.isLast)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 "use client";
 
+import { clearOfflineReceipts } from "./offline-receipts";
+import { clearAllReceiptDrafts } from "./receipt-drafts";
+
 const AUTH_COOKIE = "auth_token";
 const EXPIRED_COOKIE = "Thu, 01 Jan 1970 00:00:00 GMT";
 
+let currentUser: { token: string; id: Promise<string | null> } | null = null;
+
 export function getAuthTokenFromCookie() {
   if (typeof document === "undefined") {
     return "";
@@ -34,6 +39,16 @@ export function logoutAndRedirect() {
   redirectToLogin();
 }
 
+/**
+ * Explicit sign-out. Unlike an expired session, it also drops unsaved drafts and receipts
+ * queued offline, so the next person on this device is not offered or sent them.
+ */
+export async function signOut() {
+  clearAllReceiptDrafts();
+  await clearOfflineReceipts().catch(() => undefined);
+  logoutAndRedirect();
+}
+
 export function handleUnauthorizedResponse(response: Response) {
   if (response.status !== 401 && response.status !== 403) {
     return false;
@@ -58,3 +73,38 @@ export async function authFetch(input: RequestInfo | URL, init?: RequestInit) {
   handleUnauthorizedResponse(response);
   return response;
 }
+
+/**
+ * Id of the signed-in user, fetched once per session token. Data kept on the device is
+ * stored under it so people sharing a browser do not see each other's entries.
+ */
+export function fetchCurrentUserId(): Promise<string | null> {
+  const token = getAuthTokenFromCookie();
+  if (!token) {
+    return Promise.resolve(null);
+  }
+  if (currentUser?.token !== token) {
+    const id = authFetch("/api/users/me", { method: "GET", cache: "no-store" })
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        const user =
+          typeof payload === "object" && payload !== null
+            ? (payload as Record<string, unknown>)
+            : {};
+        const rawId = user.userId ?? user.id ?? user._id;
+        return response.ok && (typeof rawId === "string" || typeof rawId === "number")
+          ? String(rawId)
+          : null;
+      })
+      .catch(() => null)
+      .then((userId) => {
+        // Try again next time instead of remembering a failed lookup.
+        if (userId === null && currentUser?.id === id) {
+          currentUser = null;
+        }
+        return userId;
+      });
+    currentUser = { token, id };
+  }
+  return currentUser.id;
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+import { fetchAllReceipts } from "./receipt-pages";
+
+// Receipts whose items fall into more than one category are stored with this category;
+// their amounts are allocated per item instead.
+export const MIXED_CATEGORY = "Mixed";
+const FALLBACK_CATEGORY = "Other";
+// Receipts are fetched one by one for their items; keep only a few requests in flight.
+const MAX_CONCURRENT_RECEIPT_REQUESTS = 4;
+
+export type CategoryAmount = {
+  category: string;
+  amount: number;
+};
+
+export type CategorizedItem = {
+  category: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  totalPrice: number | null;
+};
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Receipt-level category implied by its items: items without their own category use
+ * `defaultCategory`, and more than one distinct category makes the receipt mixed.
+ */
+export function deriveReceiptCategory(defaultCategory: string, itemCategories: string[]) {
+  const categories = new Set(
+    (itemCategories.length > 0 ? itemCategories : [""]).map(
+      (category) => category || defaultCategory
+    )
+  );
+  return categories.size > 1 ? MIXED_CATEGORY : [...categories][0] || FALLBACK_CATEGORY;
+}
+
+function itemAmount(item: CategorizedItem) {
+  if (item.totalPrice !== null) {
+    return item.totalPrice;
+  }
+  if (item.quantity !== null && item.unitPrice !== null) {
+    return item.quantity * item.unitPrice;
+  }
+  return 0;
+}
+
+/**
+ * Splits a receipt total across its item categories. Tax and anything else not on an
+ * item line is spread in proportion to the item amounts.
+ */
+export function allocateReceiptByItems(
+  total: number | null,
+  items: CategorizedItem[],
+  fallbackCategory = FALLBACK_CATEGORY
+) {
+  const allocation = new Map<string, number>();
+  const itemsSum = items.reduce((sum, item) => sum + Math.max(itemAmount(item), 0), 0);
+  const receiptTotal = total ?? itemsSum;
+
+  if (itemsSum <= 0) {
+    if (receiptTotal > 0) {
+      allocation.set(fallbackCategory, receiptTotal);
+    }
+    return allocation;
+  }
+
+  for (const item of items) {
+    const amount = Math.max(itemAmount(item), 0);
+    if (amount <= 0) {
+      continue;
+    }
+    const category = item.category || fallbackCategory;
+    allocation.set(
+      category,
+      (allocation.get(category) ?? 0) + (amount / itemsSum) * receiptTotal
+    );
+  }
+  return allocation;
+}
+
+function readItems(receiptObject: Record<string, unknown>): CategorizedItem[] {
+  const itemsRaw = Array.isArray(receiptObject.items) ? receiptObject.items : [];
+  return itemsRaw
+    .map(toObject)
+    .filter((item): item is Record<string, unknown> => item !== null)
+    .map((item) => ({
+      category: toString(item.category),
+      quantity: toNumber(item.quantity),
+      unitPrice: toNumber(item.unitPrice),
+      totalPrice: toNumber(item.totalPrice),
+    }));
+}
+
+function isWithinRange(date: string, start: string, end: string) {
+  const day = date.slice(0, 10);
+  if (!day) {
+    return false;
+  }
+  return (!start || day >= start.slice(0, 10)) && (!end || day <= end.slice(0, 10));
+}
+
+async function fetchReceiptItems(receiptId: string) {
+  const response = await authFetch(`/api/receipts/${receiptId}`, {
+    method: "GET",
+    cache: "no-store",
+  });
+  const payload = await response.json().catch(() => null);
+  const payloadObject = toObject(payload);
+  if (!response.ok || !payloadObject) {
+    throw new Error("Failed to load receipt.");
+  }
+  return {
+    total: toNumber(payloadObject.total),
+    items: readItems(payloadObject),
+  };
+}
+
+async function mapWithConcurrency<T, R>(
+  values: T[],
+  limit: number,
+  mapper: (value: T) => Promise<R>
+) {
+  const results: R[] = new Array(values.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < values.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await mapper(values[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, values.length) }, worker));
+  return results;
+}
+
+/**
+ * Replaces the "Mixed" bucket of a by-category breakdown with per-item allocations of
+ * the mixed receipts in range. The result is scaled to the bucket's amount so category
+ * totals still add up to what the stats endpoint reported. Backends that allocate by item
+ * themselves (`allocate=items` on the stats request) send no "Mixed" bucket, so this is
+ * only the fallback for those that do not.
+ */
+export async function splitMixedCategory(
+  categories: CategoryAmount[],
+  range: { start: string; end: string }
+): Promise<CategoryAmount[]> {
+  const mixed = categories.find((entry) => entry.category === MIXED_CATEGORY);
+  if (!mixed || mixed.amount <= 0) {
+    return categories;
+  }
+
+  const query: Record<string, string> = { category: MIXED_CATEGORY };
+  if (range.start) {
+    query.from = range.start.slice(0, 10);
+  }
+  if (range.end) {
+    query.to = range.end.slice(0, 10);
+  }
+
+  const mixedReceiptIds = (await fetchAllReceipts(query))
+    .map(toObject)
+    .filter((receipt): receipt is Record<string, unknown> => receipt !== null)
+    .filter(
+      (receipt) =>
+        toString(receipt.category) === MIXED_CATEGORY &&
+        isWithinRange(
+          toString(receipt.receiptDate ?? receipt.transactionDate ?? receipt.date),
+          range.start,
+          range.end
+        )
+    )
+    .map((receipt) => receipt.receiptId ?? receipt.id ?? receipt._id)
+    .filter((id): id is string | number => typeof id === "string" || typeof id === "number")
+    .map(String);
+
+  const receipts = await mapWithConcurrency(
+    mixedReceiptIds,
+    MAX_CONCURRENT_RECEIPT_REQUESTS,
+    fetchReceiptItems
+  );
+  const allocation = new Map<string, number>();
+  for (const receipt of receipts) {
+    for (const [category, amount] of allocateReceiptByItems(receipt.total, receipt.items)) {
+      allocation.set(category, (allocation.get(category) ?? 0) + amount);
+    }
+  }
+
+  const allocatedTotal = [...allocation.values()].reduce((sum, amount) => sum + amount, 0);
+  if (allocatedTotal <= 0) {
+    return categories;
+  }
+
+  const scale = mixed.amount / allocatedTotal;
+  const merged = new Map<string, number>();
+  for (const entry of categories) {
+    if (entry.category !== MIXED_CATEGORY) {
+      merged.set(entry.category, entry.amount);
+    }
+  }
+  for (const [category, amount] of allocation) {
+    merged.set(category, (merged.get(category) ?? 0) + amount * scale);
+  }
+
+  return [...merged.entries()]
+    .map(([category, amount]) => ({ category, amount }))
+    .filter((entry) => entry.amount > 0)
+    .sort((left, right) => right.amount - left.amount);
+}
@@ -0,0 +1,168 @@
+"use client";
+
+export type ImagePreprocessOptions = {
+  maxEdge: number;
+  format: "image/jpeg" | "image/webp";
+  quality: number;
+  grayscale: boolean;
+};
+
+function readNumberEnv(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Mirrors the image size the parser is configured for; larger inputs only cost upload time.
+export const DEFAULT_IMAGE_PREPROCESS_OPTIONS: ImagePreprocessOptions = {
+  maxEdge: readNumberEnv(process.env.NEXT_PUBLIC_RECEIPT_IMAGE_MAX_EDGE, 2048),
+  format: process.env.NEXT_PUBLIC_RECEIPT_IMAGE_FORMAT === "image/webp" ? "image/webp" : "image/jpeg",
+  quality: Math.min(readNumberEnv(process.env.NEXT_PUBLIC_RECEIPT_IMAGE_QUALITY, 0.85), 1),
+  grayscale: process.env.NEXT_PUBLIC_RECEIPT_IMAGE_GRAYSCALE === "true",
+};
+
+const EXTENSION_BY_TYPE: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+type DecodedImage = {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  release: () => void;
+};
+
+// Both decoders apply the EXIF orientation, so the pixels we draw are already upright.
+async function decodeImage(file: File): Promise<DecodedImage> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+      return {
+        source: bitmap,
+        width: bitmap.width,
+        height: bitmap.height,
+        release: () => bitmap.close(),
+      };
+    } catch {
+      // Fall back to an <img> element, e.g. for browsers without ImageBitmap options.
+    }
+  }
+
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.decoding = "async";
+    image.src = objectUrl;
+    await image.decode();
+    return {
+      source: image,
+      width: image.naturalWidth,
+      height: image.naturalHeight,
+      release: () => URL.revokeObjectURL(objectUrl),
+    };
+  } catch (error) {
+    URL.revokeObjectURL(objectUrl);
+    throw error;
+  }
+}
+
+function applyGrayscale(context: CanvasRenderingContext2D, width: number, height: number) {
+  const imageData = context.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  for (let index = 0; index < data.length; index += 4) {
+    const luminance = Math.round(
+      data[index] * 0.299 + data[index + 1] * 0.587 + data[index + 2] * 0.114
+    );
+    data[index] = luminance;
+    data[index + 1] = luminance;
+    data[index + 2] = luminance;
+  }
+  context.putImageData(imageData, 0, 0);
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => {
+    canvas.toBlob(resolve, type, quality);
+  });
+}
+
+export function replaceFileExtension(fileName: string, extension: string) {
+  const baseName = fileName.replace(/\.[^./\\]+$/, "") || "receipt";
+  return `${baseName}.${extension}`;
+}
+
+function scaleToMaxEdge(width: number, height: number, maxEdge: number) {
+  const longestEdge = Math.max(width, height);
+  if (longestEdge <= maxEdge) {
+    return { width, height };
+  }
+  const scale = maxEdge / longestEdge;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+async function encodeCanvas(
+  canvas: HTMLCanvasElement,
+  fileName: string,
+  options: Pick<ImagePreprocessOptions, "format" | "quality">
+) {
+  let blob = await canvasToBlob(canvas, options.format, options.quality);
+  // Browsers without a WebP encoder silently hand back PNG; JPEG is always available.
+  if (!blob || blob.type !== options.format) {
+    blob = await canvasToBlob(canvas, "image/jpeg", options.quality);
+  }
+  if (!blob) {
+    return null;
+  }
+
+  const type = blob.type || "image/jpeg";
+  return new File([blob], replaceFileExtension(fileName, EXTENSION_BY_TYPE[type] ?? "jpg"), {
+    type,
+    lastModified: Date.now(),
+  });
+}
+
+/**
+ * Normalizes a captured receipt photo before upload: upright orientation, capped size,
+ * JPEG/WebP encoding and optional grayscale. Returns the original file when it is not
+ * an image or the browser cannot decode it, so the upload never fails here.
+ */
+export async function preprocessReceiptImage(
+  file: File,
+  options: ImagePreprocessOptions = DEFAULT_IMAGE_PREPROCESS_OPTIONS
+): Promise<File> {
+  if (!file.type.startsWith("image/") || file.type === "image/gif") {
+    return file;
+  }
+
+  let decoded: DecodedImage;
+  try {
+    decoded = await decodeImage(file);
+  } catch {
+    return file;
+  }
+
+  try {
+    const { width, height } = scaleToMaxEdge(decoded.width, decoded.height, options.maxEdge);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return file;
+    }
+
+    context.imageSmoothingQuality = "high";
+    context.drawImage(decoded.source, 0, 0, width, height);
+    if (options.grayscale) {
+      applyGrayscale(context, width, height);
+    }
+
+    const processed = await encodeCanvas(canvas, file.name, options);
+    return processed ?? file;
+  } finally {
+    decoded.release();
+  }
+}
@@ -0,0 +1,100 @@
+"use client";
+
+// Expenses entered by hand rather than parsed from an image: cash tips, parking meters,
+// lost receipts and mileage. They are created through the receipt editor at
+// /receipts/new and saved with `source: "manual"` and no image.
+
+export const NEW_RECEIPT_ID = "new";
+export const MANUAL_SOURCE = "manual";
+
+export type MileageUnit = "mi" | "km";
+
+export type MileageEntry = {
+  distance: number;
+  unit: MileageUnit;
+  rate: number;
+};
+
+const MILEAGE_RATE_STORAGE_KEY = "mileage_rate";
+// IRS standard business rate for 2025, in dollars per mile.
+const FALLBACK_MILEAGE_RATE = 0.7;
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function readMileageUnit(value: unknown): MileageUnit {
+  return value === "km" ? "km" : "mi";
+}
+
+/**
+ * The last rate and unit used on this device, else NEXT_PUBLIC_MILEAGE_RATE and
+ * NEXT_PUBLIC_MILEAGE_UNIT.
+ */
+export function readDefaultMileageRate(): { rate: number; unit: MileageUnit } {
+  const configured = {
+    rate: toNumber(process.env.NEXT_PUBLIC_MILEAGE_RATE) ?? FALLBACK_MILEAGE_RATE,
+    unit: readMileageUnit(process.env.NEXT_PUBLIC_MILEAGE_UNIT),
+  };
+  if (typeof window === "undefined") {
+    return configured;
+  }
+  try {
+    const stored = toObject(
+      JSON.parse(window.localStorage.getItem(MILEAGE_RATE_STORAGE_KEY) ?? "null")
+    );
+    const rate = toNumber(stored?.rate);
+    return rate !== null && rate > 0 ? { rate, unit: readMileageUnit(stored?.unit) } : configured;
+  } catch {
+    return configured;
+  }
+}
+
+export function rememberMileageRate(rate: number, unit: MileageUnit) {
+  if (typeof window === "undefined") {
+    return;
+  }
+  try {
+    window.localStorage.setItem(MILEAGE_RATE_STORAGE_KEY, JSON.stringify({ rate, unit }));
+  } catch {
+    // Storage full or disabled; the configured default is used next time.
+  }
+}
+
+export function calculateMileageAmount(entry: MileageEntry) {
+  return Math.round(entry.distance * entry.rate * 100) / 100;
+}
+
+export function describeMileage(entry: MileageEntry) {
+  return `${entry.distance} ${entry.unit} × ${entry.rate.toFixed(2)}/${entry.unit}`;
+}
+
+export function readMileageEntry(source: Record<string, unknown>): MileageEntry | null {
+  const mileage = toObject(source.mileage);
+  const distance = toNumber(mileage?.distance);
+  const rate = toNumber(mileage?.rate);
+  if (distance === null || rate === null) {
+    return null;
+  }
+  return { distance, unit: readMileageUnit(mileage?.unit), rate };
+}
+
+/** True for receipts created by hand, however the backend spells it. */
+export function isManualReceipt(source: Record<string, unknown>) {
+  const origin = String(source.source ?? source.origin ?? source.entryType ?? "").toLowerCase();
+  return source.manual === true || origin === MANUAL_SOURCE || origin === "mileage";
+}
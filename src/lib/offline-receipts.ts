@@ -0,0 +1,205 @@
+"use client";
+
+import { getAuthTokenFromCookie } from "./auth-client";
+import type { UploadedReceiptImage } from "./receipt-upload";
+
+// Shared with public/sw.js, which replays the queue; keep both in sync.
+const OFFLINE_DB_NAME = "ai-receipts-offline";
+const OFFLINE_DB_VERSION = 2;
+const OFFLINE_RECEIPT_STORE = "pendingReceipts";
+const SHARED_FILE_STORE = "sharedFiles";
+const OFFLINE_SYNC_TAG = "receipt-upload-sync";
+const SERVICE_WORKER_URL = "/sw.js";
+
+export type OfflineReceiptState = "pending" | "syncing" | "failed";
+
+export type OfflineReceiptRecord = {
+  id: string;
+  // Only this user's session lists or replays the record.
+  userId: string;
+  file: Blob;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  capturedAt: string;
+  state: OfflineReceiptState;
+  attempts: number;
+  lastError: string;
+  imageId: number | string | null;
+  objectKey: string | null;
+};
+
+type SharedFileRecord = {
+  id: string;
+  file: Blob;
+  fileName: string;
+  contentType: string;
+  sharedAt: string;
+};
+
+export type OfflineReceiptMessage =
+  | { type: "offline-receipts-changed" }
+  | { type: "offline-receipt-synced"; id: string };
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+export function isOfflineStorageAvailable() {
+  return typeof indexedDB !== "undefined";
+}
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOfflineDb() {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    for (const storeName of [OFFLINE_RECEIPT_STORE, SHARED_FILE_STORE]) {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName, { keyPath: "id" });
+      }
+    }
+  };
+  return requestToPromise(request);
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openOfflineDb();
+  try {
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return await requestToPromise(run(store));
+  } finally {
+    db.close();
+  }
+}
+
+function withReceiptStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  return withStore(OFFLINE_RECEIPT_STORE, mode, run);
+}
+
+export async function saveOfflineReceipt(
+  userId: string,
+  file: File,
+  uploadedImage: UploadedReceiptImage | null = null
+) {
+  const record: OfflineReceiptRecord = {
+    id: `offline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    file,
+    fileName: file.name || "receipt.jpg",
+    contentType: file.type || "image/jpeg",
+    sizeBytes: file.size,
+    capturedAt: new Date().toISOString(),
+    state: "pending",
+    attempts: 0,
+    lastError: "",
+    imageId: uploadedImage?.imageId ?? null,
+    objectKey: uploadedImage?.objectKey ?? null,
+  };
+  await withReceiptStore("readwrite", (store) => store.put(record));
+  return record;
+}
+
+export async function listOfflineReceipts(userId: string | null) {
+  if (!userId || !isOfflineStorageAvailable()) {
+    return [];
+  }
+  const records = await withReceiptStore<OfflineReceiptRecord[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return records
+    .filter((record) => record.userId === userId)
+    .sort((left, right) => left.capturedAt.localeCompare(right.capturedAt));
+}
+
+export async function deleteOfflineReceipt(id: string) {
+  await withReceiptStore("readwrite", (store) => store.delete(id));
+}
+
+export async function resetOfflineReceipt(id: string) {
+  const record = await withReceiptStore<OfflineReceiptRecord | undefined>("readonly", (store) =>
+    store.get(id)
+  );
+  if (!record) {
+    return;
+  }
+  await withReceiptStore("readwrite", (store) =>
+    store.put({ ...record, state: "pending", lastError: "" })
+  );
+}
+
+/** Drops every queued receipt and shared file on this device, e.g. on sign-out. */
+export async function clearOfflineReceipts() {
+  if (!isOfflineStorageAvailable()) {
+    return;
+  }
+  await withReceiptStore("readwrite", (store) => store.clear());
+  await withStore(SHARED_FILE_STORE, "readwrite", (store) => store.clear());
+}
+
+/** Returns files the OS share sheet handed to the service worker, and forgets them. */
+export async function takeSharedReceiptFiles() {
+  if (!isOfflineStorageAvailable()) {
+    return [];
+  }
+  const records = await withStore<SharedFileRecord[]>(SHARED_FILE_STORE, "readonly", (store) =>
+    store.getAll()
+  );
+  await withStore(SHARED_FILE_STORE, "readwrite", (store) => store.clear());
+  return records
+    .sort((left, right) => left.sharedAt.localeCompare(right.sharedAt))
+    .map(
+      (record) =>
+        new File([record.file], record.fileName, {
+          type: record.contentType,
+          lastModified: Date.parse(record.sharedAt) || Date.now(),
+        })
+    );
+}
+
+export async function registerReceiptServiceWorker() {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return null;
+  }
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Asks the service worker to replay the queue. Background Sync lets the browser retry
+ * after the tab is gone; the message fallback carries the auth token because the worker
+ * cannot read document cookies in browsers without the Cookie Store API.
+ */
+export async function requestOfflineSync() {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return;
+  }
+  const registration = (await navigator.serviceWorker.ready) as SyncCapableRegistration;
+  try {
+    if (registration.sync) {
+      await registration.sync.register(OFFLINE_SYNC_TAG);
+      return;
+    }
+  } catch {
+    // Background Sync can be disabled per site; fall through to an immediate replay.
+  }
+  registration.active?.postMessage({
+    type: "replay-offline-receipts",
+    token: getAuthTokenFromCookie(),
+  });
+}
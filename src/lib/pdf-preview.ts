@@ -0,0 +1,75 @@
+"use client";
+
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+
+export const PDF_CONTENT_TYPE = "application/pdf";
+
+const documentCache = new Map<string, Promise<PDFDocumentProxy>>();
+
+async function loadPdfJs() {
+  const pdfjs = await import("pdfjs-dist");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      "pdfjs-dist/build/pdf.worker.min.mjs",
+      import.meta.url
+    ).toString();
+  }
+  return pdfjs;
+}
+
+export function isPdfContentType(contentType: string) {
+  return contentType.trim().toLowerCase() === PDF_CONTENT_TYPE;
+}
+
+export function isPdfFile(file: File) {
+  return isPdfContentType(file.type) || file.name.toLowerCase().endsWith(".pdf");
+}
+
+export function isPdfUrl(url: string) {
+  const path = url.split(/[?#]/)[0] ?? "";
+  return path.toLowerCase().endsWith(".pdf");
+}
+
+export function loadPdfDocument(url: string) {
+  const cached = documentCache.get(url);
+  if (cached) {
+    return cached;
+  }
+
+  const pending = loadPdfJs()
+    .then((pdfjs) => pdfjs.getDocument({ url }).promise)
+    .catch((error: unknown) => {
+      documentCache.delete(url);
+      throw error;
+    });
+  documentCache.set(url, pending);
+  return pending;
+}
+
+export function isPdfRenderCancelled(error: unknown) {
+  return error instanceof Error && error.name === "RenderingCancelledException";
+}
+
+// Renders at device pixel density so the canvas stays sharp when scaled down by CSS.
+export async function renderPdfPage(
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  targetWidth: number
+): Promise<RenderTask> {
+  const page = await pdf.getPage(Math.min(Math.max(pageNumber, 1), pdf.numPages));
+  const baseViewport = page.getViewport({ scale: 1 });
+  const pixelRatio = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+  const viewport = page.getViewport({
+    scale: (targetWidth * pixelRatio) / baseViewport.width,
+  });
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+
+  return page.render({
+    canvas,
+    canvasContext: canvas.getContext("2d") ?? undefined,
+    viewport,
+  });
+}
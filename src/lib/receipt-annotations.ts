@@ -0,0 +1,212 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+
+// User-entered context on a receipt: free-form tags, a note, and values for custom fields
+// the user defines once and fills in per receipt. Values are stored as strings keyed by
+// field id; dates as YYYY-MM-DD.
+
+export type CustomFieldType = "text" | "number" | "date" | "select";
+
+export type CustomFieldDefinition = {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  // Choices for "select" fields; empty for the other types.
+  options: string[];
+};
+
+export type CustomFieldValues = Record<string, string>;
+
+export type ReceiptAnnotations = {
+  tags: string[];
+  notes: string;
+  customFields: CustomFieldValues;
+};
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "select", label: "Select" },
+];
+
+const MAX_TAG_LENGTH = 40;
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toString(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readErrorMessage(payload: unknown, fallback: string) {
+  const payloadObject = toObject(payload);
+  return toString(payloadObject?.message) || toString(payloadObject?.error) || fallback;
+}
+
+function readList(payload: unknown, key: string) {
+  const payloadObject = toObject(payload);
+  return Array.isArray(payload)
+    ? payload
+    : Array.isArray(payloadObject?.data)
+      ? payloadObject.data
+      : Array.isArray(payloadObject?.[key])
+        ? (payloadObject[key] as unknown[])
+        : [];
+}
+
+export function normalizeTag(value: string) {
+  return value.replace(/\s+/g, " ").trim().slice(0, MAX_TAG_LENGTH);
+}
+
+/** Adds a tag unless one with the same name (ignoring case) is already present. */
+export function addTag(tags: string[], value: string) {
+  const tag = normalizeTag(value);
+  if (!tag || tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+    return tags;
+  }
+  return [...tags, tag];
+}
+
+function readTags(value: unknown) {
+  const tagsRaw = Array.isArray(value) ? value : [];
+  return tagsRaw.reduce<string[]>(
+    (tags, tag) => addTag(tags, toString(toObject(tag)?.name ?? tag)),
+    []
+  );
+}
+
+function readCustomFieldValues(value: unknown): CustomFieldValues {
+  const values: CustomFieldValues = {};
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const entryObject = toObject(entry);
+      const fieldId = toString(entryObject?.fieldId ?? entryObject?.id);
+      const fieldValue = toString(entryObject?.value);
+      if (fieldId && fieldValue) {
+        values[fieldId] = fieldValue;
+      }
+    }
+    return values;
+  }
+  for (const [fieldId, fieldValue] of Object.entries(toObject(value) ?? {})) {
+    const text = toString(fieldValue);
+    if (text) {
+      values[fieldId] = text;
+    }
+  }
+  return values;
+}
+
+export function readReceiptAnnotations(source: Record<string, unknown>): ReceiptAnnotations {
+  return {
+    tags: readTags(source.tags),
+    notes: typeof source.notes === "string" ? source.notes : toString(source.note),
+    customFields: readCustomFieldValues(source.customFields ?? source.customFieldValues),
+  };
+}
+
+/** Drops empty custom field values so clearing an input removes the value on save. */
+export function compactCustomFieldValues(values: CustomFieldValues) {
+  return Object.fromEntries(
+    Object.entries(values)
+      .map(([fieldId, value]) => [fieldId, value.trim()])
+      .filter(([, value]) => value)
+  ) as CustomFieldValues;
+}
+
+export function areCustomFieldValuesEqual(left: CustomFieldValues, right: CustomFieldValues) {
+  const compactLeft = compactCustomFieldValues(left);
+  const compactRight = compactCustomFieldValues(right);
+  const keys = new Set([...Object.keys(compactLeft), ...Object.keys(compactRight)]);
+  return [...keys].every((key) => compactLeft[key] === compactRight[key]);
+}
+
+function readCustomFieldType(value: unknown): CustomFieldType {
+  const type = toString(value).toLowerCase();
+  return CUSTOM_FIELD_TYPES.some((entry) => entry.value === type)
+    ? (type as CustomFieldType)
+    : "text";
+}
+
+function readCustomFieldDefinition(value: unknown): CustomFieldDefinition | null {
+  const source = toObject(value);
+  const id = toString(source?.id ?? source?.fieldId ?? source?._id);
+  const name = toString(source?.name ?? source?.label);
+  if (!source || !id || !name) {
+    return null;
+  }
+  const type = readCustomFieldType(source.type);
+  const optionsRaw = Array.isArray(source.options) ? source.options : [];
+  return {
+    id,
+    name,
+    type,
+    options: type === "select" ? optionsRaw.map(toString).filter(Boolean) : [],
+  };
+}
+
+/** Tags used on the signed-in user's receipts, most used first. */
+export async function fetchTagSuggestions() {
+  const response = await authFetch("/api/receipts/me/tags", {
+    method: "GET",
+    cache: "no-store",
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readErrorMessage(payload, "Failed to load tags."));
+  }
+  return readTags(readList(payload, "tags"));
+}
+
+export async function fetchCustomFieldDefinitions() {
+  const response = await authFetch("/api/custom-fields", {
+    method: "GET",
+    cache: "no-store",
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readErrorMessage(payload, "Failed to load custom fields."));
+  }
+  return readList(payload, "fields")
+    .map(readCustomFieldDefinition)
+    .filter((field): field is CustomFieldDefinition => field !== null);
+}
+
+export async function createCustomFieldDefinition(field: Omit<CustomFieldDefinition, "id">) {
+  const response = await authFetch("/api/custom-fields", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(field),
+  });
+  const payload = await response.json().catch(() => null);
+  const definition = readCustomFieldDefinition(toObject(payload)?.data ?? payload);
+  if (!response.ok || !definition) {
+    throw new Error(readErrorMessage(payload, "Failed to create custom field."));
+  }
+  return definition;
+}
+
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: string) {
+  if (field.type === "date") {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) {
+      return new Intl.DateTimeFormat("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      }).format(new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    }
+  }
+  return value;
+}
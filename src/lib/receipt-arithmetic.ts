@@ -0,0 +1,116 @@
+"use client";
+
+// Live consistency checks for the receipt editor. Values are the raw input strings so
+// the checks can run on every keystroke; empty fields are skipped rather than flagged.
+
+export type ArithmeticItem = {
+  id: string;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  totalPrice: string;
+};
+
+export type ArithmeticInput = {
+  subtotal: string;
+  tax: string;
+  total: string;
+  items: ArithmeticItem[];
+};
+
+export type ArithmeticFix =
+  | { target: "item-total"; itemId: string; value: string }
+  | { target: "subtotal" | "total"; value: string };
+
+export type ArithmeticIssue = {
+  id: string;
+  message: string;
+  fixLabel: string;
+  fix: ArithmeticFix;
+};
+
+// Half a cent either side absorbs per-line rounding on printed receipts.
+export const ARITHMETIC_TOLERANCE = 0.015;
+
+function toAmount(value: string) {
+  if (!value.trim()) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundToCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function formatAmount(value: number) {
+  return roundToCents(value).toFixed(2);
+}
+
+function differs(left: number, right: number) {
+  return Math.abs(left - right) > ARITHMETIC_TOLERANCE;
+}
+
+export function checkReceiptArithmetic(input: ArithmeticInput): ArithmeticIssue[] {
+  const issues: ArithmeticIssue[] = [];
+
+  input.items.forEach((item, index) => {
+    const quantity = toAmount(item.quantity);
+    const unitPrice = toAmount(item.unitPrice);
+    const totalPrice = toAmount(item.totalPrice);
+    if (quantity === null || unitPrice === null || totalPrice === null) {
+      return;
+    }
+    const expected = quantity * unitPrice;
+    if (differs(expected, totalPrice)) {
+      const label = item.description.trim() || `Item ${index + 1}`;
+      issues.push({
+        id: `item-${item.id}`,
+        message: `${label}: ${quantity} × ${formatAmount(unitPrice)} is ${formatAmount(
+          expected
+        )}, not ${formatAmount(totalPrice)}.`,
+        fixLabel: `Set item total to ${formatAmount(expected)}`,
+        fix: { target: "item-total", itemId: item.id, value: formatAmount(expected) },
+      });
+    }
+  });
+
+  const itemTotals = input.items.map((item) => toAmount(item.totalPrice));
+  const itemsSum =
+    itemTotals.length > 0 && itemTotals.every((value) => value !== null)
+      ? (itemTotals as number[]).reduce((sum, value) => sum + value, 0)
+      : null;
+  const subtotal = toAmount(input.subtotal);
+  const tax = toAmount(input.tax);
+  const total = toAmount(input.total);
+
+  if (itemsSum !== null && subtotal !== null && differs(itemsSum, subtotal)) {
+    issues.push({
+      id: "subtotal",
+      message: `Items add up to ${formatAmount(itemsSum)}, but the subtotal is ${formatAmount(
+        subtotal
+      )}.`,
+      fixLabel: "Recompute subtotal from items",
+      fix: { target: "subtotal", value: formatAmount(itemsSum) },
+    });
+  }
+
+  // Without a subtotal the items stand in for it, so a receipt of items + tax still checks.
+  const base = subtotal ?? itemsSum;
+  if (base !== null && total !== null) {
+    const expectedTotal = base + (tax ?? 0);
+    if (differs(expectedTotal, total)) {
+      issues.push({
+        id: "total",
+        message: `${subtotal !== null ? "Subtotal" : "Items"}${
+          tax !== null ? " + tax" : ""
+        } is ${formatAmount(expectedTotal)}, but the total is ${formatAmount(total)}.`,
+        fixLabel: subtotal !== null ? "Recompute total" : "Recompute total from items",
+        fix: { target: "total", value: formatAmount(expectedTotal) },
+      });
+    }
+  }
+
+  return issues;
+}
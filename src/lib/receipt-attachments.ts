@@ -0,0 +1,156 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+import {
+  prepareReceiptFile,
+  type ReceiptUploadStage,
+  uploadReceiptImage,
+} from "./receipt-upload";
+
+// The images and files that make up one receipt, in page order: a long grocery receipt
+// photographed in two parts, a hotel folio plus its card slip. The first attachment is
+// the receipt's primary image. Older payloads only carry a single imageId/imageUrl and
+// are read as a one-attachment list.
+
+export type ReceiptAttachment = {
+  // Stable key for rendering; the image id when there is one.
+  key: string;
+  imageId: number | null;
+  url: string;
+  contentType: string;
+  fileName: string;
+};
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readErrorMessage(payload: unknown, fallback: string) {
+  const payloadObject = toObject(payload);
+  return toString(payloadObject?.message) || toString(payloadObject?.error) || fallback;
+}
+
+function toAttachment(source: Record<string, unknown>): ReceiptAttachment | null {
+  const imageObject = toObject(source.image);
+  const imageId = toNumber(
+    source.imageId ?? source.image_id ?? imageObject?.id ?? imageObject?.imageId ?? source.id
+  );
+  const url = toString(source.imageUrl ?? source.url ?? imageObject?.url);
+  if (imageId === null && !url) {
+    return null;
+  }
+  return {
+    key: imageId !== null ? String(imageId) : url,
+    imageId,
+    url,
+    contentType: toString(
+      source.imageContentType ??
+        source.contentType ??
+        source.mimeType ??
+        imageObject?.contentType ??
+        imageObject?.mimeType
+    ),
+    fileName: toString(source.fileName ?? source.name ?? imageObject?.fileName),
+  };
+}
+
+export function readReceiptAttachments(payloadObject: Record<string, unknown>) {
+  const rawList = payloadObject.attachments ?? payloadObject.images ?? payloadObject.pages;
+  const entries = (Array.isArray(rawList) ? rawList : [])
+    .map((entry, index) => ({ entry: toObject(entry), index }))
+    .filter((entry): entry is { entry: Record<string, unknown>; index: number } =>
+      Boolean(entry.entry)
+    )
+    .sort(
+      (left, right) =>
+        (toNumber(left.entry.position ?? left.entry.order) ?? left.index) -
+        (toNumber(right.entry.position ?? right.entry.order) ?? right.index)
+    );
+
+  const attachments: ReceiptAttachment[] = [];
+  for (const { entry } of entries) {
+    const attachment = toAttachment(entry);
+    if (attachment && !attachments.some((existing) => existing.key === attachment.key)) {
+      attachments.push(attachment);
+    }
+  }
+  if (attachments.length > 0) {
+    return attachments;
+  }
+
+  // Pre-attachment payloads: { imageId, imageUrl, imageContentType } on the receipt.
+  const primary = toAttachment({
+    imageId: payloadObject.imageId,
+    image_id: payloadObject.image_id,
+    image: payloadObject.image,
+    imageUrl: payloadObject.imageUrl,
+    imageContentType: payloadObject.imageContentType,
+  });
+  return primary ? [primary] : [];
+}
+
+async function readReceiptResponse(response: Response, fallback: string) {
+  const payload = await response.json().catch(() => null);
+  const payloadObject = toObject(payload);
+  if (!response.ok || !payloadObject) {
+    throw new Error(readErrorMessage(payload, fallback));
+  }
+  return toObject(payloadObject.data) ?? payloadObject;
+}
+
+/**
+ * Uploads a file and appends it to the receipt as its last page. Resolves with the
+ * updated receipt payload.
+ */
+export async function addReceiptAttachment(
+  receiptId: number,
+  sourceFile: File,
+  onStageChange?: (stage: ReceiptUploadStage, message: string) => void
+) {
+  const file = await prepareReceiptFile(sourceFile, onStageChange);
+  const uploadedImage = await uploadReceiptImage(file, onStageChange);
+  const response = await authFetch(`/api/receipts/${receiptId}/attachments`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(uploadedImage),
+  });
+  return readReceiptResponse(response, "Failed to attach file.");
+}
+
+export async function reorderReceiptAttachments(receiptId: number, imageIds: number[]) {
+  const response = await authFetch(`/api/receipts/${receiptId}/attachments/order`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ imageIds }),
+  });
+  return readReceiptResponse(response, "Failed to reorder attachments.");
+}
+
+export async function removeReceiptAttachment(receiptId: number, imageId: number) {
+  const response = await authFetch(`/api/receipts/${receiptId}/attachments/${imageId}`, {
+    method: "DELETE",
+  });
+  return readReceiptResponse(response, "Failed to remove attachment.");
+}
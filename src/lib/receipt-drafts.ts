@@ -0,0 +1,89 @@
+"use client";
+
+// Unsaved receipt edits kept in localStorage, one entry per user and receipt, so a reload
+// or an expired session (authFetch logs out on 401) does not lose them. Signing out clears
+// them. Without a user id nothing is stored. The draft itself is opaque here; the receipt
+// page validates it when restoring.
+
+export type StoredReceiptDraft = {
+  savedAt: string;
+  draft: unknown;
+};
+
+const DRAFT_STORAGE_PREFIX = "receipt_draft:";
+const MAX_DRAFT_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function toStorageKey(userId: string, receiptId: string | number) {
+  return `${DRAFT_STORAGE_PREFIX}${userId}:${receiptId}`;
+}
+
+export function readReceiptDraft(
+  userId: string | null,
+  receiptId: string | number
+): StoredReceiptDraft | null {
+  if (typeof window === "undefined" || !userId) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(
+      window.localStorage.getItem(toStorageKey(userId, receiptId)) ?? "null"
+    );
+    const savedAt = typeof parsed?.savedAt === "string" ? parsed.savedAt : "";
+    const age = Date.now() - Date.parse(savedAt);
+    if (!parsed?.draft || !(age < MAX_DRAFT_AGE_MS)) {
+      clearReceiptDraft(userId, receiptId);
+      return null;
+    }
+    return { savedAt, draft: parsed.draft };
+  } catch {
+    return null;
+  }
+}
+
+export function writeReceiptDraft(
+  userId: string | null,
+  receiptId: string | number,
+  draft: unknown
+) {
+  if (typeof window === "undefined" || !userId) {
+    return;
+  }
+  try {
+    window.localStorage.setItem(
+      toStorageKey(userId, receiptId),
+      JSON.stringify({ savedAt: new Date().toISOString(), draft })
+    );
+  } catch {
+    // Storage full or disabled; drafts are best effort.
+  }
+}
+
+export function clearReceiptDraft(userId: string | null, receiptId: string | number) {
+  if (typeof window === "undefined" || !userId) {
+    return;
+  }
+  try {
+    window.localStorage.removeItem(toStorageKey(userId, receiptId));
+  } catch {
+    // Best effort, see writeReceiptDraft.
+  }
+}
+
+/** Removes every stored draft on this device, including ones saved before drafts had owners. */
+export function clearAllReceiptDrafts() {
+  if (typeof window === "undefined") {
+    return;
+  }
+  try {
+    const keys = Array.from({ length: window.localStorage.length }, (_, index) =>
+      window.localStorage.key(index)
+    );
+    for (const key of keys) {
+      if (key?.startsWith(DRAFT_STORAGE_PREFIX)) {
+        window.localStorage.removeItem(key);
+      }
+    }
+  } catch {
+    // Best effort, see writeReceiptDraft.
+  }
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+import { fetchAllReceipts } from "./receipt-pages";
+
+export type ReceiptFingerprint = {
+  receiptId: string;
+  merchant: string;
+  receiptDate: string;
+  total: number | null;
+};
+
+export type ImageHashEntry = {
+  hash: string;
+  receiptId: string | null;
+  fileName: string;
+  uploadedAt: string;
+};
+
+export type DuplicateMatch =
+  | { reason: "image"; receiptId: string | null; uploadedAt: string }
+  | { reason: "details"; receipt: ReceiptFingerprint };
+
+// One list per user id, so people sharing a device are not warned about each other's receipts.
+const IMAGE_HASH_STORAGE_PREFIX = "ai-receipts:recent-image-hashes:";
+// Written before hashes were kept per user; it may mix several accounts.
+const LEGACY_IMAGE_HASH_STORAGE_KEY = "ai-receipts:recent-image-hashes";
+const MAX_REMEMBERED_HASHES = 200;
+// Out of 64 bits; re-encodes and small crops of the same photo stay well under this.
+const MAX_IMAGE_HASH_DISTANCE = 6;
+const MERCHANT_SIMILARITY_THRESHOLD = 0.8;
+const TOTAL_TOLERANCE = 0.01;
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function readFirstString(source: Record<string, unknown>, keys: string[]): string {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+  return "";
+}
+
+/**
+ * 64-bit difference hash: shrink to 9x8 grayscale and record whether each pixel is
+ * brighter than its right neighbour. Robust to resizing and recompression.
+ */
+export async function computeImageHash(file: Blob): Promise<string | null> {
+  if (!file.type.startsWith("image/") || typeof createImageBitmap !== "function") {
+    return null;
+  }
+
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+    const canvas = document.createElement("canvas");
+    canvas.width = 9;
+    canvas.height = 8;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) {
+      bitmap.close();
+      return null;
+    }
+    context.drawImage(bitmap, 0, 0, 9, 8);
+    bitmap.close();
+
+    const { data } = context.getImageData(0, 0, 9, 8);
+    const luminance = (x: number, y: number) => {
+      const offset = (y * 9 + x) * 4;
+      return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+    };
+
+    let hash = "";
+    for (let y = 0; y < 8; y += 1) {
+      let nibble = 0;
+      for (let x = 0; x < 8; x += 1) {
+        nibble = (nibble << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } catch {
+    return null;
+  }
+}
+
+export function hammingDistance(left: string, right: string) {
+  if (left.length !== right.length) {
+    return Number.POSITIVE_INFINITY;
+  }
+  let distance = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    let bits = parseInt(left[index], 16) ^ parseInt(right[index], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+function toImageHashStorageKey(userId: string) {
+  return `${IMAGE_HASH_STORAGE_PREFIX}${userId}`;
+}
+
+function readImageHashes(userId: string): ImageHashEntry[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+  try {
+    window.localStorage.removeItem(LEGACY_IMAGE_HASH_STORAGE_KEY);
+    const parsed = JSON.parse(
+      window.localStorage.getItem(toImageHashStorageKey(userId)) ?? "[]"
+    );
+    return Array.isArray(parsed) ? (parsed as ImageHashEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function findSimilarImage(userId: string, hash: string) {
+  let best: ImageHashEntry | null = null;
+  let bestDistance = MAX_IMAGE_HASH_DISTANCE + 1;
+  for (const entry of readImageHashes(userId)) {
+    const distance = hammingDistance(hash, entry.hash);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export function rememberImageHash(userId: string, entry: ImageHashEntry) {
+  if (typeof window === "undefined") {
+    return;
+  }
+  const entries = [entry, ...readImageHashes(userId).filter((item) => item.hash !== entry.hash)];
+  try {
+    window.localStorage.setItem(
+      toImageHashStorageKey(userId),
+      JSON.stringify(entries.slice(0, MAX_REMEMBERED_HASHES))
+    );
+  } catch {
+    // Storage full or disabled; duplicate hints are best effort.
+  }
+}
+
+export function forgetReceiptImageHash(userId: string, receiptId: string) {
+  if (typeof window === "undefined") {
+    return;
+  }
+  const entries = readImageHashes(userId).filter((item) => item.receiptId !== receiptId);
+  try {
+    window.localStorage.setItem(toImageHashStorageKey(userId), JSON.stringify(entries));
+  } catch {
+    // Best effort, see rememberImageHash.
+  }
+}
+
+export function toReceiptFingerprint(value: unknown): ReceiptFingerprint | null {
+  const source = toObject(value);
+  if (!source) {
+    return null;
+  }
+  const nested = toObject(source.receipt);
+  const receiptObject = nested ?? source;
+  const rawId = receiptObject.receiptId ?? receiptObject.id ?? receiptObject._id;
+  if (typeof rawId !== "string" && typeof rawId !== "number") {
+    return null;
+  }
+
+  return {
+    receiptId: String(rawId),
+    merchant: readFirstString(receiptObject, ["merchantName", "merchant", "store", "vendor"]),
+    receiptDate: readFirstString(receiptObject, ["receiptDate", "transactionDate", "date"]).split(
+      "T"
+    )[0],
+    total: toNumber(receiptObject.total ?? receiptObject.amount ?? receiptObject.totalAmount),
+  };
+}
+
+function normalizeMerchant(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\b(inc|llc|ltd|co|corp|store|the)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein(left: string, right: string) {
+  const previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= left.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= right.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (left[i - 1] === right[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[right.length];
+}
+
+export function merchantSimilarity(left: string, right: string) {
+  const normalizedLeft = normalizeMerchant(left);
+  const normalizedRight = normalizeMerchant(right);
+  if (!normalizedLeft || !normalizedRight) {
+    return 0;
+  }
+  if (normalizedLeft === normalizedRight) {
+    return 1;
+  }
+  const longest = Math.max(normalizedLeft.length, normalizedRight.length);
+  return 1 - levenshtein(normalizedLeft, normalizedRight) / longest;
+}
+
+/** Same date, same total (to the cent) and a near-identical merchant name. */
+export function findSimilarReceipt(candidate: ReceiptFingerprint, receipts: ReceiptFingerprint[]) {
+  if (!candidate.receiptDate || candidate.total === null || !candidate.merchant) {
+    return null;
+  }
+  return (
+    receipts.find(
+      (receipt) =>
+        receipt.receiptId !== candidate.receiptId &&
+        receipt.receiptDate === candidate.receiptDate &&
+        receipt.total !== null &&
+        Math.abs(receipt.total - (candidate.total ?? 0)) <= TOTAL_TOLERANCE &&
+        merchantSimilarity(receipt.merchant, candidate.merchant) >= MERCHANT_SIMILARITY_THRESHOLD
+    ) ?? null
+  );
+}
+
+/** Receipts dated `receiptDate` (YYYY-MM-DD), the only ones findSimilarReceipt can match. */
+export async function fetchReceiptFingerprints(receiptDate: string) {
+  const receiptsRaw = await fetchAllReceipts({ from: receiptDate, to: receiptDate });
+  return receiptsRaw
+    .map(toReceiptFingerprint)
+    .filter((receipt): receipt is ReceiptFingerprint => receipt !== null);
+}
+
+/**
+ * Resolves the parsed receipt behind a parse response. The parse endpoint may return
+ * only an id, in which case the receipt is fetched to read merchant, date and total.
+ */
+export async function fetchParsedReceiptFingerprint(parsePayload: unknown) {
+  const fingerprint = toReceiptFingerprint(parsePayload);
+  if (!fingerprint || (fingerprint.merchant && fingerprint.receiptDate && fingerprint.total !== null)) {
+    return fingerprint;
+  }
+
+  const response = await authFetch(`/api/receipts/${fingerprint.receiptId}`, {
+    method: "GET",
+    cache: "no-store",
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    return fingerprint;
+  }
+  return toReceiptFingerprint(payload) ?? fingerprint;
+}
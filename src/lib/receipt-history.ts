@@ -0,0 +1,310 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+import {
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+  formatCustomFieldValue,
+  readReceiptAnnotations,
+} from "./receipt-annotations";
+
+// Every save of a receipt is stored by the backend as a revision holding a full snapshot
+// of the editable fields. The first revision is what the parser extracted; diffs are
+// computed here from consecutive snapshots.
+
+export type SnapshotItem = {
+  description: string;
+  category: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  totalPrice: number | null;
+};
+
+export type ReceiptSnapshot = {
+  merchantName: string;
+  receiptDate: string;
+  currency: string;
+  category: string;
+  subtotal: number | null;
+  tax: number | null;
+  total: number | null;
+  items: SnapshotItem[];
+  tags: string[];
+  notes: string;
+  // Keyed by custom field id; empty values are left out.
+  customFields: CustomFieldValues;
+};
+
+export type RevisionSource = "parser" | "user" | "revert";
+
+export type ReceiptRevision = {
+  id: string;
+  number: number;
+  createdAt: string;
+  author: string;
+  source: RevisionSource;
+  snapshot: ReceiptSnapshot;
+};
+
+export type FieldChange = {
+  key: string;
+  label: string;
+  before: string;
+  after: string;
+};
+
+const FIELD_LABELS: Record<
+  Exclude<keyof ReceiptSnapshot, "items" | "tags" | "customFields">,
+  string
+> = {
+  merchantName: "Merchant",
+  receiptDate: "Receipt Date",
+  currency: "Currency",
+  category: "Category",
+  subtotal: "Subtotal",
+  tax: "Tax",
+  total: "Total",
+  notes: "Notes",
+};
+
+const ITEM_FIELD_LABELS: Record<keyof SnapshotItem, string> = {
+  description: "Description",
+  category: "Category",
+  quantity: "Quantity",
+  unitPrice: "Unit Price",
+  totalPrice: "Total",
+};
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readErrorMessage(payload: unknown, fallback: string) {
+  const payloadObject = toObject(payload);
+  return toString(payloadObject?.error) || toString(payloadObject?.message) || fallback;
+}
+
+export function readReceiptSnapshot(source: Record<string, unknown>): ReceiptSnapshot {
+  const itemsRaw = Array.isArray(source.items) ? source.items : [];
+  // Same reading as the receipt itself, so object-shaped tags are kept too.
+  const annotations = readReceiptAnnotations(source);
+  return {
+    merchantName: toString(source.merchantName),
+    receiptDate: toString(source.receiptDate).slice(0, 10),
+    currency: toString(source.currency),
+    category: toString(source.category),
+    subtotal: toNumber(source.subtotal),
+    tax: toNumber(source.tax),
+    total: toNumber(source.total),
+    items: itemsRaw
+      .map(toObject)
+      .filter((item): item is Record<string, unknown> => item !== null)
+      .map((item) => ({
+        description: toString(item.description),
+        category: toString(item.category),
+        quantity: toNumber(item.quantity),
+        unitPrice: toNumber(item.unitPrice),
+        totalPrice: toNumber(item.totalPrice),
+      })),
+    tags: annotations.tags,
+    notes: annotations.notes.trim(),
+    customFields: annotations.customFields,
+  };
+}
+
+function readAuthor(source: Record<string, unknown>) {
+  const author = source.changedBy ?? source.author ?? source.user;
+  const authorObject = toObject(author);
+  return (
+    toString(author) ||
+    toString(authorObject?.username) ||
+    toString(authorObject?.email) ||
+    toString(source.changedByName) ||
+    toString(source.username)
+  );
+}
+
+function readSource(value: unknown): RevisionSource {
+  const source = toString(value).toLowerCase();
+  if (["parser", "parse", "ai", "ocr", "original"].includes(source)) {
+    return "parser";
+  }
+  return source === "revert" ? "revert" : "user";
+}
+
+function readRevision(value: unknown, index: number): ReceiptRevision | null {
+  const source = toObject(value);
+  const snapshotObject = toObject(source?.snapshot ?? source?.values ?? source?.receipt);
+  const id = source?.revisionId ?? source?.id ?? source?._id;
+  if (!source || !snapshotObject || (typeof id !== "string" && typeof id !== "number")) {
+    return null;
+  }
+  return {
+    id: String(id),
+    number: toNumber(source.revision ?? source.version ?? source.number) ?? index + 1,
+    createdAt: toString(source.createdAt ?? source.changedAt ?? source.timestamp),
+    author: readAuthor(source),
+    source: readSource(source.source ?? source.origin ?? source.type),
+    snapshot: readReceiptSnapshot(snapshotObject),
+  };
+}
+
+/** Revisions of a receipt, oldest first. */
+export async function fetchReceiptRevisions(receiptId: string | number) {
+  const response = await authFetch(`/api/receipts/${receiptId}/revisions`, {
+    method: "GET",
+    cache: "no-store",
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readErrorMessage(payload, "Failed to load receipt history."));
+  }
+  const payloadObject = toObject(payload);
+  const revisionsRaw = Array.isArray(payload)
+    ? payload
+    : Array.isArray(payloadObject?.data)
+      ? payloadObject.data
+      : Array.isArray(payloadObject?.revisions)
+        ? payloadObject.revisions
+        : [];
+  return revisionsRaw
+    .map(readRevision)
+    .filter((revision): revision is ReceiptRevision => revision !== null)
+    .sort((left, right) => left.number - right.number);
+}
+
+/**
+ * Restores the receipt to a revision's snapshot. The backend records the revert as a new
+ * revision and resolves to the updated receipt payload.
+ */
+export async function revertReceiptToRevision(receiptId: string | number, revisionId: string) {
+  const response = await authFetch(
+    `/api/receipts/${receiptId}/revisions/${encodeURIComponent(revisionId)}/revert`,
+    {
+      method: "POST",
+      cache: "no-store",
+    }
+  );
+  const payload = await response.json().catch(() => null);
+  const payloadObject = toObject(payload);
+  if (!response.ok || !payloadObject) {
+    throw new Error(readErrorMessage(payload, "Failed to revert receipt."));
+  }
+  return payloadObject;
+}
+
+function formatValue(value: string | number | null) {
+  if (value === null || value === "") {
+    return "--";
+  }
+  return typeof value === "number" ? value.toFixed(2) : value;
+}
+
+function formatQuantity(value: number | null) {
+  return value === null ? "--" : String(value);
+}
+
+function describeItem(item: SnapshotItem) {
+  const total = item.totalPrice === null ? "" : ` (${item.totalPrice.toFixed(2)})`;
+  return `${item.description || "Item"}${total}`;
+}
+
+/**
+ * Field-level changes from `before` to `after`, line items compared by position. Custom
+ * fields are labelled and formatted with `customFields` when their definition is known.
+ */
+export function diffReceiptSnapshots(
+  before: ReceiptSnapshot,
+  after: ReceiptSnapshot,
+  customFields: CustomFieldDefinition[] = []
+) {
+  const changes: FieldChange[] = [];
+
+  for (const [key, label] of Object.entries(FIELD_LABELS) as [
+    keyof typeof FIELD_LABELS,
+    string,
+  ][]) {
+    const left = formatValue(before[key]);
+    const right = formatValue(after[key]);
+    if (left !== right) {
+      changes.push({ key, label, before: left, after: right });
+    }
+  }
+
+  const beforeTags = before.tags.join(", ") || "--";
+  const afterTags = after.tags.join(", ") || "--";
+  if (beforeTags !== afterTags) {
+    changes.push({ key: "tags", label: "Tags", before: beforeTags, after: afterTags });
+  }
+
+  const fieldIds = [
+    ...new Set([...Object.keys(before.customFields), ...Object.keys(after.customFields)]),
+  ];
+  for (const fieldId of fieldIds) {
+    const field = customFields.find((entry) => entry.id === fieldId);
+    const format = (value: string | undefined) =>
+      !value?.trim() ? "--" : field ? formatCustomFieldValue(field, value) : value;
+    const left = format(before.customFields[fieldId]);
+    const right = format(after.customFields[fieldId]);
+    if (left !== right) {
+      changes.push({
+        key: `customFields.${fieldId}`,
+        label: field?.name ?? "Custom Field",
+        before: left,
+        after: right,
+      });
+    }
+  }
+
+  const itemCount = Math.max(before.items.length, after.items.length);
+  for (let index = 0; index < itemCount; index += 1) {
+    const left = before.items[index];
+    const right = after.items[index];
+    const itemLabel = `Item ${index + 1}`;
+    if (!left || !right) {
+      changes.push({
+        key: `items.${index}`,
+        label: `${itemLabel} ${left ? "removed" : "added"}`,
+        before: left ? describeItem(left) : "--",
+        after: right ? describeItem(right) : "--",
+      });
+      continue;
+    }
+    for (const [key, label] of Object.entries(ITEM_FIELD_LABELS) as [
+      keyof SnapshotItem,
+      string,
+    ][]) {
+      const leftValue = key === "quantity" ? formatQuantity(left.quantity) : formatValue(left[key]);
+      const rightValue =
+        key === "quantity" ? formatQuantity(right.quantity) : formatValue(right[key]);
+      if (leftValue !== rightValue) {
+        changes.push({
+          key: `items.${index}.${key}`,
+          label: `${itemLabel} ${label}`,
+          before: leftValue,
+          after: rightValue,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+
+// Cursor pagination over GET /api/receipts/me. A page is requested with `limit` and the
+// previous page's `nextCursor`; filters go in the same query string. Backends that still
+// answer with a plain array are read as a single, complete page.
+
+export type ReceiptPage = {
+  items: unknown[];
+  nextCursor: string | null;
+  // Totals for everything matching the query, when the backend reports them.
+  totalCount: number | null;
+  totalAmount: number | null;
+};
+
+export type ReceiptPageQuery = Record<string, string>;
+
+export const RECEIPT_PAGE_SIZE = 50;
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function readErrorMessage(payload: unknown, fallback: string) {
+  const payloadObject = toObject(payload);
+  const message = payloadObject?.message ?? payloadObject?.error;
+  return typeof message === "string" && message.trim() ? message.trim() : fallback;
+}
+
+function toCursor(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function readNextCursor(payloadObject: Record<string, unknown>) {
+  const pageInfo = toObject(payloadObject.pageInfo);
+  if (pageInfo) {
+    return pageInfo.hasNextPage === false ? null : toCursor(pageInfo.endCursor);
+  }
+  return toCursor(
+    payloadObject.nextCursor ?? payloadObject.next_cursor ?? toObject(payloadObject.cursor)?.next
+  );
+}
+
+function buildReceiptPageUrl(
+  query: ReceiptPageQuery,
+  cursor: string | null,
+  limit = RECEIPT_PAGE_SIZE
+) {
+  const params = new URLSearchParams(query);
+  params.set("limit", String(limit));
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+  return `/api/receipts/me?${params.toString()}`;
+}
+
+export async function fetchReceiptPage(
+  query: ReceiptPageQuery,
+  cursor: string | null,
+  limit = RECEIPT_PAGE_SIZE
+): Promise<ReceiptPage> {
+  const response = await authFetch(buildReceiptPageUrl(query, cursor, limit), {
+    method: "GET",
+    cache: "no-store",
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readErrorMessage(payload, "Failed to load receipts."));
+  }
+  if (Array.isArray(payload)) {
+    return { items: payload, nextCursor: null, totalCount: payload.length, totalAmount: null };
+  }
+
+  const payloadObject = toObject(payload) ?? {};
+  const items = Array.isArray(payloadObject.data)
+    ? payloadObject.data
+    : Array.isArray(payloadObject.items)
+      ? payloadObject.items
+      : Array.isArray(payloadObject.receipts)
+        ? payloadObject.receipts
+        : [];
+  const nextCursor = readNextCursor(payloadObject);
+  return {
+    items,
+    // An empty page never has a successor; guards against a cursor that does not advance.
+    nextCursor: items.length > 0 ? nextCursor : null,
+    totalCount: toNumber(payloadObject.totalCount ?? payloadObject.totalItems ?? payloadObject.count),
+    totalAmount: toNumber(payloadObject.totalAmount ?? payloadObject.sum),
+  };
+}
+
+/**
+ * Every receipt matching `query`, read page by page. Meant for narrow queries such as a
+ * single day or category; lists the user scrolls through should page on demand instead.
+ */
+export async function fetchAllReceipts(query: ReceiptPageQuery) {
+  const items: unknown[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await fetchReceiptPage(query, cursor);
+    items.push(...page.items);
+    // A cursor that does not advance would loop forever.
+    cursor = page.nextCursor !== cursor ? page.nextCursor : null;
+  } while (cursor);
+  return items;
+}
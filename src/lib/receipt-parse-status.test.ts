@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type OpenParseStatusStream,
+  type ParseStatusEvent,
+  subscribeToParseStatus,
+} from "./receipt-parse-status";
+
+type StandInStream = {
+  open: OpenParseStatusStream;
+  cancel: ReturnType<typeof vi.fn>;
+};
+
+/**
+ * A local text/event-stream: sends each frame as its own chunk, then either stays open
+ * (like a live stream waiting for more events) or fails like a dropped connection.
+ */
+function createStandInStream(frames: string[], end: "stay-open" | "error"): StandInStream {
+  const encoder = new TextEncoder();
+  const cancel = vi.fn();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < frames.length) {
+        controller.enqueue(encoder.encode(frames[index]));
+        index += 1;
+        return;
+      }
+      if (end === "error") {
+        controller.error(new Error("Connection dropped."));
+        return;
+      }
+      return new Promise<void>(() => undefined);
+    },
+    cancel,
+  });
+  const open = vi.fn<OpenParseStatusStream>(async () =>
+    new Response(body, { headers: { "Content-Type": "text/event-stream" } })
+  );
+  return { open, cancel };
+}
+
+function toFrame(payload: Record<string, unknown>) {
+  return `data: ${JSON.stringify(payload)}\n\n`;
+}
+
+function stubReceiptFetch(statuses: Record<string, string>) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+    const receiptId = String(input).split("/").pop() ?? "";
+    return new Response(JSON.stringify({ receiptId, parseStatus: statuses[receiptId] }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("subscribeToParseStatus", () => {
+  beforeEach(() => {
+    // The module schedules its polling through window timers.
+    vi.stubGlobal("window", globalThis);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("reports status events from the stream and closes it once every receipt is done", async () => {
+    const fetchMock = stubReceiptFetch({});
+    const stream = createStandInStream(
+      [
+        toFrame({ receiptId: "a", status: "queued" }),
+        ": keep-alive\n\n",
+        toFrame({ receiptId: "a", status: "parsing" }),
+        toFrame({ receiptId: "a", status: "parsing" }),
+        toFrame({ receiptId: "b", status: "processing" }),
+        toFrame({ receiptId: "other", status: "parsed" }),
+        toFrame({ receiptId: "a", status: "completed" }),
+        toFrame({ receiptId: "b", status: "failed", error: "Image too blurry." }),
+      ],
+      "stay-open"
+    );
+    const events: ParseStatusEvent[] = [];
+
+    subscribeToParseStatus(["a", "b"], (event) => events.push(event), stream.open);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stream.cancel).toHaveBeenCalled();
+    expect(stream.open).toHaveBeenCalledWith(["a", "b"], expect.any(AbortSignal));
+    expect(events).toEqual([
+      { receiptId: "a", status: "queued", error: "" },
+      { receiptId: "a", status: "parsing", error: "" },
+      { receiptId: "b", status: "parsing", error: "" },
+      { receiptId: "a", status: "parsed", error: "" },
+      { receiptId: "b", status: "failed", error: "Image too blurry." },
+    ]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("polls the receipts that are still pending when the stream errors", async () => {
+    const fetchMock = stubReceiptFetch({ a: "parsed", b: "parsed" });
+    const stream = createStandInStream(
+      [
+        toFrame({ receiptId: "a", status: "parsing" }),
+        toFrame({ receiptId: "b", status: "failed" }),
+      ],
+      "error"
+    );
+    const events: ParseStatusEvent[] = [];
+
+    subscribeToParseStatus(["a", "b"], (event) => events.push(event), stream.open);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(events).toHaveLength(2);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(events).toEqual([
+      { receiptId: "a", status: "parsing", error: "" },
+      { receiptId: "b", status: "failed", error: "The receipt could not be parsed." },
+      { receiptId: "a", status: "parsed", error: "" },
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toBe("/api/receipts/a");
+  });
+
+  it.each([
+    ["the stream endpoint is missing", async () => new Response("Not found", { status: 404 })],
+    [
+      "the stream is not an event stream",
+      async () => new Response("[]", { headers: { "Content-Type": "application/json" } }),
+    ],
+    [
+      "the stream cannot be opened",
+      async () => {
+        throw new TypeError("Failed to fetch");
+      },
+    ],
+  ])("falls back to polling when %s", async (_case, open: OpenParseStatusStream) => {
+    const fetchMock = stubReceiptFetch({ a: "parsed" });
+    const events: ParseStatusEvent[] = [];
+
+    subscribeToParseStatus(["a"], (event) => events.push(event), open);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(events[0]).toEqual({ receiptId: "a", status: "parsed", error: "" });
+    expect(String(fetchMock.mock.calls[0][0])).toBe("/api/receipts/a");
+  });
+
+  it("backs off while nothing changes and starts over after a change", async () => {
+    const fetchMock = stubReceiptFetch({ a: "parsing" });
+    const onEvent = vi.fn();
+
+    subscribeToParseStatus(["a"], onEvent, async () => {
+      throw new TypeError("Failed to fetch");
+    });
+
+    // Polls at 1 s (reports "parsing"), then 1 s, 2 s and 4 s apart while it stays the same.
+    for (const [advanceMs, expectedCalls] of [
+      [999, 0],
+      [1, 1],
+      [1000, 2],
+      [1999, 2],
+      [1, 3],
+      [3999, 3],
+      [1, 4],
+    ]) {
+      await vi.advanceTimersByTimeAsync(advanceMs);
+      expect(fetchMock).toHaveBeenCalledTimes(expectedCalls);
+    }
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops polling after unsubscribing", async () => {
+    const fetchMock = stubReceiptFetch({ a: "parsing" });
+    const onEvent = vi.fn();
+
+    const unsubscribe = subscribeToParseStatus(["a"], onEvent, async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    unsubscribe();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,269 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+
+export type ParseStatus = "queued" | "parsing" | "parsed" | "failed";
+
+export type ParseStatusEvent = {
+  receiptId: string;
+  status: ParseStatus;
+  error: string;
+};
+
+/** Opens the status stream; injectable so a local stand-in stream can replace the backend. */
+export type OpenParseStatusStream = (
+  receiptIds: string[],
+  signal: AbortSignal
+) => Promise<Response>;
+
+const PARSE_STATUS_STREAM_URL = "/api/receipts/status/stream";
+const POLL_INITIAL_DELAY_MS = 1000;
+const POLL_MAX_DELAY_MS = 30000;
+
+const STATUS_ALIASES: Record<string, ParseStatus> = {
+  queued: "queued",
+  pending: "queued",
+  uploaded: "queued",
+  parsing: "parsing",
+  processing: "parsing",
+  in_progress: "parsing",
+  parsed: "parsed",
+  completed: "parsed",
+  complete: "parsed",
+  done: "parsed",
+  success: "parsed",
+  failed: "failed",
+  failure: "failed",
+  error: "failed",
+};
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function readFirstString(source: Record<string, unknown>, keys: string[]): string {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+  return "";
+}
+
+export function normalizeParseStatus(value: unknown): ParseStatus | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  return STATUS_ALIASES[value.trim().toLowerCase().replace(/[\s-]+/g, "_")] ?? null;
+}
+
+export function isParseStatusSettled(status: ParseStatus) {
+  return status === "parsed" || status === "failed";
+}
+
+export function formatParseStatus(status: ParseStatus) {
+  switch (status) {
+    case "queued":
+      return "Queued";
+    case "parsing":
+      return "Parsing";
+    case "parsed":
+      return "Parsed";
+    case "failed":
+      return "Failed";
+  }
+}
+
+/** Reads parse status and parser error from a receipt or a status event payload. */
+export function readParseStatus(value: unknown): ParseStatusEvent | null {
+  const source = toObject(value);
+  if (!source) {
+    return null;
+  }
+  const receiptObject = toObject(source.receipt) ?? source;
+  const rawId = receiptObject.receiptId ?? receiptObject.id ?? receiptObject._id;
+  const status = normalizeParseStatus(
+    readFirstString(receiptObject, ["parseStatus", "processingStatus", "status", "state"])
+  );
+  if ((typeof rawId !== "string" && typeof rawId !== "number") || !status) {
+    return null;
+  }
+  return {
+    receiptId: String(rawId),
+    status,
+    error:
+      status === "failed"
+        ? readFirstString(receiptObject, ["parseError", "error", "errorMessage", "message"]) ||
+          "The receipt could not be parsed."
+        : "",
+  };
+}
+
+export function openParseStatusStream(receiptIds: string[], signal: AbortSignal) {
+  const params = new URLSearchParams({ ids: receiptIds.join(",") });
+  return authFetch(`${PARSE_STATUS_STREAM_URL}?${params.toString()}`, {
+    method: "GET",
+    headers: { Accept: "text/event-stream" },
+    cache: "no-store",
+    signal,
+  });
+}
+
+function waitFor(delayMs: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = window.setTimeout(resolve, delayMs);
+    signal.addEventListener(
+      "abort",
+      () => {
+        window.clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+// Minimal text/event-stream reader: only `data:` lines matter, events end on a blank line.
+async function readEventStream(
+  response: Response,
+  onData: (data: string) => boolean,
+  signal: AbortSignal
+) {
+  if (!response.body) {
+    return false;
+  }
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  try {
+    while (!signal.aborted) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return false;
+      }
+      buffer += value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).trimStart());
+        } else if (!line && dataLines.length > 0) {
+          const finished = onData(dataLines.join("\n"));
+          dataLines = [];
+          if (finished) {
+            return true;
+          }
+        }
+      }
+    }
+    return true;
+  } finally {
+    void reader.cancel().catch(() => undefined);
+  }
+}
+
+async function pollParseStatus(
+  receiptIds: Set<string>,
+  emit: (event: ParseStatusEvent) => boolean,
+  signal: AbortSignal
+) {
+  let delayMs = POLL_INITIAL_DELAY_MS;
+  while (!signal.aborted && receiptIds.size > 0) {
+    await waitFor(delayMs, signal);
+    let changed = false;
+
+    for (const receiptId of [...receiptIds]) {
+      if (signal.aborted) {
+        return;
+      }
+      try {
+        const response = await authFetch(`/api/receipts/${receiptId}`, {
+          method: "GET",
+          cache: "no-store",
+          signal,
+        });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          continue;
+        }
+        const event = readParseStatus(payload);
+        // A receipt without a recognizable status has been parsed by an older backend.
+        changed = emit(event ?? { receiptId, status: "parsed", error: "" }) || changed;
+      } catch {
+        // Network hiccup; the next round retries with a longer delay.
+      }
+    }
+
+    delayMs = changed ? POLL_INITIAL_DELAY_MS : Math.min(delayMs * 2, POLL_MAX_DELAY_MS);
+  }
+}
+
+/**
+ * Follows the parse status of the given receipts until each one is parsed or failed.
+ * Listens to the server-sent event stream and falls back to polling each receipt with
+ * exponential backoff when the stream is unavailable or drops. Returns an unsubscribe.
+ */
+export function subscribeToParseStatus(
+  receiptIds: string[],
+  onEvent: (event: ParseStatusEvent) => void,
+  openStream: OpenParseStatusStream = openParseStatusStream
+) {
+  const controller = new AbortController();
+  const pending = new Set(receiptIds);
+  const lastStatus = new Map<string, ParseStatus>();
+
+  const emit = (event: ParseStatusEvent) => {
+    if (!pending.has(event.receiptId) || lastStatus.get(event.receiptId) === event.status) {
+      return false;
+    }
+    lastStatus.set(event.receiptId, event.status);
+    if (isParseStatusSettled(event.status)) {
+      pending.delete(event.receiptId);
+    }
+    onEvent(event);
+    return true;
+  };
+
+  const run = async () => {
+    if (pending.size === 0) {
+      return;
+    }
+    try {
+      const response = await openStream([...pending], controller.signal);
+      const contentType = response.headers.get("Content-Type") ?? "";
+      if (response.ok && contentType.includes("text/event-stream")) {
+        const finished = await readEventStream(
+          response,
+          (data) => {
+            try {
+              const event = readParseStatus(JSON.parse(data));
+              if (event) {
+                emit(event);
+              }
+            } catch {
+              // Ignore keep-alive or malformed frames.
+            }
+            return pending.size === 0;
+          },
+          controller.signal
+        );
+        if (finished) {
+          return;
+        }
+      }
+    } catch {
+      if (controller.signal.aborted) {
+        return;
+      }
+    }
+    await pollParseStatus(pending, emit, controller.signal);
+  };
+
+  void run();
+  return () => controller.abort();
+}
@@ -0,0 +1,357 @@
+"use client";
+
+export type Point = {
+  x: number;
+  y: number;
+};
+
+/** Corners in image pixels, clockwise from top-left. */
+export type Quad = [Point, Point, Point, Point];
+
+const DETECTION_MAX_EDGE = 320;
+const MIN_RECEIPT_AREA_RATIO = 0.08;
+
+export function defaultQuad(width: number, height: number, insetRatio = 0.08): Quad {
+  const insetX = width * insetRatio;
+  const insetY = height * insetRatio;
+  return [
+    { x: insetX, y: insetY },
+    { x: width - insetX, y: insetY },
+    { x: width - insetX, y: height - insetY },
+    { x: insetX, y: height - insetY },
+  ];
+}
+
+function toGrayscale(data: Uint8ClampedArray, width: number, height: number) {
+  const gray = new Float32Array(width * height);
+  for (let index = 0; index < gray.length; index += 1) {
+    const offset = index * 4;
+    gray[index] = data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+  }
+  return gray;
+}
+
+function boxBlur(source: Float32Array, width: number, height: number) {
+  const output = new Float32Array(source.length);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy += 1) {
+        const row = y + dy;
+        if (row < 0 || row >= height) {
+          continue;
+        }
+        for (let dx = -1; dx <= 1; dx += 1) {
+          const column = x + dx;
+          if (column < 0 || column >= width) {
+            continue;
+          }
+          sum += source[row * width + column];
+          count += 1;
+        }
+      }
+      output[y * width + x] = sum / count;
+    }
+  }
+  return output;
+}
+
+// Sobel magnitude; strong edges become walls so paper and a similarly bright table stay apart.
+function edgeMagnitude(source: Float32Array, width: number, height: number) {
+  const output = new Float32Array(source.length);
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const at = (dx: number, dy: number) => source[(y + dy) * width + (x + dx)];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      output[y * width + x] = Math.hypot(gx, gy);
+    }
+  }
+  return output;
+}
+
+function otsuThreshold(values: Float32Array) {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of values) {
+    histogram[Math.min(255, Math.max(0, Math.round(value)))] += 1;
+  }
+
+  const total = values.length;
+  let weightedSum = 0;
+  for (let level = 0; level < 256; level += 1) {
+    weightedSum += level * histogram[level];
+  }
+
+  let backgroundWeight = 0;
+  let backgroundSum = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+  for (let level = 0; level < 256; level += 1) {
+    backgroundWeight += histogram[level];
+    if (backgroundWeight === 0) {
+      continue;
+    }
+    const foregroundWeight = total - backgroundWeight;
+    if (foregroundWeight === 0) {
+      break;
+    }
+    backgroundSum += level * histogram[level];
+    const backgroundMean = backgroundSum / backgroundWeight;
+    const foregroundMean = (weightedSum - backgroundSum) / foregroundWeight;
+    const variance =
+      backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+}
+
+function largestComponent(mask: Uint8Array, width: number, height: number) {
+  const labels = new Int32Array(mask.length).fill(-1);
+  const stack = new Int32Array(mask.length);
+  let best: number[] = [];
+
+  for (let start = 0; start < mask.length; start += 1) {
+    if (!mask[start] || labels[start] !== -1) {
+      continue;
+    }
+
+    const members: number[] = [];
+    let stackSize = 0;
+    stack[stackSize++] = start;
+    labels[start] = start;
+
+    while (stackSize > 0) {
+      const index = stack[--stackSize];
+      members.push(index);
+      const x = index % width;
+      const y = (index - x) / width;
+      const neighbors = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const neighbor of neighbors) {
+        if (neighbor >= 0 && mask[neighbor] && labels[neighbor] === -1) {
+          labels[neighbor] = start;
+          stack[stackSize++] = neighbor;
+        }
+      }
+    }
+
+    if (members.length > best.length) {
+      best = members;
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds the receipt outline in a photo. Receipts are bright paper, so we threshold the
+ * blurred luminance (Otsu), cut along Sobel edges, keep the largest bright region and
+ * take its extreme points as corners. Falls back to an inset rectangle when nothing
+ * plausible is found.
+ */
+export function detectReceiptQuad(source: CanvasImageSource, width: number, height: number): Quad {
+  const scale = Math.min(1, DETECTION_MAX_EDGE / Math.max(width, height));
+  const sampleWidth = Math.max(1, Math.round(width * scale));
+  const sampleHeight = Math.max(1, Math.round(height * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = sampleWidth;
+  canvas.height = sampleHeight;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    return defaultQuad(width, height);
+  }
+
+  context.drawImage(source, 0, 0, sampleWidth, sampleHeight);
+  const { data } = context.getImageData(0, 0, sampleWidth, sampleHeight);
+  const gray = boxBlur(toGrayscale(data, sampleWidth, sampleHeight), sampleWidth, sampleHeight);
+  const edges = edgeMagnitude(gray, sampleWidth, sampleHeight);
+  const threshold = otsuThreshold(gray);
+  const edgeThreshold = otsuThreshold(edges.map((value) => Math.min(255, value / 4)));
+
+  const mask = new Uint8Array(gray.length);
+  for (let index = 0; index < gray.length; index += 1) {
+    mask[index] = gray[index] > threshold && edges[index] / 4 <= edgeThreshold ? 1 : 0;
+  }
+
+  const component = largestComponent(mask, sampleWidth, sampleHeight);
+  const areaRatio = component.length / mask.length;
+  if (areaRatio < MIN_RECEIPT_AREA_RATIO || areaRatio > 0.98) {
+    return defaultQuad(width, height);
+  }
+
+  const toSamplePoint = (index: number): Point => {
+    const x = index % sampleWidth;
+    return { x, y: (index - x) / sampleWidth };
+  };
+  const corners = [component[0], component[0], component[0], component[0]];
+  const best = [Infinity, -Infinity, -Infinity, -Infinity];
+  for (const index of component) {
+    const { x, y } = toSamplePoint(index);
+    if (x + y < best[0]) {
+      best[0] = x + y;
+      corners[0] = index;
+    }
+    if (x - y > best[1]) {
+      best[1] = x - y;
+      corners[1] = index;
+    }
+    if (x + y > best[2]) {
+      best[2] = x + y;
+      corners[2] = index;
+    }
+    if (y - x > best[3]) {
+      best[3] = y - x;
+      corners[3] = index;
+    }
+  }
+
+  const toImagePoint = (index: number): Point => {
+    const { x, y } = toSamplePoint(index);
+    return { x: (x + 0.5) / scale, y: (y + 0.5) / scale };
+  };
+  return [
+    toImagePoint(corners[0]),
+    toImagePoint(corners[1]),
+    toImagePoint(corners[2]),
+    toImagePoint(corners[3]),
+  ];
+}
+
+function distance(left: Point, right: Point) {
+  return Math.hypot(left.x - right.x, left.y - right.y);
+}
+
+function solveLinearSystem(matrix: number[][], vector: number[]) {
+  const size = vector.length;
+  const rows = matrix.map((row, index) => [...row, vector[index]]);
+
+  for (let column = 0; column < size; column += 1) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row += 1) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-10) {
+      return null;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    for (let row = 0; row < size; row += 1) {
+      if (row === column) {
+        continue;
+      }
+      const factor = rows[row][column] / rows[column][column];
+      for (let index = column; index <= size; index += 1) {
+        rows[row][index] -= factor * rows[column][index];
+      }
+    }
+  }
+
+  return rows.map((row, index) => row[size] / row[index]);
+}
+
+// Homography mapping the output rectangle back onto the source quad (inverse warp).
+function computeHomography(from: Quad, to: Quad) {
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+  for (let index = 0; index < 4; index += 1) {
+    const { x, y } = from[index];
+    const { x: u, y: v } = to[index];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    vector.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    vector.push(v);
+  }
+  const solution = solveLinearSystem(matrix, vector);
+  return solution ? [...solution, 1] : null;
+}
+
+export function quadOutputSize(quad: Quad, maxEdge: number) {
+  const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+  const width = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+  const height = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+  const scale = Math.min(1, maxEdge / Math.max(width, height, 1));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Flattens the quad into an upright rectangle. Sampling is bilinear from the full
+ * resolution source, so the output is as sharp as the original photo allows.
+ */
+export function warpPerspective(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  quad: Quad,
+  maxEdge: number
+) {
+  const { width, height } = quadOutputSize(quad, maxEdge);
+  const homography = computeHomography(
+    [
+      { x: 0, y: 0 },
+      { x: width, y: 0 },
+      { x: width, y: height },
+      { x: 0, y: height },
+    ],
+    quad
+  );
+  if (!homography) {
+    return null;
+  }
+
+  const sourceCanvas = document.createElement("canvas");
+  sourceCanvas.width = sourceWidth;
+  sourceCanvas.height = sourceHeight;
+  const sourceContext = sourceCanvas.getContext("2d", { willReadFrequently: true });
+  const outputCanvas = document.createElement("canvas");
+  outputCanvas.width = width;
+  outputCanvas.height = height;
+  const outputContext = outputCanvas.getContext("2d");
+  if (!sourceContext || !outputContext) {
+    return null;
+  }
+
+  sourceContext.drawImage(source, 0, 0, sourceWidth, sourceHeight);
+  const sourceData = sourceContext.getImageData(0, 0, sourceWidth, sourceHeight).data;
+  const output = outputContext.createImageData(width, height);
+  const [h0, h1, h2, h3, h4, h5, h6, h7, h8] = homography;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const denominator = h6 * (x + 0.5) + h7 * (y + 0.5) + h8;
+      const sourceX = (h0 * (x + 0.5) + h1 * (y + 0.5) + h2) / denominator - 0.5;
+      const sourceY = (h3 * (x + 0.5) + h4 * (y + 0.5) + h5) / denominator - 0.5;
+      const x0 = Math.min(Math.max(Math.floor(sourceX), 0), sourceWidth - 1);
+      const y0 = Math.min(Math.max(Math.floor(sourceY), 0), sourceHeight - 1);
+      const x1 = Math.min(x0 + 1, sourceWidth - 1);
+      const y1 = Math.min(y0 + 1, sourceHeight - 1);
+      const fx = Math.min(Math.max(sourceX - x0, 0), 1);
+      const fy = Math.min(Math.max(sourceY - y0, 0), 1);
+      const outputOffset = (y * width + x) * 4;
+
+      for (let channel = 0; channel < 4; channel += 1) {
+        const topValue =
+          sourceData[(y0 * sourceWidth + x0) * 4 + channel] * (1 - fx) +
+          sourceData[(y0 * sourceWidth + x1) * 4 + channel] * fx;
+        const bottomValue =
+          sourceData[(y1 * sourceWidth + x0) * 4 + channel] * (1 - fx) +
+          sourceData[(y1 * sourceWidth + x1) * 4 + channel] * fx;
+        output.data[outputOffset + channel] = topValue * (1 - fy) + bottomValue * fy;
+      }
+    }
+  }
+
+  outputContext.putImageData(output, 0, 0);
+  return outputCanvas;
+}
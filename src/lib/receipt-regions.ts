@@ -0,0 +1,210 @@
+"use client";
+
+// Where the parser found each field on the receipt image. Boxes may arrive as ratios
+// of the page (0..1) or in image pixels; the viewer normalizes pixels once it knows
+// the image size.
+
+export type RegionBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  unit: "ratio" | "pixel";
+};
+
+export type ReceiptRegion = {
+  field: string;
+  page: number;
+  // The attachment the box was found on; null means the receipt's first attachment.
+  imageId: number | null;
+  box: RegionBox;
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  merchant: "merchantName",
+  merchantname: "merchantName",
+  store: "merchantName",
+  vendor: "merchantName",
+  date: "receiptDate",
+  receiptdate: "receiptDate",
+  transactiondate: "receiptDate",
+  currency: "currency",
+  subtotal: "subtotal",
+  tax: "tax",
+  total: "total",
+  totalamount: "total",
+  amount: "total",
+};
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+export function itemRegionField(index: number) {
+  return `items.${index}`;
+}
+
+function normalizeField(value: string) {
+  const itemMatch = value.match(/^items?[.[_-]?(\d+)\]?$/i);
+  if (itemMatch) {
+    return itemRegionField(Number(itemMatch[1]));
+  }
+  return FIELD_ALIASES[value.replace(/[^a-z]/gi, "").toLowerCase()] ?? "";
+}
+
+function boxFromCorners(left: number, top: number, right: number, bottom: number): RegionBox {
+  const x = Math.min(left, right);
+  const y = Math.min(top, bottom);
+  const width = Math.abs(right - left);
+  const height = Math.abs(bottom - top);
+  return {
+    x,
+    y,
+    width,
+    height,
+    unit: Math.max(x + width, y + height) <= 1 ? "ratio" : "pixel",
+  };
+}
+
+/** Accepts {x,y,width,height}, {left,top,right,bottom}, [x0,y0,x1,y1] or a polygon. */
+export function readRegionBox(value: unknown): RegionBox | null {
+  if (Array.isArray(value)) {
+    const numbers = value.map(toNumber);
+    if (numbers.length === 4 && numbers.every((entry) => entry !== null)) {
+      const [left, top, right, bottom] = numbers as number[];
+      return boxFromCorners(left, top, right, bottom);
+    }
+    const points = value
+      .map(toObject)
+      .map((point) => (point ? [toNumber(point.x), toNumber(point.y)] : [null, null]))
+      .filter((point): point is [number, number] => point[0] !== null && point[1] !== null);
+    if (points.length >= 2) {
+      const xs = points.map((point) => point[0]);
+      const ys = points.map((point) => point[1]);
+      return boxFromCorners(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys));
+    }
+    return null;
+  }
+
+  const source = toObject(value);
+  if (!source) {
+    return null;
+  }
+  const nested =
+    source.box ?? source.boundingBox ?? source.bbox ?? source.vertices ?? source.polygon;
+  if (nested !== undefined) {
+    return readRegionBox(nested);
+  }
+
+  const left = toNumber(source.x ?? source.left ?? source.x0);
+  const top = toNumber(source.y ?? source.top ?? source.y0);
+  const width = toNumber(source.width ?? source.w);
+  const height = toNumber(source.height ?? source.h);
+  if (left !== null && top !== null && width !== null && height !== null) {
+    return boxFromCorners(left, top, left + width, top + height);
+  }
+  const right = toNumber(source.right ?? source.x1);
+  const bottom = toNumber(source.bottom ?? source.y1);
+  if (left !== null && top !== null && right !== null && bottom !== null) {
+    return boxFromCorners(left, top, right, bottom);
+  }
+  return null;
+}
+
+function readPage(value: unknown) {
+  const source = toObject(value);
+  const page = toNumber(source?.page ?? source?.pageNumber);
+  return page !== null && page >= 1 ? Math.floor(page) : 1;
+}
+
+function readImageId(value: unknown) {
+  const source = toObject(value);
+  return toNumber(source?.imageId ?? source?.image_id ?? null);
+}
+
+function toRegion(field: string, value: unknown): ReceiptRegion | null {
+  const normalizedField = normalizeField(field);
+  const box = readRegionBox(value);
+  if (!normalizedField || !box || box.width <= 0 || box.height <= 0) {
+    return null;
+  }
+  return { field: normalizedField, page: readPage(value), imageId: readImageId(value), box };
+}
+
+/** Collects field regions from a receipt payload, including per-item boxes. */
+export function readReceiptRegions(payloadObject: Record<string, unknown>) {
+  const regions: ReceiptRegion[] = [];
+  const rawRegions =
+    payloadObject.boundingBoxes ??
+    payloadObject.fieldBoxes ??
+    payloadObject.fieldRegions ??
+    payloadObject.regions;
+
+  if (Array.isArray(rawRegions)) {
+    for (const entry of rawRegions) {
+      const entryObject = toObject(entry);
+      const field = entryObject?.field ?? entryObject?.name ?? entryObject?.key;
+      const region = typeof field === "string" ? toRegion(field, entry) : null;
+      if (region) {
+        regions.push(region);
+      }
+    }
+  } else {
+    for (const [field, value] of Object.entries(toObject(rawRegions) ?? {})) {
+      const region = toRegion(field, value);
+      if (region) {
+        regions.push(region);
+      }
+    }
+  }
+
+  const items = Array.isArray(payloadObject.items) ? payloadObject.items : [];
+  items.forEach((item, index) => {
+    const itemObject = toObject(item);
+    const rawBox = itemObject?.boundingBox ?? itemObject?.bbox ?? itemObject?.region;
+    if (rawBox === undefined) {
+      return;
+    }
+    const region = toRegion(itemRegionField(index), rawBox);
+    if (region && !regions.some((existing) => existing.field === region.field)) {
+      const hasOwnPage = toObject(rawBox)?.page !== undefined;
+      regions.push({
+        ...region,
+        page: hasOwnPage ? region.page : readPage(itemObject),
+        imageId: region.imageId ?? readImageId(itemObject),
+      });
+    }
+  });
+
+  return regions;
+}
+
+export function toRatioBox(box: RegionBox, naturalWidth: number, naturalHeight: number) {
+  if (box.unit === "ratio") {
+    return box;
+  }
+  if (!naturalWidth || !naturalHeight) {
+    return null;
+  }
+  return {
+    x: box.x / naturalWidth,
+    y: box.y / naturalHeight,
+    width: box.width / naturalWidth,
+    height: box.height / naturalHeight,
+    unit: "ratio" as const,
+  };
+}
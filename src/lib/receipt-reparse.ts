@@ -0,0 +1,141 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+import { type FieldChange, type ReceiptSnapshot, readReceiptSnapshot } from "./receipt-history";
+
+// Re-parsing an existing receipt with hints the parser cannot infer reliably on its own.
+// The parse runs as a dry run: the backend returns what it read without saving, and the
+// receipt page lets the user accept the proposed values one field at a time.
+
+export type ReparseHints = {
+  // ISO 4217 code; empty lets the parser decide.
+  currency: string;
+  // BCP 47 tag for number and date conventions, e.g. "de-DE".
+  locale: string;
+  dateFormat: string;
+  itemizedGrocery: boolean;
+};
+
+/** A change the user can accept on its own. Line items are accepted as one list. */
+export type ProposedChange = {
+  key: ProposedChangeKey;
+  label: string;
+  changes: FieldChange[];
+};
+
+export type ProposedChangeKey =
+  | "merchantName"
+  | "receiptDate"
+  | "currency"
+  | "category"
+  | "subtotal"
+  | "tax"
+  | "total"
+  | "items";
+
+export const DEFAULT_REPARSE_HINTS: ReparseHints = {
+  currency: "",
+  locale: "",
+  dateFormat: "",
+  itemizedGrocery: false,
+};
+
+export const REPARSE_LOCALE_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Detect" },
+  { value: "en-US", label: "English (US)" },
+  { value: "en-GB", label: "English (UK)" },
+  { value: "de-DE", label: "German" },
+  { value: "fr-FR", label: "French" },
+  { value: "es-ES", label: "Spanish" },
+  { value: "it-IT", label: "Italian" },
+  { value: "nl-NL", label: "Dutch" },
+  { value: "ja-JP", label: "Japanese" },
+  { value: "zh-CN", label: "Chinese (Simplified)" },
+];
+
+export const REPARSE_DATE_FORMAT_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Detect" },
+  { value: "MM/DD/YYYY", label: "MM/DD/YYYY" },
+  { value: "DD/MM/YYYY", label: "DD/MM/YYYY" },
+  { value: "YYYY-MM-DD", label: "YYYY-MM-DD" },
+  { value: "DD.MM.YYYY", label: "DD.MM.YYYY" },
+];
+
+const PROPOSED_FIELD_KEYS: Exclude<ProposedChangeKey, "items">[] = [
+  "merchantName",
+  "receiptDate",
+  "currency",
+  "category",
+  "subtotal",
+  "tax",
+  "total",
+];
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readErrorMessage(payload: unknown, fallback: string) {
+  const payloadObject = toObject(payload);
+  return toString(payloadObject?.message) || toString(payloadObject?.error) || fallback;
+}
+
+/**
+ * Groups a snapshot diff into acceptable changes. Tags, notes and custom fields are never
+ * proposed; the parser does not read them.
+ */
+export function groupProposedChanges(changes: FieldChange[]): ProposedChange[] {
+  const grouped: ProposedChange[] = [];
+  for (const key of PROPOSED_FIELD_KEYS) {
+    const change = changes.find((entry) => entry.key === key);
+    if (change) {
+      grouped.push({ key, label: change.label, changes: [change] });
+    }
+  }
+  const itemChanges = changes.filter((entry) => entry.key.startsWith("items."));
+  if (itemChanges.length > 0) {
+    grouped.push({ key: "items", label: "Line Items", changes: itemChanges });
+  }
+  return grouped;
+}
+
+/** Parses the receipt's pages again with hints and resolves with the proposed values. */
+export async function requestReparseProposal(
+  receiptId: number,
+  imageIds: number[],
+  hints: ReparseHints
+): Promise<ReceiptSnapshot> {
+  const response = await authFetch("/api/receipts/parse", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      receiptId,
+      imageId: imageIds[0],
+      imageIds,
+      dryRun: true,
+      hints: {
+        currency: hints.currency.trim().toUpperCase() || undefined,
+        locale: hints.locale || undefined,
+        dateFormat: hints.dateFormat || undefined,
+        itemizedGrocery: hints.itemizedGrocery || undefined,
+      },
+    }),
+  });
+  const payload = await response.json().catch(() => null);
+  const payloadObject = toObject(payload);
+  if (!response.ok || !payloadObject) {
+    throw new Error(readErrorMessage(payload, "Failed to re-parse receipt."));
+  }
+  return readReceiptSnapshot(
+    toObject(payloadObject.data) ?? toObject(payloadObject.receipt) ?? payloadObject
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+import { preprocessReceiptImage } from "./image-preprocess";
+import { isPdfFile, PDF_CONTENT_TYPE } from "./pdf-preview";
+
+export type ReceiptUploadStage = "uploading" | "parsing";
+
+export type UploadedReceiptImage = {
+  imageId: number | string;
+  objectKey: string;
+};
+
+export type ReceiptUploadResult = UploadedReceiptImage & {
+  parsePayload: unknown;
+};
+
+export class ReceiptUploadError extends Error {
+  status: number;
+  uploadedImage: UploadedReceiptImage | null;
+
+  constructor(message: string, status: number, uploadedImage: UploadedReceiptImage | null = null) {
+    super(message);
+    this.name = "ReceiptUploadError";
+    this.status = status;
+    this.uploadedImage = uploadedImage;
+  }
+}
+
+const OFFLINE_MESSAGE = "You appear to be offline.";
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function readMessage(payload: unknown, fallback: string) {
+  const message = toObject(payload)?.message;
+  return typeof message === "string" && message.trim() ? message : fallback;
+}
+
+// fetch rejects with a TypeError only when the request never reached a server.
+async function fetchOrOffline(
+  request: () => Promise<Response>,
+  uploadedImage: UploadedReceiptImage | null = null
+) {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    throw new ReceiptUploadError(OFFLINE_MESSAGE, 0, uploadedImage);
+  }
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof TypeError) {
+      throw new ReceiptUploadError(OFFLINE_MESSAGE, 0, uploadedImage);
+    }
+    throw error;
+  }
+}
+
+// The backend answers 402/429 once the daily parse allowance is used up.
+export function isUploadQuotaError(error: unknown) {
+  return error instanceof ReceiptUploadError && (error.status === 402 || error.status === 429);
+}
+
+export function isOfflineUploadError(error: unknown): error is ReceiptUploadError {
+  return error instanceof ReceiptUploadError && error.status === 0;
+}
+
+export async function prepareReceiptFile(
+  sourceFile: File,
+  onStageChange?: (stage: ReceiptUploadStage, message: string) => void
+) {
+  if (isPdfFile(sourceFile)) {
+    return sourceFile;
+  }
+  onStageChange?.("uploading", "Optimizing image...");
+  return preprocessReceiptImage(sourceFile);
+}
+
+export async function parseUploadedReceipt(uploadedImage: UploadedReceiptImage) {
+  const parseResponse = await fetchOrOffline(
+    () =>
+      authFetch("/api/receipts/parse", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(uploadedImage),
+      }),
+    uploadedImage
+  );
+  const parsePayload = await parseResponse.json().catch(() => null);
+
+  if (!parseResponse.ok) {
+    throw new ReceiptUploadError(
+      readMessage(parsePayload, "Failed to parse receipt."),
+      parseResponse.status,
+      uploadedImage
+    );
+  }
+
+  return parsePayload;
+}
+
+/** Presigns and uploads a prepared file to storage without parsing it. */
+export async function uploadReceiptImage(
+  file: File,
+  onStageChange?: (stage: ReceiptUploadStage, message: string) => void
+): Promise<UploadedReceiptImage> {
+  const isPdf = isPdfFile(file);
+  const contentType = isPdf ? PDF_CONTENT_TYPE : file.type || "image/jpeg";
+  onStageChange?.("uploading", "Preparing direct upload...");
+
+  const presignResponse = await fetchOrOffline(() =>
+    authFetch("/api/images/upload-url", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        fileName: file.name,
+        contentType,
+        sizeBytes: file.size,
+      }),
+    })
+  );
+  const presignPayload = await presignResponse.json().catch(() => null);
+  const uploadPayloadObject = toObject(presignPayload);
+  const imageId = uploadPayloadObject?.imageId;
+  const objectKey = uploadPayloadObject?.objectKey;
+  const uploadUrl = uploadPayloadObject?.uploadUrl;
+
+  if (
+    !presignResponse.ok ||
+    (typeof imageId !== "number" && typeof imageId !== "string") ||
+    typeof objectKey !== "string" ||
+    !objectKey.trim() ||
+    typeof uploadUrl !== "string" ||
+    !uploadUrl.trim()
+  ) {
+    throw new ReceiptUploadError(
+      readMessage(presignPayload, "Failed to create upload URL."),
+      presignResponse.status
+    );
+  }
+
+  onStageChange?.("uploading", isPdf ? "Uploading receipt PDF..." : "Uploading receipt image...");
+
+  const directUploadResponse = await fetchOrOffline(() =>
+    fetch(uploadUrl, {
+      method: "PUT",
+      headers: {
+        "Content-Type": contentType,
+      },
+      body: file,
+    })
+  );
+
+  if (!directUploadResponse.ok) {
+    throw new ReceiptUploadError(
+      isPdf ? "Failed to upload PDF to storage." : "Failed to upload image to storage.",
+      directUploadResponse.status
+    );
+  }
+
+  return {
+    imageId: typeof imageId === "number" ? imageId : imageId.trim(),
+    objectKey: objectKey.trim(),
+  };
+}
+
+export async function uploadPreparedReceiptFile(
+  file: File,
+  onStageChange?: (stage: ReceiptUploadStage, message: string) => void
+): Promise<ReceiptUploadResult> {
+  const isPdf = isPdfFile(file);
+  const uploadedImage = await uploadReceiptImage(file, onStageChange);
+
+  onStageChange?.(
+    "parsing",
+    isPdf ? "PDF uploaded. Parsing receipt..." : "Image uploaded. Parsing receipt..."
+  );
+
+  const parsePayload = await parseUploadedReceipt(uploadedImage);
+  return { ...uploadedImage, parsePayload };
+}
@@ -0,0 +1,72 @@
+import type { NextRequest } from "next/server";
+
+// Server-only: resolves the signed-in user for local API routes by asking the backend,
+// which owns the session. Mirrors the rewrite target in next.config.ts.
+const AUTH_COOKIE = "auth_token";
+
+export type RequestUser = {
+  id: string;
+  token: string;
+};
+
+export class RequestAuthError extends Error {
+  status: number;
+  code: "unauthorized" | "auth_unavailable";
+
+  constructor(message: string, status: number, code: RequestAuthError["code"]) {
+    super(message);
+    this.name = "RequestAuthError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+function backendOrigin() {
+  const defaultOrigin =
+    process.env.NODE_ENV === "production"
+      ? "https://aireceipt-backend.guanchengli.com"
+      : "http://localhost:8080";
+  return (process.env.AIRECEIPT_BACKEND_ORIGIN ?? defaultOrigin)
+    .replace(/\/+$/, "")
+    .replace(/\/api$/, "");
+}
+
+export function readRequestToken(request: NextRequest) {
+  const authorization = request.headers.get("authorization") ?? "";
+  const bearer = authorization.match(/^Bearer\s+(.+)$/i);
+  if (bearer && bearer[1].trim()) {
+    return bearer[1].trim();
+  }
+  return request.cookies.get(AUTH_COOKIE)?.value.trim() ?? "";
+}
+
+export async function resolveRequestUser(request: NextRequest): Promise<RequestUser> {
+  const token = readRequestToken(request);
+  if (!token) {
+    throw new RequestAuthError("Sign in to upload receipts.", 401, "unauthorized");
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${backendOrigin()}/api/users/me`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${token}` },
+      cache: "no-store",
+    });
+  } catch {
+    throw new RequestAuthError("Could not verify your session.", 503, "auth_unavailable");
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new RequestAuthError("Your session has expired. Sign in again.", 401, "unauthorized");
+  }
+  const payload = await response.json().catch(() => null);
+  const user =
+    typeof payload === "object" && payload !== null ? (payload as Record<string, unknown>) : {};
+  const rawId = user.userId ?? user.id ?? user._id;
+  if (!response.ok || (typeof rawId !== "string" && typeof rawId !== "number")) {
+    throw new RequestAuthError("Could not verify your session.", 503, "auth_unavailable");
+  }
+
+  return { id: String(rawId), token };
+}
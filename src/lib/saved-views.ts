@@ -0,0 +1,199 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+import {
+  type DateRange,
+  EMPTY_TRANSACTION_FILTERS,
+  readTransactionFilters,
+  type TransactionFilters,
+  TRANSACTION_FILTER_KEYS,
+} from "./transaction-filters";
+import { readTransactionLayout, type TransactionLayout } from "./transaction-layout";
+
+// Named transaction views ("Unreviewed this quarter", "Travel over $200") are stored per
+// user on the backend. A view keeps its filters and a relative period, so it still means
+// "this quarter" when opened next quarter, plus the sort and table columns it was saved
+// with. Pinned views show as tabs on Transactions.
+
+export type SavedViewPeriod = "all" | "month" | "quarter" | "year";
+
+export type SavedView = {
+  id: string;
+  name: string;
+  period: SavedViewPeriod;
+  filters: TransactionFilters;
+  // Null for views that use the user's own sort and columns.
+  layout: TransactionLayout | null;
+  pinned: boolean;
+  position: number;
+};
+
+export type SavedViewInput = Pick<SavedView, "name" | "period" | "filters" | "layout" | "pinned">;
+
+export const SAVED_VIEW_PERIOD_OPTIONS: { value: SavedViewPeriod; label: string }[] = [
+  { value: "all", label: "All time" },
+  { value: "month", label: "This month" },
+  { value: "quarter", label: "This quarter" },
+  { value: "year", label: "This year" },
+];
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readErrorMessage(payload: unknown, fallback: string) {
+  const payloadObject = toObject(payload);
+  const message = toString(payloadObject?.message) || toString(payloadObject?.error);
+  return message || fallback;
+}
+
+function toDateParam(date: Date) {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+/** The dates a period covers, in local time; null for all time. */
+export function getPeriodRange(period: SavedViewPeriod, now = new Date()): DateRange | null {
+  const year = now.getFullYear();
+  switch (period) {
+    case "month":
+      return {
+        from: toDateParam(new Date(year, now.getMonth(), 1)),
+        to: toDateParam(new Date(year, now.getMonth() + 1, 0)),
+      };
+    case "quarter": {
+      const quarterStart = now.getMonth() - (now.getMonth() % 3);
+      return {
+        from: toDateParam(new Date(year, quarterStart, 1)),
+        to: toDateParam(new Date(year, quarterStart + 3, 0)),
+      };
+    }
+    case "year":
+      return { from: `${year}-01-01`, to: `${year}-12-31` };
+    default:
+      return null;
+  }
+}
+
+function readPeriod(value: unknown): SavedViewPeriod {
+  const period = toString(value);
+  return SAVED_VIEW_PERIOD_OPTIONS.some((option) => option.value === period)
+    ? (period as SavedViewPeriod)
+    : "all";
+}
+
+function readFilters(value: unknown) {
+  const source = toObject(value);
+  if (!source) {
+    return EMPTY_TRANSACTION_FILTERS;
+  }
+  const params = new URLSearchParams();
+  for (const key of TRANSACTION_FILTER_KEYS) {
+    const entry = source[key];
+    if (typeof entry === "string" || typeof entry === "number") {
+      params.set(key, String(entry));
+    }
+  }
+  return readTransactionFilters(params);
+}
+
+function readSavedView(value: unknown, index: number): SavedView | null {
+  const source = toObject(value);
+  const name = toString(source?.name);
+  const id = source?.id ?? source?.viewId ?? source?._id;
+  if (!source || !name || (typeof id !== "string" && typeof id !== "number")) {
+    return null;
+  }
+  return {
+    id: String(id),
+    name,
+    period: readPeriod(source.period),
+    filters: readFilters(source.filters),
+    layout: toObject(source.layout) ? readTransactionLayout(source.layout) : null,
+    pinned: source.pinned === true || source.isPinned === true,
+    position: toNumber(source.position ?? source.sortOrder) ?? index,
+  };
+}
+
+async function requestSavedViews(path: string, init: RequestInit, fallbackMessage: string) {
+  const response = await authFetch(path, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readErrorMessage(payload, fallbackMessage));
+  }
+  return payload;
+}
+
+/** The signed-in user's saved views, in display order. */
+export async function fetchSavedViews(): Promise<SavedView[]> {
+  const payload = await requestSavedViews(
+    "/api/saved-views",
+    { method: "GET", cache: "no-store" },
+    "Failed to load saved views."
+  );
+  const payloadObject = toObject(payload);
+  const viewsRaw = Array.isArray(payload)
+    ? payload
+    : Array.isArray(payloadObject?.data)
+      ? payloadObject.data
+      : Array.isArray(payloadObject?.views)
+        ? payloadObject.views
+        : [];
+  return viewsRaw
+    .map(readSavedView)
+    .filter((view): view is SavedView => view !== null)
+    .sort((left, right) => left.position - right.position);
+}
+
+export async function createSavedView(input: SavedViewInput) {
+  const payload = await requestSavedViews(
+    "/api/saved-views",
+    { method: "POST", body: JSON.stringify(input) },
+    "Failed to save view."
+  );
+  const view = readSavedView(toObject(payload)?.data ?? payload, 0);
+  if (!view) {
+    throw new Error("Failed to save view.");
+  }
+  return view;
+}
+
+export async function updateSavedView(id: string, changes: Partial<SavedViewInput>) {
+  await requestSavedViews(
+    `/api/saved-views/${encodeURIComponent(id)}`,
+    { method: "PUT", body: JSON.stringify(changes) },
+    "Failed to update view."
+  );
+}
+
+export async function deleteSavedView(id: string) {
+  await requestSavedViews(
+    `/api/saved-views/${encodeURIComponent(id)}`,
+    { method: "DELETE" },
+    "Failed to delete view."
+  );
+}
@@ -0,0 +1,69 @@
+// Server-only environment access. Amplify SSR cannot expose `AWS_*` names at runtime,
+// so values may also arrive in the JSON or KEY=value `secrets` blob.
+
+export function readAmplifySecrets() {
+  const raw = process.env.secrets;
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === "object" && parsed !== null
+      ? (parsed as Record<string, string>)
+      : {};
+  } catch {
+    return raw
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .reduce<Record<string, string>>((accumulator, line) => {
+        const separatorIndex = line.indexOf("=");
+        if (separatorIndex <= 0) {
+          return accumulator;
+        }
+        const key = line.slice(0, separatorIndex).trim();
+        const value = line.slice(separatorIndex + 1).trim();
+        if (key && value) {
+          accumulator[key] = value;
+        }
+        return accumulator;
+      }, {});
+  }
+}
+
+export function readEnv(name: string) {
+  const value = process.env[name];
+  if (value && value.trim()) {
+    return value.trim();
+  }
+
+  const secretValue = readAmplifySecrets()[name];
+  if (typeof secretValue === "string" && secretValue.trim()) {
+    return secretValue.trim();
+  }
+
+  return "";
+}
+
+function readFirstEnv(names: string[]) {
+  for (const name of names) {
+    const value = readEnv(name);
+    if (value) {
+      return value;
+    }
+  }
+  return "";
+}
+
+export function requiredEnv(...names: string[]) {
+  const value = readFirstEnv(names);
+  if (!value) {
+    throw new Error(`Missing environment variable: ${names.join(" / ")}`);
+  }
+  return value;
+}
+
+export function optionalEnv(...names: string[]) {
+  return readFirstEnv(names);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { buildExportFile, type ExportableReceipt } from "./transaction-export";
+
+const RECEIPT: ExportableReceipt = {
+  id: "42",
+  merchant: "Corner Market",
+  date: "2026-03-14",
+  amount: 12.5,
+  subtotal: 11.5,
+  tax: 1,
+  currency: "USD",
+  category: "Groceries",
+  tags: [],
+  notes: "",
+  isManual: false,
+  reviewed: null,
+  customFields: {},
+  items: [
+    { description: "Bread", category: "", quantity: 1, unitPrice: 4, totalPrice: 4 },
+    { description: "Cheese", category: "", quantity: 1, unitPrice: 7.5, totalPrice: 7.5 },
+  ],
+};
+
+async function exportOfxItems(receipt: ExportableReceipt) {
+  const file = buildExportFile(
+    [receipt],
+    { format: "ofx", granularity: "item", columnIds: [] },
+    []
+  );
+  const content = await file.blob.text();
+  return {
+    amounts: [...content.matchAll(/<TRNAMT>(.+)/g)].map((match) => match[1]),
+    ids: [...content.matchAll(/<FITID>(.+)/g)].map((match) => match[1]),
+  };
+}
+
+describe("buildExportFile OFX per line item", () => {
+  it("adds tax and rounding as a final transaction so the receipt total adds up", async () => {
+    const { amounts, ids } = await exportOfxItems(RECEIPT);
+
+    expect(amounts).toEqual(["-4.00", "-7.50", "-1.00"]);
+    expect(ids).toEqual(["42-1", "42-2", "42-adj"]);
+  });
+
+  it("writes only the items when they cover the total", async () => {
+    const { amounts, ids } = await exportOfxItems({ ...RECEIPT, amount: 11.5 });
+
+    expect(amounts).toEqual(["-4.00", "-7.50"]);
+    expect(ids).toEqual(["42-1", "42-2"]);
+  });
+});
+
+describe("buildExportFile CSV", () => {
+  it("keeps OCR and typed text from running as spreadsheet formulas", async () => {
+    const file = buildExportFile(
+      [
+        {
+          ...RECEIPT,
+          merchant: "=HYPERLINK(\"http://example.com\")",
+          notes: "@SUM(A1)\r-2+3",
+          amount: -12.5,
+        },
+      ],
+      { format: "csv", granularity: "receipt", columnIds: ["merchant", "notes", "amount"] },
+      []
+    );
+    const [, row] = (await file.blob.text()).replace(/^\uFEFF/, "").split("\n");
+
+    expect(row).toBe('"\'=HYPERLINK(""http://example.com"")",-12.5,"\'@SUM(A1)\r-2+3"');
+  });
+});
@@ -0,0 +1,531 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+import type { CustomFieldDefinition, CustomFieldValues } from "./receipt-annotations";
+import { buildXlsx, type SheetCell } from "./xlsx-writer";
+
+// Builds the files behind the transactions Export dialog. CSV, XLSX and JSON carry the
+// columns the user picked, one row per receipt or per line item. OFX and QIF have a
+// fixed layout that bookkeeping tools import as bank transactions: spending is negative,
+// and per-line-item mode becomes one transaction per item (OFX) or splits (QIF), plus one
+// for tax and rounding so they still add up to the receipt.
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "ofx" | "qif";
+
+export type ExportGranularity = "receipt" | "item";
+
+export type ExportLineItem = {
+  description: string;
+  category: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  totalPrice: number | null;
+};
+
+export type ExportableReceipt = {
+  id: string;
+  merchant: string;
+  date: string | null;
+  amount: number | null;
+  subtotal: number | null;
+  tax: number | null;
+  currency: string;
+  category: string;
+  tags: string[];
+  notes: string;
+  isManual: boolean;
+  reviewed: boolean | null;
+  customFields: CustomFieldValues;
+  items: ExportLineItem[];
+};
+
+export type ExportColumnOption = {
+  id: string;
+  label: string;
+  // Line item columns are only offered in per-line-item mode.
+  scope: "receipt" | "item";
+};
+
+export type ExportOptions = {
+  format: ExportFormat;
+  granularity: ExportGranularity;
+  columnIds: string[];
+};
+
+export type ExportFile = {
+  blob: Blob;
+  fileName: string;
+  // Receipts left out because the format needs an amount they do not have.
+  skippedCount: number;
+};
+
+type ExportColumn = ExportColumnOption & {
+  // Key in JSON output.
+  key: string;
+  read: (receipt: ExportableReceipt, item: ExportLineItem | null) => SheetCell;
+};
+
+export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: "csv", label: "CSV", hint: "Spreadsheets and most accounting tools." },
+  { value: "xlsx", label: "XLSX", hint: "Excel workbook." },
+  { value: "json", label: "JSON", hint: "For scripts and integrations." },
+  { value: "ofx", label: "OFX", hint: "Bank statement import, e.g. QuickBooks or GnuCash." },
+  { value: "qif", label: "QIF", hint: "Quicken-style import with category splits." },
+];
+
+export const DEFAULT_EXPORT_COLUMN_IDS = [
+  "date",
+  "merchant",
+  "category",
+  "currency",
+  "subtotal",
+  "tax",
+  "amount",
+  "itemDescription",
+  "itemQuantity",
+  "itemTotal",
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8;",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+  ofx: "application/x-ofx",
+  qif: "application/qif",
+};
+
+const BUILT_IN_COLUMNS: ExportColumn[] = [
+  { id: "id", key: "id", label: "ID", scope: "receipt", read: (receipt) => receipt.id },
+  { id: "date", key: "date", label: "Date", scope: "receipt", read: (receipt) => receipt.date },
+  {
+    id: "merchant",
+    key: "merchant",
+    label: "Merchant",
+    scope: "receipt",
+    read: (receipt) => receipt.merchant,
+  },
+  {
+    id: "category",
+    key: "category",
+    label: "Category",
+    scope: "receipt",
+    read: (receipt) => receipt.category,
+  },
+  {
+    id: "currency",
+    key: "currency",
+    label: "Currency",
+    scope: "receipt",
+    read: (receipt) => receipt.currency,
+  },
+  {
+    id: "subtotal",
+    key: "subtotal",
+    label: "Subtotal",
+    scope: "receipt",
+    read: (receipt) => receipt.subtotal,
+  },
+  { id: "tax", key: "tax", label: "Tax", scope: "receipt", read: (receipt) => receipt.tax },
+  {
+    id: "amount",
+    key: "amount",
+    label: "Total",
+    scope: "receipt",
+    read: (receipt) => receipt.amount,
+  },
+  {
+    id: "source",
+    key: "source",
+    label: "Source",
+    scope: "receipt",
+    read: (receipt) => (receipt.isManual ? "manual" : "receipt"),
+  },
+  {
+    id: "reviewed",
+    key: "reviewed",
+    label: "Reviewed",
+    scope: "receipt",
+    read: (receipt) => (receipt.reviewed === null ? null : receipt.reviewed ? "yes" : "no"),
+  },
+  {
+    id: "tags",
+    key: "tags",
+    label: "Tags",
+    scope: "receipt",
+    read: (receipt) => receipt.tags.join("; "),
+  },
+  { id: "notes", key: "notes", label: "Notes", scope: "receipt", read: (receipt) => receipt.notes },
+  {
+    id: "itemDescription",
+    key: "itemDescription",
+    label: "Item",
+    scope: "item",
+    read: (_receipt, item) => item?.description ?? null,
+  },
+  {
+    id: "itemCategory",
+    key: "itemCategory",
+    label: "Item Category",
+    scope: "item",
+    read: (_receipt, item) => item?.category ?? null,
+  },
+  {
+    id: "itemQuantity",
+    key: "itemQuantity",
+    label: "Quantity",
+    scope: "item",
+    read: (_receipt, item) => item?.quantity ?? null,
+  },
+  {
+    id: "itemUnitPrice",
+    key: "itemUnitPrice",
+    label: "Unit Price",
+    scope: "item",
+    read: (_receipt, item) => item?.unitPrice ?? null,
+  },
+  {
+    id: "itemTotal",
+    key: "itemTotal",
+    label: "Item Total",
+    scope: "item",
+    read: (_receipt, item) => item?.totalPrice ?? null,
+  },
+];
+
+function getColumns(customFields: CustomFieldDefinition[]): ExportColumn[] {
+  return [
+    ...BUILT_IN_COLUMNS,
+    ...customFields.map((field) => ({
+      id: `custom:${field.id}`,
+      key: field.name,
+      label: field.name,
+      scope: "receipt" as const,
+      read: (receipt: ExportableReceipt) => receipt.customFields[field.id] ?? null,
+    })),
+  ];
+}
+
+/** Every column the chooser offers, custom fields last. */
+export function getExportColumnOptions(
+  customFields: CustomFieldDefinition[]
+): ExportColumnOption[] {
+  return getColumns(customFields).map(({ id, label, scope }) => ({ id, label, scope }));
+}
+
+export function supportsColumnChoice(format: ExportFormat) {
+  return format === "csv" || format === "xlsx" || format === "json";
+}
+
+function toRows(
+  receipts: ExportableReceipt[],
+  columns: ExportColumn[],
+  granularity: ExportGranularity
+) {
+  return receipts.flatMap((receipt) => {
+    // A receipt without line items still gets a row, with the item columns left blank.
+    const items: (ExportLineItem | null)[] =
+      granularity === "item" && receipt.items.length > 0 ? receipt.items : [null];
+    return items.map((item) => columns.map((column) => column.read(receipt, item)));
+  });
+}
+
+function escapeCsvValue(value: SheetCell) {
+  if (value === null) {
+    return "";
+  }
+  // Merchants, notes and items come from OCR or typing; Excel would run `=...` as a formula.
+  // Plain numbers such as a negative custom field value are left alone.
+  const isFormulaLike =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value);
+  const text = isFormulaLike ? `'${value}` : String(value);
+  if (/[,"\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function toDateParts(value: string | null) {
+  const match = value?.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    return { year: match[1], month: match[2], day: match[3] };
+  }
+  const parsed = value ? Date.parse(value) : Number.NaN;
+  if (Number.isNaN(parsed)) {
+    return null;
+  }
+  const date = new Date(parsed);
+  return {
+    year: String(date.getFullYear()),
+    month: String(date.getMonth() + 1).padStart(2, "0"),
+    day: String(date.getDate()).padStart(2, "0"),
+  };
+}
+
+function toFileDate(date: Date) {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+function toAmount(value: number) {
+  return value.toFixed(2);
+}
+
+/** Line items that can stand in for the receipt, or null when their totals are missing. */
+function getPricedItems(receipt: ExportableReceipt, granularity: ExportGranularity) {
+  if (
+    granularity !== "item" ||
+    receipt.items.length === 0 ||
+    receipt.items.some((item) => item.totalPrice === null)
+  ) {
+    return null;
+  }
+  return receipt.items as (ExportLineItem & { totalPrice: number })[];
+}
+
+function escapeSgml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function buildOfx(receipts: ExportableReceipt[], granularity: ExportGranularity) {
+  const currencyCounts = new Map<string, number>();
+  for (const receipt of receipts) {
+    const currency = receipt.currency.toUpperCase();
+    if (currency) {
+      currencyCounts.set(currency, (currencyCounts.get(currency) ?? 0) + 1);
+    }
+  }
+  const defaultCurrency =
+    [...currencyCounts.entries()].sort((left, right) => right[1] - left[1])[0]?.[0] ?? "USD";
+
+  const transactions: { date: string; amount: number; id: string; name: string; memo: string }[] =
+    [];
+  let skippedCount = 0;
+  for (const receipt of receipts) {
+    const dateParts = toDateParts(receipt.date);
+    if (receipt.amount === null || !dateParts) {
+      skippedCount += 1;
+      continue;
+    }
+    const date = `${dateParts.year}${dateParts.month}${dateParts.day}`;
+    // OFX has one currency per statement; others are noted in the memo.
+    const currencyNote =
+      receipt.currency && receipt.currency.toUpperCase() !== defaultCurrency
+        ? ` (${receipt.currency.toUpperCase()})`
+        : "";
+    const pricedItems = getPricedItems(receipt, granularity);
+    if (pricedItems) {
+      pricedItems.forEach((item, index) => {
+        transactions.push({
+          date,
+          amount: item.totalPrice,
+          id: `${receipt.id}-${index + 1}`,
+          name: receipt.merchant,
+          memo: `${item.description}${currencyNote}`,
+        });
+      });
+      // Item transactions must add up to the receipt; tax and rounding go in a final one.
+      const remainder =
+        receipt.amount - pricedItems.reduce((sum, item) => sum + item.totalPrice, 0);
+      if (Math.abs(remainder) >= 0.005) {
+        transactions.push({
+          date,
+          amount: remainder,
+          id: `${receipt.id}-adj`,
+          name: receipt.merchant,
+          memo: `Tax and adjustments${currencyNote}`,
+        });
+      }
+    } else {
+      transactions.push({
+        date,
+        amount: receipt.amount,
+        id: receipt.id,
+        name: receipt.merchant,
+        memo: `${[receipt.category, receipt.notes].filter(Boolean).join(" - ")}${currencyNote}`,
+      });
+    }
+  }
+
+  const dates = transactions.map((transaction) => transaction.date).sort();
+  const now = toFileDate(new Date()).replace(/-/g, "");
+  const lines = [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:UTF-8",
+    "CHARSET:NONE",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1><SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${now}`,
+    "<LANGUAGE>ENG",
+    "</SONRS></SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1><STMTTRNRS>",
+    "<TRNUID>1",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    "<STMTRS>",
+    `<CURDEF>${defaultCurrency}`,
+    "<BANKACCTFROM><BANKID>RECEIPTS<ACCTID>RECEIPTS<ACCTTYPE>CHECKING</BANKACCTFROM>",
+    "<BANKTRANLIST>",
+    `<DTSTART>${dates[0] ?? now}`,
+    `<DTEND>${dates[dates.length - 1] ?? now}`,
+    ...transactions.map((transaction) =>
+      [
+        "<STMTTRN>",
+        "<TRNTYPE>DEBIT",
+        `<DTPOSTED>${transaction.date}`,
+        `<TRNAMT>${toAmount(-transaction.amount)}`,
+        `<FITID>${escapeSgml(transaction.id)}`,
+        // NAME is limited to 32 characters.
+        `<NAME>${escapeSgml(transaction.name.slice(0, 32))}`,
+        transaction.memo ? `<MEMO>${escapeSgml(transaction.memo.slice(0, 255))}` : "",
+        "</STMTTRN>",
+      ]
+        .filter(Boolean)
+        .join("\n")
+    ),
+    "</BANKTRANLIST>",
+    `<LEDGERBAL><BALAMT>0.00<DTASOF>${now}</LEDGERBAL>`,
+    "</STMTRS>",
+    "</STMTTRNRS></BANKMSGSRSV1>",
+    "</OFX>",
+  ];
+  return { content: lines.join("\n"), skippedCount };
+}
+
+function toQifLine(code: string, value: string) {
+  // QIF is line based; a newline inside a field would start a new record field.
+  return `${code}${value.replace(/[\r\n]+/g, " ")}`;
+}
+
+function buildQif(receipts: ExportableReceipt[], granularity: ExportGranularity) {
+  const lines = ["!Type:Bank"];
+  let skippedCount = 0;
+  for (const receipt of receipts) {
+    const dateParts = toDateParts(receipt.date);
+    if (receipt.amount === null || !dateParts) {
+      skippedCount += 1;
+      continue;
+    }
+    lines.push(
+      toQifLine("D", `${dateParts.month}/${dateParts.day}/${dateParts.year}`),
+      toQifLine("T", toAmount(-receipt.amount)),
+      toQifLine("P", receipt.merchant)
+    );
+    if (receipt.category) {
+      lines.push(toQifLine("L", receipt.category));
+    }
+    if (receipt.notes.trim()) {
+      lines.push(toQifLine("M", receipt.notes.trim()));
+    }
+    const pricedItems = getPricedItems(receipt, granularity);
+    if (pricedItems) {
+      for (const item of pricedItems) {
+        lines.push(
+          toQifLine("S", item.category || receipt.category),
+          toQifLine("E", item.description),
+          toQifLine("$", toAmount(-item.totalPrice))
+        );
+      }
+      // Splits must add up to the total; tax and rounding go in a final split.
+      const remainder =
+        receipt.amount - pricedItems.reduce((sum, item) => sum + item.totalPrice, 0);
+      if (Math.abs(remainder) >= 0.005) {
+        lines.push(
+          toQifLine("S", receipt.category),
+          toQifLine("E", "Tax and adjustments"),
+          toQifLine("$", toAmount(-remainder))
+        );
+      }
+    }
+    lines.push("^");
+  }
+  return { content: lines.join("\n"), skippedCount };
+}
+
+export function buildExportFile(
+  receipts: ExportableReceipt[],
+  options: ExportOptions,
+  customFields: CustomFieldDefinition[]
+): ExportFile {
+  const fileName = `transactions-${toFileDate(new Date())}.${options.format}`;
+  const type = MIME_TYPES[options.format];
+
+  if (options.format === "ofx" || options.format === "qif") {
+    const { content, skippedCount } =
+      options.format === "ofx"
+        ? buildOfx(receipts, options.granularity)
+        : buildQif(receipts, options.granularity);
+    return { blob: new Blob([content], { type }), fileName, skippedCount };
+  }
+
+  const columns = getColumns(customFields).filter(
+    (column) =>
+      options.columnIds.includes(column.id) &&
+      (column.scope === "receipt" || options.granularity === "item")
+  );
+  if (columns.length === 0) {
+    throw new Error("Choose at least one column.");
+  }
+  const rows = toRows(receipts, columns, options.granularity);
+
+  if (options.format === "json") {
+    const records = rows.map((row) =>
+      Object.fromEntries(columns.map((column, index) => [column.key, row[index]]))
+    );
+    return {
+      blob: new Blob([JSON.stringify(records, null, 2)], { type }),
+      fileName,
+      skippedCount: 0,
+    };
+  }
+
+  const header = columns.map((column) => column.label);
+  if (options.format === "xlsx") {
+    return { blob: buildXlsx([header, ...rows], "Transactions"), fileName, skippedCount: 0 };
+  }
+  const csv = [header, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\n");
+  // The BOM makes Excel read the file as UTF-8.
+  return { blob: new Blob(["\uFEFF", csv], { type }), fileName, skippedCount: 0 };
+}
+
+/**
+ * Has the backend build the file for every receipt matching `query` except `excludedIds`,
+ * for selections that reach past the loaded pages. The file name comes from
+ * Content-Disposition and the left-out count from X-Skipped-Count when they are sent.
+ */
+export async function requestExportFile(
+  query: Record<string, string>,
+  excludedIds: number[],
+  options: ExportOptions
+): Promise<ExportFile> {
+  const response = await authFetch("/api/receipts/export", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    cache: "no-store",
+    body: JSON.stringify({ query, excludedIds, ...options }),
+  });
+  if (!response.ok) {
+    throw new Error("Failed to export the selected receipts.");
+  }
+
+  const content = await response.blob();
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const fileName = /filename="?([^";]+)"?/i.exec(disposition)?.[1]?.trim();
+  const skippedCount = Number(response.headers.get("X-Skipped-Count"));
+  return {
+    blob: new Blob([content], { type: MIME_TYPES[options.format] }),
+    fileName: fileName || `transactions-${toFileDate(new Date())}.${options.format}`,
+    skippedCount: Number.isInteger(skippedCount) && skippedCount > 0 ? skippedCount : 0,
+  };
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { formatParseStatus, normalizeParseStatus, type ParseStatus } from "./receipt-parse-status";
+
+// Search and structured filters for the transactions list. They live in the URL next to
+// `tab` so a filtered view can be bookmarked or shared, and are sent to GET /api/receipts/me
+// with the same names. The backend does the filtering; the client only re-checks dates.
+
+export type ReviewedFilter = "" | "reviewed" | "unreviewed";
+
+export type TransactionFilters = {
+  // Matches merchant, item descriptions and notes.
+  q: string;
+  // YYYY-MM-DD, inclusive.
+  from: string;
+  to: string;
+  minAmount: string;
+  maxAmount: string;
+  category: string;
+  currency: string;
+  reviewed: ReviewedFilter;
+  parseStatus: ParseStatus | "";
+};
+
+/** YYYY-MM-DD bounds, both inclusive. */
+export type DateRange = { from: string; to: string };
+
+export const EMPTY_TRANSACTION_FILTERS: TransactionFilters = {
+  q: "",
+  from: "",
+  to: "",
+  minAmount: "",
+  maxAmount: "",
+  category: "",
+  currency: "",
+  reviewed: "",
+  parseStatus: "",
+};
+
+export const TRANSACTION_FILTER_KEYS = Object.keys(
+  EMPTY_TRANSACTION_FILTERS
+) as (keyof TransactionFilters)[];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function readAmount(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function readTransactionFilters(params: URLSearchParams | null): TransactionFilters {
+  const read = (key: keyof TransactionFilters) => params?.get(key)?.trim() ?? "";
+  const reviewed = read("reviewed");
+  const from = read("from");
+  const to = read("to");
+  return {
+    q: read("q"),
+    from: DATE_PATTERN.test(from) ? from : "",
+    to: DATE_PATTERN.test(to) ? to : "",
+    minAmount: readAmount(read("minAmount")) === null ? "" : read("minAmount"),
+    maxAmount: readAmount(read("maxAmount")) === null ? "" : read("maxAmount"),
+    category: read("category"),
+    currency: read("currency").toUpperCase(),
+    reviewed: reviewed === "reviewed" || reviewed === "unreviewed" ? reviewed : "",
+    parseStatus: normalizeParseStatus(read("parseStatus")) ?? "",
+  };
+}
+
+/** Sets the non-empty filters on `params` and removes the rest. */
+export function writeTransactionFilters(params: URLSearchParams, filters: TransactionFilters) {
+  for (const key of TRANSACTION_FILTER_KEYS) {
+    const value = filters[key].trim();
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+  }
+  return params;
+}
+
+export function countActiveFilters(filters: TransactionFilters) {
+  return TRANSACTION_FILTER_KEYS.filter((key) => key !== "q" && filters[key].trim()).length;
+}
+
+export function hasActiveFilters(filters: TransactionFilters) {
+  return Boolean(filters.q.trim()) || countActiveFilters(filters) > 0;
+}
+
+export function isSameFilters(left: TransactionFilters, right: TransactionFilters) {
+  return TRANSACTION_FILTER_KEYS.every((key) => left[key].trim() === right[key].trim());
+}
+
+function describeFilter(key: keyof TransactionFilters, filters: TransactionFilters) {
+  switch (key) {
+    case "from":
+      return `From ${filters.from}`;
+    case "to":
+      return `To ${filters.to}`;
+    case "minAmount":
+      return `Min ${filters.minAmount}`;
+    case "maxAmount":
+      return `Max ${filters.maxAmount}`;
+    case "reviewed":
+      return filters.reviewed === "reviewed" ? "Reviewed" : "Unreviewed";
+    case "parseStatus":
+      return filters.parseStatus ? formatParseStatus(filters.parseStatus) : "";
+    default:
+      return filters[key];
+  }
+}
+
+/** One short label per active structured filter, for removable chips. */
+export function describeTransactionFilters(filters: TransactionFilters) {
+  return TRANSACTION_FILTER_KEYS.filter((key) => key !== "q" && filters[key].trim()).map(
+    (key) => ({ key, label: describeFilter(key, filters) })
+  );
+}
+
+/** Intersects the filter dates with `range`, e.g. the current month on This Month. */
+export function narrowToRange(filters: TransactionFilters, range: DateRange | null) {
+  if (!range) {
+    return filters;
+  }
+  return {
+    ...filters,
+    from: [filters.from, range.from].filter(Boolean).sort().pop() ?? "",
+    to: [filters.to, range.to].filter(Boolean).sort().shift() ?? "",
+  };
+}
+
+/**
+ * Query parameters for GET /api/receipts/me, with the dates narrowed to `range`.
+ */
+export function toReceiptFilterQuery(
+  filters: TransactionFilters,
+  range: DateRange | null = null
+) {
+  const query: Record<string, string> = {};
+  writeTransactionFilters(new URLSearchParams(), narrowToRange(filters, range)).forEach(
+    (value, key) => {
+      query[key] = value;
+    }
+  );
+  if (filters.reviewed) {
+    query.reviewed = filters.reviewed === "reviewed" ? "true" : "false";
+  }
+  return query;
+}
+
+function toDateKey(value: string | null) {
+  const match = value?.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  if (match) {
+    return match[1];
+  }
+  const parsed = value ? Date.parse(value) : Number.NaN;
+  if (Number.isNaN(parsed)) {
+    return "";
+  }
+  const date = new Date(parsed);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * Whether a receipt's date falls within the filter dates. This is the only filter the
+ * client applies itself: list rows carry no items, so matching `q` or a category on them
+ * would drop receipts the backend matched by their items.
+ */
+export function matchesFilterDates(date: string | null, filters: TransactionFilters) {
+  if (!filters.from && !filters.to) {
+    return true;
+  }
+  const dateKey = toDateKey(date);
+  return Boolean(
+    dateKey && (!filters.from || dateKey >= filters.from) && (!filters.to || dateKey <= filters.to)
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+
+// How the transactions list is ordered and laid out: grouped month cards or a table with
+// user-chosen, resizable columns. The user's choice is stored in their preferences on the
+// backend so it follows them across devices; saved views can carry their own.
+
+export type TransactionSortKey =
+  | "date"
+  | "amount"
+  | "merchant"
+  | "category"
+  | "createdAt"
+  | "reviewed";
+
+export type TransactionSort = {
+  key: TransactionSortKey;
+  direction: "asc" | "desc";
+};
+
+export type TransactionColumn = "category" | "currency" | "tax" | "tags" | "reviewed";
+
+// Columns the table always shows, before the optional ones.
+export type TransactionFixedColumn = "merchant" | "date" | "amount";
+
+export type TransactionLayout = {
+  mode: "grouped" | "table";
+  sort: TransactionSort;
+  columns: TransactionColumn[];
+};
+
+export type TransactionColumnWidths = Partial<
+  Record<TransactionFixedColumn | TransactionColumn, number>
+>;
+
+export type TransactionPreferences = TransactionLayout & {
+  columnWidths: TransactionColumnWidths;
+};
+
+/** The receipt fields sorting looks at. */
+export type SortableTransaction = {
+  merchant: string;
+  amount: number | null;
+  date: string | null;
+  createdAt: string | null;
+  category: string;
+  reviewed: boolean | null;
+};
+
+export const TRANSACTION_SORT_OPTIONS: { value: TransactionSortKey; label: string }[] = [
+  { value: "date", label: "Date" },
+  { value: "amount", label: "Amount" },
+  { value: "merchant", label: "Merchant" },
+  { value: "category", label: "Category" },
+  { value: "createdAt", label: "Created" },
+  { value: "reviewed", label: "Reviewed" },
+];
+
+export const TRANSACTION_COLUMN_OPTIONS: { value: TransactionColumn; label: string }[] = [
+  { value: "category", label: "Category" },
+  { value: "currency", label: "Currency" },
+  { value: "tax", label: "Tax" },
+  { value: "tags", label: "Tags" },
+  { value: "reviewed", label: "Reviewed" },
+];
+
+export const DEFAULT_TRANSACTION_SORT: TransactionSort = { key: "date", direction: "desc" };
+
+export const DEFAULT_TRANSACTION_LAYOUT: TransactionLayout = {
+  mode: "grouped",
+  sort: DEFAULT_TRANSACTION_SORT,
+  columns: ["category", "tags"],
+};
+
+export const DEFAULT_COLUMN_WIDTHS: Record<TransactionFixedColumn | TransactionColumn, number> = {
+  merchant: 220,
+  date: 110,
+  amount: 110,
+  category: 140,
+  currency: 90,
+  tax: 100,
+  tags: 180,
+  reviewed: 100,
+};
+
+export const MIN_COLUMN_WIDTH = 64;
+export const MAX_COLUMN_WIDTH = 480;
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readErrorMessage(payload: unknown, fallback: string) {
+  const payloadObject = toObject(payload);
+  const message = toString(payloadObject?.message) || toString(payloadObject?.error);
+  return message || fallback;
+}
+
+export function clampColumnWidth(width: number) {
+  return Math.round(Math.min(Math.max(width, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH));
+}
+
+/** Reads a stored layout; anything missing or unknown falls back to the defaults. */
+export function readTransactionLayout(value: unknown): TransactionLayout {
+  const source = toObject(value);
+  const sortObject = toObject(source?.sort);
+  const sortKey = toString(sortObject?.key);
+  const columnsRaw = Array.isArray(source?.columns) ? source.columns : null;
+  return {
+    mode: source?.mode === "table" ? "table" : "grouped",
+    sort: TRANSACTION_SORT_OPTIONS.some((option) => option.value === sortKey)
+      ? {
+          key: sortKey as TransactionSortKey,
+          direction: sortObject?.direction === "asc" ? "asc" : "desc",
+        }
+      : DEFAULT_TRANSACTION_SORT,
+    columns: columnsRaw
+      ? TRANSACTION_COLUMN_OPTIONS.map((option) => option.value).filter((column) =>
+          columnsRaw.includes(column)
+        )
+      : DEFAULT_TRANSACTION_LAYOUT.columns,
+  };
+}
+
+function readColumnWidths(value: unknown): TransactionColumnWidths {
+  const source = toObject(value) ?? {};
+  const widths: TransactionColumnWidths = {};
+  for (const key of Object.keys(DEFAULT_COLUMN_WIDTHS) as (keyof TransactionColumnWidths)[]) {
+    const width = source[key];
+    if (typeof width === "number" && Number.isFinite(width)) {
+      widths[key] = clampColumnWidth(width);
+    }
+  }
+  return widths;
+}
+
+export function isSameLayout(left: TransactionLayout, right: TransactionLayout) {
+  return (
+    left.mode === right.mode &&
+    left.sort.key === right.sort.key &&
+    left.sort.direction === right.sort.direction &&
+    left.columns.join(",") === right.columns.join(",")
+  );
+}
+
+type Direction = 1 | -1;
+
+// Blank values go last whichever way the list is sorted.
+function compareText(left: string, right: string, direction: Direction) {
+  if (!left || !right) {
+    return left ? -1 : right ? 1 : 0;
+  }
+  return left.localeCompare(right, undefined, { sensitivity: "base" }) * direction;
+}
+
+function compareNumbers(left: number | null, right: number | null, direction: Direction) {
+  if (left === null || right === null) {
+    return left !== null ? -1 : right !== null ? 1 : 0;
+  }
+  return (left - right) * direction;
+}
+
+function toTime(value: string | null) {
+  const parsed = value ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function compareBy(
+  key: TransactionSortKey,
+  left: SortableTransaction,
+  right: SortableTransaction,
+  direction: Direction
+) {
+  switch (key) {
+    case "amount":
+      return compareNumbers(left.amount, right.amount, direction);
+    case "merchant":
+      return compareText(left.merchant, right.merchant, direction);
+    case "category":
+      return compareText(left.category, right.category, direction);
+    case "createdAt":
+      return compareNumbers(toTime(left.createdAt), toTime(right.createdAt), direction);
+    case "reviewed":
+      return compareNumbers(
+        left.reviewed === null ? null : Number(left.reviewed),
+        right.reviewed === null ? null : Number(right.reviewed),
+        direction
+      );
+    default:
+      return compareNumbers(toTime(left.date), toTime(right.date), direction);
+  }
+}
+
+/** A sorted copy; ties keep their date order, newest first. */
+export function sortTransactions<T extends SortableTransaction>(
+  transactions: T[],
+  sort: TransactionSort
+) {
+  const direction: Direction = sort.direction === "asc" ? 1 : -1;
+  return [...transactions].sort(
+    (left, right) =>
+      compareBy(sort.key, left, right, direction) || compareBy("date", left, right, -1)
+  );
+}
+
+/** Query parameters for GET /api/receipts/me; the default date order sends none. */
+export function toReceiptSortQuery(sort: TransactionSort): Record<string, string> {
+  if (sort.key === DEFAULT_TRANSACTION_SORT.key && sort.direction === "desc") {
+    return {};
+  }
+  return { sort: sort.key, direction: sort.direction };
+}
+
+export async function fetchTransactionPreferences(): Promise<TransactionPreferences> {
+  const response = await authFetch("/api/users/me/preferences", {
+    method: "GET",
+    cache: "no-store",
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readErrorMessage(payload, "Failed to load preferences."));
+  }
+  const payloadObject = toObject(payload);
+  const transactions = toObject((toObject(payloadObject?.data) ?? payloadObject)?.transactions);
+  return {
+    ...readTransactionLayout(transactions),
+    columnWidths: readColumnWidths(transactions?.columnWidths),
+  };
+}
+
+export async function saveTransactionPreferences(preferences: TransactionPreferences) {
+  const response = await authFetch("/api/users/me/preferences", {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ transactions: preferences }),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readErrorMessage(payload, "Failed to save preferences."));
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./upload-rate-limit";
+
+const OPTIONS = { limit: 2, windowMs: 60_000 };
+
+describe("createRateLimiter", () => {
+  it("allows up to the limit per window and reports when to retry", () => {
+    const consume = createRateLimiter();
+
+    expect(consume("user-1", OPTIONS, 0)).toEqual({ allowed: true, remaining: 1 });
+    expect(consume("user-1", OPTIONS, 1_000)).toEqual({ allowed: true, remaining: 0 });
+    expect(consume("user-1", OPTIONS, 10_500)).toEqual({ allowed: false, retryAfterSeconds: 50 });
+    expect(consume("user-1", OPTIONS, 60_000)).toEqual({ allowed: true, remaining: 1 });
+  });
+
+  it("counts each user separately", () => {
+    const consume = createRateLimiter();
+
+    consume("user-1", OPTIONS, 0);
+    consume("user-1", OPTIONS, 0);
+
+    expect(consume("user-1", OPTIONS, 0).allowed).toBe(false);
+    expect(consume("user-2", OPTIONS, 0).allowed).toBe(true);
+  });
+});
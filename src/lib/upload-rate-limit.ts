@@ -0,0 +1,55 @@
+// Server-only. Fixed-window counter per key (the user id for upload URLs). Counts live in
+// memory, so each server instance enforces the limit on its own.
+
+export type RateLimitOptions = {
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number };
+
+type RateLimitWindow = {
+  startedAt: number;
+  count: number;
+};
+
+// Expired windows are swept once the map grows past this, so idle users do not pile up.
+const SWEEP_THRESHOLD = 1000;
+
+export function createRateLimiter() {
+  const windows = new Map<string, RateLimitWindow>();
+
+  const sweep = (now: number, windowMs: number) => {
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= windowMs) {
+        windows.delete(key);
+      }
+    }
+  };
+
+  return (
+    key: string,
+    { limit, windowMs }: RateLimitOptions,
+    now = Date.now()
+  ): RateLimitResult => {
+    if (windows.size > SWEEP_THRESHOLD) {
+      sweep(now, windowMs);
+    }
+
+    const current = windows.get(key);
+    if (!current || now - current.startedAt >= windowMs) {
+      windows.set(key, { startedAt: now, count: 1 });
+      return { allowed: true, remaining: limit - 1 };
+    }
+    if (current.count >= limit) {
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.max(Math.ceil((current.startedAt + windowMs - now) / 1000), 1),
+      };
+    }
+    current.count += 1;
+    return { allowed: true, remaining: limit - current.count };
+  };
+}
@@ -0,0 +1,163 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import path from "node:path";
+import { GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { optionalEnv, requiredEnv } from "./server-env";
+
+// Server-only. Picks where files uploaded through /api/s3-upload live: S3 in deployments,
+// or a local directory served by /api/local-storage for development without cloud access.
+
+export type UploadStorageDriverName = "s3" | "local";
+
+export type SignedUploadRequest = {
+  key: string;
+  contentType: string;
+  sizeBytes: number;
+  // Absolute origin of the incoming request; the local driver builds URLs from it.
+  origin: string;
+};
+
+export type SignedUpload = {
+  uploadUrl: string;
+  url: string;
+};
+
+export type UploadStorageDriver = {
+  name: UploadStorageDriverName;
+  createSignedUpload: (request: SignedUploadRequest) => Promise<SignedUpload>;
+};
+
+const LOCAL_STORAGE_ROUTE = "/api/local-storage";
+const DEFAULT_LOCAL_STORAGE_DIR = ".local-uploads";
+
+function readSignedUrlExpiresSeconds() {
+  const configured = Number(
+    optionalEnv("AWS_S3_SIGNED_URL_EXPIRES", "S3_SIGNED_URL_EXPIRES", "UPLOAD_SIGNED_URL_EXPIRES")
+  );
+  return Number.isFinite(configured) && configured > 0 ? configured : 3600;
+}
+
+function createS3Client(region: string) {
+  const accessKeyId = optionalEnv("AWS_ACCESS_KEY_ID", "S3_ACCESS_KEY_ID");
+  const secretAccessKey = optionalEnv("AWS_SECRET_ACCESS_KEY", "S3_SECRET_ACCESS_KEY");
+
+  if (accessKeyId && secretAccessKey) {
+    return new S3Client({
+      region,
+      credentials: {
+        accessKeyId,
+        secretAccessKey,
+      },
+    });
+  }
+
+  return new S3Client({ region });
+}
+
+function createS3Driver(): UploadStorageDriver {
+  return {
+    name: "s3",
+    createSignedUpload: async ({ key, contentType, sizeBytes }) => {
+      const region = requiredEnv("AWS_REGION", "S3_REGION");
+      const bucket = requiredEnv("AWS_S3_BUCKET", "S3_BUCKET");
+      const client = createS3Client(region);
+      const expiresIn = readSignedUrlExpiresSeconds();
+
+      const uploadUrl = await getSignedUrl(
+        client,
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ContentType: contentType,
+          // Signed into the URL, so S3 rejects a PUT whose body differs from the declared size.
+          ContentLength: sizeBytes,
+        }),
+        { expiresIn }
+      );
+
+      const url = await getSignedUrl(
+        client,
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: key,
+        }),
+        { expiresIn }
+      );
+
+      return { uploadUrl, url };
+    },
+  };
+}
+
+export function readLocalStorageDir() {
+  return path.resolve(optionalEnv("LOCAL_STORAGE_DIR") || DEFAULT_LOCAL_STORAGE_DIR);
+}
+
+function readLocalStorageSecret() {
+  return requiredEnv("LOCAL_STORAGE_SECRET");
+}
+
+type LocalSignature =
+  | { method: "PUT"; key: string; expires: number; contentType: string; sizeBytes: number }
+  | { method: "GET"; key: string; expires: number };
+
+function signLocalRequest(signature: LocalSignature) {
+  const fields = [signature.method, signature.key, signature.expires];
+  if (signature.method === "PUT") {
+    fields.push(signature.contentType, signature.sizeBytes);
+  }
+  return createHmac("sha256", readLocalStorageSecret()).update(fields.join("\n")).digest("hex");
+}
+
+/** Checks an HMAC from a local storage URL; expired or tampered URLs are rejected. */
+export function verifyLocalSignature(signature: LocalSignature, provided: string) {
+  if (!Number.isFinite(signature.expires) || signature.expires * 1000 < Date.now()) {
+    return false;
+  }
+  const expected = Buffer.from(signLocalRequest(signature), "hex");
+  const actual = Buffer.from(provided, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Maps an object key to a path inside the storage directory, or null if it escapes it. */
+export function resolveLocalObjectPath(key: string) {
+  const root = readLocalStorageDir();
+  const resolved = path.resolve(root, key);
+  return resolved.startsWith(`${root}${path.sep}`) ? resolved : null;
+}
+
+function createLocalDriver(): UploadStorageDriver {
+  return {
+    name: "local",
+    createSignedUpload: async ({ key, contentType, sizeBytes, origin }) => {
+      const expires = Math.floor(Date.now() / 1000) + readSignedUrlExpiresSeconds();
+      const baseUrl = optionalEnv("LOCAL_STORAGE_PUBLIC_BASE_URL") || origin;
+      const objectUrl = `${baseUrl.replace(/\/+$/, "")}${LOCAL_STORAGE_ROUTE}/${key
+        .split("/")
+        .map(encodeURIComponent)
+        .join("/")}`;
+
+      const uploadParams = new URLSearchParams({
+        expires: String(expires),
+        contentType,
+        sizeBytes: String(sizeBytes),
+        signature: signLocalRequest({ method: "PUT", key, expires, contentType, sizeBytes }),
+      });
+      const readParams = new URLSearchParams({
+        expires: String(expires),
+        signature: signLocalRequest({ method: "GET", key, expires }),
+      });
+
+      return {
+        uploadUrl: `${objectUrl}?${uploadParams.toString()}`,
+        url: `${objectUrl}?${readParams.toString()}`,
+      };
+    },
+  };
+}
+
+export function getUploadStorage(): UploadStorageDriver {
+  return optionalEnv("UPLOAD_STORAGE_DRIVER").toLowerCase() === "local"
+    ? createLocalDriver()
+    : createS3Driver();
+}
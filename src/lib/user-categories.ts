@@ -0,0 +1,248 @@
+"use client";
+
+import { authFetch } from "./auth-client";
+
+// Spending categories are defined per user on the backend. Receipts and items store the
+// category name, so renames and merges are applied to existing receipts server-side.
+
+export type UserCategory = {
+  id: string;
+  name: string;
+  color: string;
+  archived: boolean;
+  position: number;
+};
+
+export type CategoryChanges = Partial<Pick<UserCategory, "name" | "color" | "archived">>;
+
+export const CATEGORY_COLOR_PALETTE = [
+  "#0066cc",
+  "#2997ff",
+  "#34a853",
+  "#f5a300",
+  "#c9302c",
+  "#8e44ad",
+  "#00a3a3",
+  "#e86a92",
+  "#7a7a7a",
+  "#333333",
+];
+
+const DEFAULT_CATEGORY_NAMES = [
+  "Housing",
+  "Utilities",
+  "Food",
+  "Transportation",
+  "Shopping",
+  "Health",
+  "Entertainment",
+  "Subscriptions",
+  "Travel",
+  "Education",
+  "Other",
+];
+
+const DEFAULT_ID_PREFIX = "default-";
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+function toObject(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readErrorMessage(payload: unknown, fallback: string) {
+  const payloadObject = toObject(payload);
+  const message = toString(payloadObject?.message) || toString(payloadObject?.error);
+  return message || fallback;
+}
+
+export function paletteColor(index: number) {
+  return CATEGORY_COLOR_PALETTE[index % CATEGORY_COLOR_PALETTE.length];
+}
+
+/** Used until the user has saved categories of their own, or when the backend is unreachable. */
+export function getDefaultCategories(): UserCategory[] {
+  return DEFAULT_CATEGORY_NAMES.map((name, index) => ({
+    id: `${DEFAULT_ID_PREFIX}${name.toLowerCase()}`,
+    name,
+    color: paletteColor(index),
+    archived: false,
+    position: index,
+  }));
+}
+
+function readCategory(value: unknown, index: number): UserCategory | null {
+  const source = toObject(value);
+  const name = toString(source?.name);
+  const id = source?.id ?? source?.categoryId ?? source?._id;
+  if (!source || !name || (typeof id !== "string" && typeof id !== "number")) {
+    return null;
+  }
+  const color = toString(source.color);
+  return {
+    id: String(id),
+    name,
+    color: HEX_COLOR_PATTERN.test(color) ? color : paletteColor(index),
+    archived: source.archived === true || source.isArchived === true,
+    position: toNumber(source.position ?? source.sortOrder) ?? index,
+  };
+}
+
+function readCategoryList(payload: unknown) {
+  const payloadObject = toObject(payload);
+  const categoriesRaw = Array.isArray(payload)
+    ? payload
+    : Array.isArray(payloadObject?.data)
+      ? payloadObject.data
+      : Array.isArray(payloadObject?.categories)
+        ? payloadObject.categories
+        : [];
+  return categoriesRaw
+    .map(readCategory)
+    .filter((category): category is UserCategory => category !== null)
+    .sort((left, right) => left.position - right.position);
+}
+
+async function requestCategories(path: string, init: RequestInit, fallbackMessage: string) {
+  const response = await authFetch(path, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readErrorMessage(payload, fallbackMessage));
+  }
+  return payload;
+}
+
+/** Every category of the signed-in user, archived ones included, in display order. */
+export async function fetchUserCategories(): Promise<UserCategory[]> {
+  const response = await authFetch("/api/categories", {
+    method: "GET",
+    cache: "no-store",
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readErrorMessage(payload, "Failed to load categories."));
+  }
+  const categories = readCategoryList(payload);
+  return categories.length > 0 ? categories : getDefaultCategories();
+}
+
+/** Like fetchUserCategories, but falls back to the defaults so pickers and charts still work. */
+export function loadUserCategories() {
+  return fetchUserCategories().catch(() => getDefaultCategories());
+}
+
+export async function createCategory(name: string, color: string) {
+  const payload = await requestCategories(
+    "/api/categories",
+    { method: "POST", body: JSON.stringify({ name, color }) },
+    "Failed to create category."
+  );
+  const category = readCategory(toObject(payload)?.data ?? payload, 0);
+  if (!category) {
+    throw new Error("Failed to create category.");
+  }
+  return category;
+}
+
+/**
+ * The defaults only exist client-side until something is changed; this saves them as the
+ * user's own categories first so the change has server ids to refer to. They are created
+ * in one request, so a failure leaves nothing half-saved to be posted again.
+ */
+export async function ensureSavedCategories(categories: UserCategory[]) {
+  if (!categories.some((category) => category.id.startsWith(DEFAULT_ID_PREFIX))) {
+    return categories;
+  }
+  const payload = await requestCategories(
+    "/api/categories/bulk",
+    {
+      method: "POST",
+      body: JSON.stringify({
+        categories: categories.map(({ name, color }, position) => ({ name, color, position })),
+      }),
+    },
+    "Failed to save categories."
+  );
+  const created = readCategoryList(toObject(payload)?.data ?? payload);
+  // Returned in the caller's order, so callers can map a default id to its saved row by index.
+  const saved = categories.map((category) =>
+    category.id.startsWith(DEFAULT_ID_PREFIX)
+      ? created.find((entry) => entry.name.toLowerCase() === category.name.toLowerCase())
+      : category
+  );
+  if (saved.some((category) => !category)) {
+    throw new Error("Failed to save categories.");
+  }
+  return saved.map((category, position) => ({ ...(category as UserCategory), position }));
+}
+
+/** Renaming also re-tags the receipts and items that use the old name. */
+export async function updateCategory(id: string, changes: CategoryChanges) {
+  await requestCategories(
+    `/api/categories/${encodeURIComponent(id)}`,
+    { method: "PUT", body: JSON.stringify(changes) },
+    "Failed to update category."
+  );
+}
+
+export async function reorderCategories(ids: string[]) {
+  await requestCategories(
+    "/api/categories/order",
+    { method: "PUT", body: JSON.stringify({ ids }) },
+    "Failed to reorder categories."
+  );
+}
+
+/**
+ * Moves every receipt and item tagged with the source category to the target and
+ * deletes the source. Resolves to the number of receipts that were re-tagged.
+ */
+export async function mergeCategory(sourceId: string, targetId: string) {
+  const payload = await requestCategories(
+    `/api/categories/${encodeURIComponent(sourceId)}/merge`,
+    { method: "POST", body: JSON.stringify({ targetId }) },
+    "Failed to merge categories."
+  );
+  const payloadObject = toObject(payload);
+  return toNumber(payloadObject?.retagged ?? payloadObject?.updated) ?? 0;
+}
+
+/**
+ * Names to offer in a category picker: the active categories, plus any of `currentValues`
+ * that are archived or unknown so an existing receipt keeps showing its category.
+ */
+export function getCategoryOptions(categories: UserCategory[], currentValues: string[] = []) {
+  const options = categories
+    .filter((category) => !category.archived)
+    .map((category) => category.name);
+  for (const value of currentValues) {
+    if (value && !options.includes(value)) {
+      options.push(value);
+    }
+  }
+  return options;
+}
+
+export function getCategoryColor(categories: UserCategory[], name: string, index: number) {
+  return categories.find((category) => category.name === name)?.color ?? paletteColor(index);
+}